@@ -1,6 +1,6 @@
 import { openai } from "@ai-sdk/openai";
 import { generateText } from "ai";
-import { Tracer } from "judgeval";
+import { AISDKSpanProcessor, Tracer } from "judgeval";
 
 const chatWithUser = Tracer.observe(async function chatWithUser(
   userMessage: string,
@@ -9,7 +9,7 @@ const chatWithUser = Tracer.observe(async function chatWithUser(
     model: openai("gpt-4o-mini"),
     system: "You are a helpful assistant.",
     prompt: userMessage,
-    experimental_telemetry: { isEnabled: true, tracer: Tracer.getOTELTracer() },
+    experimental_telemetry: Tracer.getAISDKTelemetry(),
   });
 
   console.log(`User: ${userMessage}`);
@@ -19,7 +19,10 @@ const chatWithUser = Tracer.observe(async function chatWithUser(
 });
 
 (async () => {
-  await Tracer.init({ projectName: "ai-sdk-example" });
+  await Tracer.init({
+    projectName: "ai-sdk-example",
+    spanProcessors: [new AISDKSpanProcessor()],
+  });
   const result = await chatWithUser("What is the capital of France?");
   console.log(result);
   await Tracer.forceFlush();
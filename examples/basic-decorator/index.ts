@@ -1,5 +1,6 @@
 import { Tracer } from "judgeval";
 
+@Tracer.agent()
 class TravelAgent {
   @Tracer.observe({ spanType: "tool" })
   searchFlights(destination: string): string[] {
@@ -1,6 +1,6 @@
 #!/usr/bin/env bun
 
-import { build } from "bun";
+import { build, type BunPlugin } from "bun";
 import { exec } from "child_process";
 import { mkdir, writeFile } from "fs/promises";
 import { promisify } from "util";
@@ -9,6 +9,18 @@ const execAsync = promisify(exec);
 const minify = !process.argv.includes("--dev");
 const external = ["@opentelemetry/*", "async_hooks"];
 
+// `judgeval/testing` must share the main bundle's tracer runtime, so its
+// imports of the package root resolve to "judgeval" instead of a copy.
+const mainBundleExternal: BunPlugin = {
+  name: "judgeval-main-bundle-external",
+  setup(builder) {
+    builder.onResolve({ filter: /^\.\.\/index$/ }, () => ({
+      path: "judgeval",
+      external: true,
+    }));
+  },
+};
+
 const configs = [
   {
     entrypoints: ["./src/index.ts"],
@@ -46,6 +58,20 @@ const configs = [
     format: "esm",
     naming: "workers/jql.mjs",
   },
+  {
+    entrypoints: ["./src/testing/index.ts"],
+    target: "node",
+    format: "esm",
+    naming: "node/testing.mjs",
+    plugins: [mainBundleExternal],
+  },
+  {
+    entrypoints: ["./src/testing/index.ts"],
+    target: "node",
+    format: "cjs",
+    naming: "node/testing.cjs",
+    plugins: [mainBundleExternal],
+  },
 ] as const;
 
 await Promise.all(
@@ -59,14 +85,12 @@ await Promise.all(
       minify,
       sourcemap: minify ? "linked" : "inline",
       naming: { entry: config.naming },
+      plugins: "plugins" in config ? [...config.plugins] : [],
     }),
   ),
 );
 
 await execAsync("bunx tsc -p tsconfig.build.json");
 await mkdir("./dist/node", { recursive: true });
-await writeFile(
-  "./dist/node/index.d.ts",
-  'export * from "../index";\n',
-);
+await writeFile("./dist/node/index.d.ts", 'export * from "../index";\n');
 console.log("✓ Build complete");
@@ -36,6 +36,10 @@ describe("package manifest validation", () => {
         "dist/node/jql.cjs.map",
         "dist/node/jql.mjs",
         "dist/node/jql.mjs.map",
+        "dist/node/testing.cjs",
+        "dist/node/testing.cjs.map",
+        "dist/node/testing.mjs",
+        "dist/node/testing.mjs.map",
         "dist/workers/index.mjs",
         "dist/workers/index.mjs.map",
         "dist/workers/jql.mjs",
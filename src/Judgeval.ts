@@ -6,6 +6,7 @@ import { EvaluationFactory } from "./evaluation/EvaluationFactory";
 import { DatasetFactory } from "./datasets/DatasetFactory";
 import { AgentJudgeFactory } from "./agent-judges/AgentJudgeFactory";
 import { OfflineTestsFactory } from "./offline-tests/OfflineTestsFactory";
+import { FeedbackFactory } from "./feedback/FeedbackFactory";
 import type { OfflineTracer, OfflineTracerConfig } from "./trace/OfflineTracer";
 import {
   JudgevalJqlClient,
@@ -222,4 +223,13 @@ export class Judgeval {
       this._projectName,
     );
   }
+
+  /** Record end-user feedback on traces and spans. */
+  get feedback(): FeedbackFactory {
+    return new FeedbackFactory(
+      this._client,
+      this._projectId,
+      this._projectName,
+    );
+  }
 }
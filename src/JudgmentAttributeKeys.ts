@@ -12,9 +12,18 @@ export enum AttributeKeys {
   JUDGMENT_AGENT_INSTANCE_NAME = "judgment.agent_instance_name",
   JUDGMENT_IS_AGENT_ENTRY_POINT = "judgment.is_agent_entry_point",
   JUDGMENT_CUMULATIVE_LLM_COST = "judgment.cumulative_llm_cost",
+  JUDGMENT_CUMULATIVE_NON_CACHED_INPUT_TOKENS = "judgment.cumulative_non_cached_input_tokens",
+  JUDGMENT_CUMULATIVE_CACHE_READ_INPUT_TOKENS = "judgment.cumulative_cache_read_input_tokens",
+  JUDGMENT_CUMULATIVE_CACHE_CREATION_INPUT_TOKENS = "judgment.cumulative_cache_creation_input_tokens",
+  JUDGMENT_CUMULATIVE_OUTPUT_TOKENS = "judgment.cumulative_output_tokens",
   JUDGMENT_STATE_BEFORE = "judgment.state_before",
   JUDGMENT_STATE_AFTER = "judgment.state_after",
+  JUDGMENT_STATE_DIFF = "judgment.state_diff",
+  JUDGMENT_REDACTED_RULES = "judgment.redacted_rules",
+  JUDGMENT_TRUNCATED_ATTRIBUTES = "judgment.truncated_attributes",
   JUDGMENT_PENDING_TRACE_EVAL = "judgment.pending_trace_eval",
+  JUDGMENT_SCORES = "judgment.scores",
+  JUDGMENT_TRACE_SCORES = "judgment.trace_scores",
   JUDGMENT_USAGE_METADATA = "judgment.usage.metadata",
 
   JUDGMENT_LLM_PROVIDER = "judgment.llm.provider",
@@ -34,6 +43,11 @@ export enum AttributeKeys {
   JUDGMENT_LINK_TARGET_TRACE_ID = "judgment.link.target_trace_id",
   JUDGMENT_LINK_TARGET_SPAN_ID = "judgment.link.target_span_id",
 
+  JUDGMENT_FEEDBACK_NAME = "judgment.feedback.name",
+  JUDGMENT_FEEDBACK_VALUE = "judgment.feedback.value",
+  JUDGMENT_FEEDBACK_COMMENT = "judgment.feedback.comment",
+  JUDGMENT_FEEDBACK_USER_ID = "judgment.feedback.user_id",
+
   GEN_AI_PROMPT = "gen_ai.prompt",
   GEN_AI_COMPLETION = "gen_ai.completion",
   GEN_AI_REQUEST_MODEL = "gen_ai.request.model",
@@ -46,6 +60,24 @@ export enum AttributeKeys {
   GEN_AI_REQUEST_TEMPERATURE = "gen_ai.request.temperature",
   GEN_AI_REQUEST_MAX_TOKENS = "gen_ai.request.max_tokens",
   GEN_AI_RESPONSE_FINISH_REASONS = "gen_ai.response.finish_reasons",
+
+  HTTP_REQUEST_METHOD = "http.request.method",
+  HTTP_ROUTE = "http.route",
+  HTTP_RESPONSE_STATUS_CODE = "http.response.status_code",
+  HTTP_SERVER_LATENCY_MS = "http.server.latency_ms",
+  URL_PATH = "url.path",
+  URL_FULL = "url.full",
+  SERVER_ADDRESS = "server.address",
+
+  MESSAGING_SYSTEM = "messaging.system",
+  MESSAGING_DESTINATION_NAME = "messaging.destination.name",
+  MESSAGING_OPERATION_TYPE = "messaging.operation.type",
+  MESSAGING_BATCH_MESSAGE_COUNT = "messaging.batch.message_count",
+
+  FAAS_COLDSTART = "faas.coldstart",
+  FAAS_INVOCATION_ID = "faas.invocation_id",
+  FAAS_TRIGGER = "faas.trigger",
+  FAAS_CRON = "faas.cron",
 }
 
 /**
@@ -58,6 +90,10 @@ export enum InternalAttributeKeys {
   IS_CUSTOMER_CONTEXT_OWNER = "is_customer_context_owner",
   PENDING_EVALS = "pending_evals",
   PENDING_EVALS_COUNT = "pending_evals_count",
+  SCORES = "scores",
+  TRACE_SCORES = "trace_scores",
+  CUMULATIVE_USAGE = "cumulative_usage",
+  TAGS = "tags",
 }
 
 export enum ResourceKeys {
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import type { JudgmentApiClient } from "../internal/api/client";
+import { createTestTracer } from "../testing";
+import { Tracer } from "../trace";
+import { FeedbackFactory } from "./FeedbackFactory";
+
+const TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const SPAN_ID = "b7ad6b7169203331";
+
+interface SentRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: {
+    resourceSpans: {
+      scopeSpans: {
+        spans: {
+          traceId: string;
+          spanId: string;
+          parentSpanId?: string;
+          name: string;
+          attributes: { key: string; value: Record<string, unknown> }[];
+        }[];
+      }[];
+    }[];
+  };
+}
+
+function makeFactory(projectId: string | null = "proj-1") {
+  const client = {
+    getBaseUrl: () => "https://api.example.com/",
+    getApiKey: () => "key",
+    getOrganizationId: () => "org",
+  };
+  return new FeedbackFactory(
+    client as unknown as JudgmentApiClient,
+    projectId,
+    "test-project",
+  );
+}
+
+function attributesOf(request: SentRequest): Record<string, unknown> {
+  const [span] = request.body.resourceSpans[0].scopeSpans[0].spans;
+  return Object.fromEntries(
+    span.attributes.map(({ key, value }) => [key, Object.values(value)[0]]),
+  );
+}
+
+describe("FeedbackFactory.record", () => {
+  const originalFetch = globalThis.fetch;
+  let sent: SentRequest[];
+  let status: number;
+
+  beforeEach(() => {
+    sent = [];
+    status = 200;
+    globalThis.fetch = mock((url: string, init: RequestInit) => {
+      sent.push({
+        url,
+        headers: init.headers as Record<string, string>,
+        body: JSON.parse(init.body as string) as SentRequest["body"],
+      });
+      return Promise.resolve(new Response("denied", { status }));
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("sends a feedback span into the target trace", async () => {
+    await makeFactory().record({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      value: false,
+      comment: "Wrong city",
+      userId: "user-123",
+    });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].url).toBe("https://api.example.com/otel/v1/traces");
+    expect(sent[0].headers["X-Project-Id"]).toBe("proj-1");
+    const [span] = sent[0].body.resourceSpans[0].scopeSpans[0].spans;
+    expect(span.traceId).toBe(TRACE_ID);
+    expect(span.parentSpanId).toBe(SPAN_ID);
+    expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(span.name).toBe("user_feedback");
+    expect(attributesOf(sent[0])).toEqual({
+      "judgment.span_kind": "feedback",
+      "judgment.feedback.name": "user_feedback",
+      "judgment.feedback.value": false,
+      "judgment.feedback.comment": "Wrong city",
+      "judgment.feedback.user_id": "user-123",
+    });
+  });
+
+  test("attaches trace-level feedback without a parent span", async () => {
+    await makeFactory().record({ traceId: TRACE_ID, value: 4, name: "rating" });
+
+    const [span] = sent[0].body.resourceSpans[0].scopeSpans[0].spans;
+    expect(span.parentSpanId).toBeUndefined();
+    expect(span.name).toBe("rating");
+    expect(attributesOf(sent[0])["judgment.feedback.value"]).toBe(4);
+  });
+
+  test("rejects malformed ids and values before sending", async () => {
+    const factory = makeFactory();
+    await expect(
+      factory.record({ traceId: "abc", value: true }),
+    ).rejects.toThrow("Invalid trace ID");
+    await expect(
+      factory.record({ traceId: TRACE_ID, spanId: "0".repeat(16), value: 1 }),
+    ).rejects.toThrow("Invalid span ID");
+    await expect(
+      factory.record({ traceId: TRACE_ID, value: Number.NaN }),
+    ).rejects.toThrow("must be finite");
+    expect(sent).toHaveLength(0);
+  });
+
+  test("throws when the endpoint rejects the feedback", async () => {
+    status = 403;
+    await expect(
+      makeFactory().record({ traceId: TRACE_ID, value: true }),
+    ).rejects.toThrow("OTLP upload failed: 403: denied");
+  });
+
+  test("skips recording when the project is unresolved", async () => {
+    await makeFactory(null).record({ traceId: TRACE_ID, value: true });
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe("Tracer.getCurrentTraceId", () => {
+  test("returns the active span's ids inside a span only", () => {
+    const tracer = createTestTracer();
+    try {
+      expect(Tracer.getCurrentTraceId()).toBeUndefined();
+      const ids = Tracer.span("request", (span) => ({
+        traceId: Tracer.getCurrentTraceId(),
+        spanId: Tracer.getCurrentSpanId(),
+        expected: span.spanContext(),
+      }));
+      expect(ids.traceId).toBe(ids.expected.traceId);
+      expect(ids.spanId).toBe(ids.expected.spanId);
+    } finally {
+      tracer.dispose();
+    }
+  });
+});
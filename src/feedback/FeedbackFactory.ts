@@ -0,0 +1,155 @@
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { RandomIdGenerator } from "@opentelemetry/sdk-trace-base";
+import type { JudgmentApiClient } from "../internal/api/client";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+import { Logger } from "../utils/logger";
+import { postOtlpJson, toKeyValues } from "../utils/otlp-json";
+import { VERSION } from "../version";
+
+/**
+ * A feedback value: `true`/`false` for thumbs up/down, a number for
+ * ratings, or a string for labels.
+ */
+export type FeedbackValue = boolean | number | string;
+
+/**
+ * Feedback passed to {@link FeedbackFactory.record}.
+ */
+export interface FeedbackRecord {
+  /** Trace the feedback is about, e.g. from `Tracer.getCurrentTraceId()`. */
+  traceId: string;
+  /** Span within the trace the feedback is about. Defaults to the whole trace. */
+  spanId?: string;
+  /** The feedback value. */
+  value: FeedbackValue;
+  /** Free-text comment from the user. */
+  comment?: string;
+  /** ID of the end user giving the feedback. */
+  userId?: string;
+  /** Feedback name, to tell kinds of feedback apart. Defaults to `"user_feedback"`. */
+  name?: string;
+}
+
+const TRACE_ID_PATTERN = /^(?!0{32})[0-9a-f]{32}$/;
+const SPAN_ID_PATTERN = /^(?!0{16})[0-9a-f]{16}$/;
+
+const idGenerator = new RandomIdGenerator();
+
+/**
+ * Records end-user feedback against traces and spans in your project.
+ *
+ * Each record is sent as a `feedback` span in the target trace, a child
+ * of `spanId` when given, so it can be recorded long after the trace
+ * ended and from another process. Feedback spans carry
+ * `judgment.feedback.*` attributes and can be queried with JQL alongside
+ * the trace's judge scores.
+ *
+ * Access via `client.feedback`.
+ *
+ * @example
+ * ```typescript
+ * // While handling the request:
+ * const traceId = Tracer.getCurrentTraceId();
+ *
+ * // Later, when the user reacts:
+ * await client.feedback.record({
+ *   traceId,
+ *   value: false,
+ *   comment: "Wrong city",
+ *   userId: "user-123",
+ * });
+ * ```
+ */
+export class FeedbackFactory {
+  private readonly _client: JudgmentApiClient;
+  private readonly _projectId: string | null;
+  private readonly _projectName: string;
+
+  constructor(
+    client: JudgmentApiClient,
+    projectId: string | null,
+    projectName: string,
+  ) {
+    this._client = client;
+    this._projectId = projectId;
+    this._projectName = projectName;
+  }
+
+  /**
+   * Record feedback on a trace or span.
+   *
+   * @param feedback - The target trace and span, value, and optional comment and user.
+   * @throws Error if an ID or the value is invalid, or the upload fails.
+   */
+  async record(feedback: FeedbackRecord): Promise<void> {
+    const { traceId, spanId, value } = feedback;
+    if (!TRACE_ID_PATTERN.test(traceId)) {
+      throw new Error(`Invalid trace ID '${traceId}': expected 32 hex digits`);
+    }
+    if (spanId !== undefined && !SPAN_ID_PATTERN.test(spanId)) {
+      throw new Error(`Invalid span ID '${spanId}': expected 16 hex digits`);
+    }
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      throw new Error(`Invalid feedback value ${value}: must be finite`);
+    }
+
+    const projectId = this._expectProjectId();
+    if (!projectId) return;
+
+    const name = feedback.name ?? "user_feedback";
+    const now = (BigInt(Date.now()) * BigInt(1e6)).toString();
+    const span = {
+      traceId,
+      spanId: idGenerator.generateSpanId(),
+      parentSpanId: spanId,
+      name,
+      // OTLP kinds are the API's `SpanKind` values shifted by one.
+      kind: SpanKind.INTERNAL + 1,
+      startTimeUnixNano: now,
+      endTimeUnixNano: now,
+      attributes: toKeyValues({
+        [AttributeKeys.JUDGMENT_SPAN_KIND]: "feedback",
+        [AttributeKeys.JUDGMENT_FEEDBACK_NAME]: name,
+        [AttributeKeys.JUDGMENT_FEEDBACK_VALUE]: value,
+        [AttributeKeys.JUDGMENT_FEEDBACK_COMMENT]: feedback.comment,
+        [AttributeKeys.JUDGMENT_FEEDBACK_USER_ID]: feedback.userId,
+      }),
+      status: { code: SpanStatusCode.UNSET },
+    };
+
+    await postOtlpJson(
+      {
+        apiUrl: this._client.getBaseUrl(),
+        apiKey: this._client.getApiKey(),
+        organizationId: this._client.getOrganizationId(),
+        projectId,
+      },
+      {
+        resourceSpans: [
+          {
+            resource: {
+              attributes: toKeyValues({
+                "service.name": this._projectName,
+                "telemetry.sdk.name": "judgeval",
+                "telemetry.sdk.version": VERSION,
+              }),
+            },
+            scopeSpans: [
+              { scope: { name: "judgeval", version: VERSION }, spans: [span] },
+            ],
+          },
+        ],
+      },
+    );
+  }
+
+  private _expectProjectId(): string | null {
+    if (!this._projectId) {
+      Logger.error(
+        "Project ID is not resolved. Feedback operations require a valid project.",
+      );
+      return null;
+    }
+    return this._projectId;
+  }
+}
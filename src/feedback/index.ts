@@ -0,0 +1,5 @@
+export {
+  FeedbackFactory,
+  type FeedbackRecord,
+  type FeedbackValue,
+} from "./FeedbackFactory";
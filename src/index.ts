@@ -5,24 +5,71 @@ export {
 } from "./Judgeval";
 
 export {
+  AISDKSpanProcessor,
   BaseTracer,
   JudgmentBaggagePropagator,
   JudgmentBaggageSpanProcessor,
+  ConsoleTreeExporter,
+  type ConsoleTreeExporterOptions,
+  FileSpanExporter,
+  type FileSpanExporterOptions,
+  type FileSpanRecord,
   JudgmentSpanExporter,
+  JudgmentSpanProcessor,
   JudgmentTracerProvider,
+  expressErrorHandler,
+  expressMiddleware,
+  fastifyPlugin,
+  honoMiddleware,
+  koaMiddleware,
+  type HeaderExtractor,
+  type HttpMiddlewareOptions,
+  type HttpRequestInfo,
+  instrumentFetch,
+  instrumentUndici,
+  uninstrumentFetch,
+  uninstrumentUndici,
+  type HostPattern,
+  type HttpClientInstrumentationOptions,
   Tracer,
+  type LambdaContextLike,
+  type LambdaHandler,
+  type WrapHandlerOptions,
   OfflineTracer,
   type OfflineTracerConfig,
   NoOpSpanExporter,
+  PersistentSpanExporter,
+  type ExportQueueOptions,
+  uploadSpanFiles,
+  type UploadSpanFilesOptions,
+  type UploadSpanFilesResult,
   NoOpSpanProcessor,
   OfflineJudgmentSpanProcessor,
+  TailSamplingSpanProcessor,
+  type TailSampledTrace,
+  type TailSamplingOptions,
   ALLOW_ALL_BAGGAGE_KEYS,
   type BaggageKeyPredicate,
   baggage,
+  messaging,
   propagation,
+  redaction,
 } from "./trace";
 
-export { wrap, wrapOpenAI } from "./instrumentation";
+export {
+  JudgevalCallbackHandler,
+  wrap,
+  wrapAnthropic,
+  wrapGoogleGenAI,
+  wrapOpenAI,
+} from "./instrumentation";
+
+export * as pricing from "./pricing";
+export {
+  createSerializer,
+  type Serializer,
+  type SerializerOptions,
+} from "./utils/serializer";
 
 export { Example } from "./data";
 export type { ScoringResult } from "./data";
@@ -66,6 +113,12 @@ export {
   type PassConditionFn,
 } from "./offline-tests";
 
+export {
+  FeedbackFactory,
+  type FeedbackRecord,
+  type FeedbackValue,
+} from "./feedback";
+
 export { JudgevalAPIError } from "./jql/client";
 export type {
   JqlPresentationResponse,
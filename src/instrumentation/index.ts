@@ -1,25 +1,51 @@
+import type { Anthropic } from "@anthropic-ai/sdk";
+import type { GoogleGenAI } from "@google/genai";
 import type { OpenAI } from "openai";
+import { JudgevalCallbackHandler } from "./langchain";
+import { wrapAnthropic } from "./llm/anthropic";
+import { wrapGoogleGenAI } from "./llm/google";
 import { wrapOpenAI } from "./llm/openai";
 
-export { wrapOpenAI };
+export { JudgevalCallbackHandler, wrapAnthropic, wrapGoogleGenAI, wrapOpenAI };
+
+/** LLM client types accepted by {@link wrap}. */
+export type WrappableClient = OpenAI | Anthropic | GoogleGenAI;
+
+// Detection is structural so the SDKs stay type-only imports: an
+// Anthropic client exposes `messages` at the top level, OpenAI `chat`,
+// and Google Gen AI `chats` alongside `models.generateContent`.
+function isAnthropicClient(client: WrappableClient): client is Anthropic {
+  return "messages" in client && !("chat" in client);
+}
+
+function isGoogleGenAIClient(client: WrappableClient): client is GoogleGenAI {
+  return "chats" in client && "models" in client;
+}
 
 /**
  * Wrap a supported LLM client to add automatic tracing.
  *
- * Currently supports OpenAI clients. Detects the client type
- * automatically and applies the appropriate instrumentation.
+ * Currently supports OpenAI, Anthropic, and Google Gen AI clients.
+ * Detects the client type automatically and applies the appropriate
+ * instrumentation.
  *
- * @param client - An OpenAI client instance.
+ * @param client - An OpenAI, Anthropic, or Google Gen AI client instance.
  * @returns The same client instance, instrumented in-place.
  *
  * @example
  * ```typescript
  * import OpenAI from "openai";
+ * import Anthropic from "@anthropic-ai/sdk";
+ * import { GoogleGenAI } from "@google/genai";
  * import { wrap } from "judgeval";
  *
- * const client = wrap(new OpenAI());
+ * const openai = wrap(new OpenAI());
+ * const anthropic = wrap(new Anthropic());
+ * const gemini = wrap(new GoogleGenAI({ apiKey }));
  * ```
  */
-export function wrap<T extends OpenAI>(client: T): T {
-  return wrapOpenAI(client);
+export function wrap<T extends WrappableClient>(client: T): T {
+  if (isAnthropicClient(client)) return wrapAnthropic(client);
+  if (isGoogleGenAIClient(client)) return wrapGoogleGenAI(client);
+  return wrapOpenAI(client as T & OpenAI);
 }
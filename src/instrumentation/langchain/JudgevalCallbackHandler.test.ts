@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { SpanStatusCode } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { RunnableLambda } from "@langchain/core/runnables";
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import { BaseTracer } from "../../trace/BaseTracer";
+import { NoOpSpanExporter } from "../../trace/exporters/NoOpSpanExporter";
+import type { JudgmentSpanExporter } from "../../trace/exporters/JudgmentSpanExporter";
+import { JudgmentTracerProvider } from "../../trace/JudgmentTracerProvider";
+import { NoOpSpanProcessor } from "../../trace/processors/NoOpSpanProcessor";
+import type { JudgmentSpanProcessor } from "../../trace/processors/JudgmentSpanProcessor";
+import { JudgevalCallbackHandler } from "./JudgevalCallbackHandler";
+
+class FakeTracer extends BaseTracer {
+  constructor(provider: BasicTracerProvider) {
+    super(
+      "test-project",
+      "test-project-id",
+      "test-key",
+      "test-org",
+      "https://example.com",
+      null,
+      (v) => JSON.stringify(v),
+      provider,
+      null,
+      false,
+    );
+  }
+
+  getSpanProcessor(): JudgmentSpanProcessor {
+    return new NoOpSpanProcessor() as unknown as JudgmentSpanProcessor;
+  }
+
+  getSpanExporter(): JudgmentSpanExporter {
+    return new NoOpSpanExporter();
+  }
+}
+
+function byName(spans: ReadableSpan[], name: string): ReadableSpan {
+  const span = spans.find((s) => s.name === name);
+  if (!span) throw new Error(`missing span ${name}`);
+  return span;
+}
+
+describe("JudgevalCallbackHandler", () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: FakeTracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new FakeTracer(
+      new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+      }),
+    );
+    const proxy = JudgmentTracerProvider.getInstance();
+    proxy.register(tracer);
+    proxy.setActive(tracer);
+  });
+
+  afterEach(() => {
+    JudgmentTracerProvider.getInstance().deregister(tracer);
+  });
+
+  test("nests chain and model runs under an observed span", async () => {
+    const handler = new JudgevalCallbackHandler();
+    const model = new FakeListChatModel({ responses: ["Paris"] });
+    const chain = RunnableLambda.from((question: string) => [
+      new HumanMessage(question),
+    ])
+      .pipe(model)
+      .withConfig({ runName: "qa" });
+
+    const answer = BaseTracer.observe(async function answer(q: string) {
+      const message = await chain.invoke(q, { callbacks: [handler] });
+      return message.content;
+    });
+
+    expect(await answer("Capital of France?")).toBe("Paris");
+
+    const spans = exporter.getFinishedSpans();
+    const root = byName(spans, "answer");
+    const qa = byName(spans, "qa");
+    const llm = byName(spans, "FakeListChatModel");
+
+    expect(qa.parentSpanContext?.spanId).toBe(root.spanContext().spanId);
+    expect(llm.parentSpanContext?.spanId).toBe(qa.spanContext().spanId);
+    expect(qa.attributes[AttributeKeys.JUDGMENT_SPAN_KIND]).toBe("chain");
+    expect(llm.attributes[AttributeKeys.JUDGMENT_SPAN_KIND]).toBe("llm");
+    expect(llm.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe("Paris");
+    expect(new Set(spans.map((s) => s.spanContext().traceId)).size).toBe(1);
+  });
+
+  test("records model and token usage", () => {
+    const handler = new JudgevalCallbackHandler();
+    handler.handleChatModelStart(
+      { lc: 1, type: "not_implemented", id: ["ChatAnthropic"] },
+      [[new HumanMessage("hi")]],
+      "run-1",
+      undefined,
+      { invocation_params: { model: "claude-sonnet" } },
+      undefined,
+      { ls_provider: "anthropic" },
+    );
+    handler.handleLLMEnd(
+      {
+        generations: [
+          [
+            {
+              text: "hello",
+              message: new AIMessage({
+                content: "hello",
+                usage_metadata: {
+                  input_tokens: 10,
+                  output_tokens: 4,
+                  total_tokens: 14,
+                  input_token_details: { cache_read: 3, cache_creation: 2 },
+                },
+              }),
+            } as never,
+          ],
+        ],
+      },
+      "run-1",
+    );
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("ChatAnthropic");
+    expect(span.attributes[AttributeKeys.JUDGMENT_LLM_MODEL_NAME]).toBe(
+      "claude-sonnet",
+    );
+    expect(span.attributes[AttributeKeys.JUDGMENT_LLM_PROVIDER]).toBe(
+      "anthropic",
+    );
+    expect(
+      span.attributes[AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS],
+    ).toBe(5);
+    expect(span.attributes[AttributeKeys.JUDGMENT_USAGE_OUTPUT_TOKENS]).toBe(4);
+    expect(
+      span.attributes[AttributeKeys.JUDGMENT_USAGE_CACHE_READ_INPUT_TOKENS],
+    ).toBe(3);
+    expect(
+      span.attributes[AttributeKeys.JUDGMENT_USAGE_CACHE_CREATION_INPUT_TOKENS],
+    ).toBe(2);
+  });
+
+  test("records tool errors", () => {
+    const handler = new JudgevalCallbackHandler();
+    handler.handleToolStart(
+      { lc: 1, type: "not_implemented", id: ["DynamicTool"] },
+      "input",
+      "run-1",
+      undefined,
+      undefined,
+      undefined,
+      "search",
+    );
+    handler.handleToolError(new Error("boom"), "run-1");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("search");
+    expect(span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND]).toBe("tool");
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+  });
+});
@@ -0,0 +1,370 @@
+import type { Span } from "@opentelemetry/api";
+import type {
+  BaseCallbackHandlerInput,
+  CallbackHandlerMethods,
+} from "@langchain/core/callbacks/base";
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { BaseMessage, UsageMetadata } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import type { ChainValues } from "@langchain/core/utils/types";
+import { JudgmentTracerProvider } from "../../trace/JudgmentTracerProvider";
+import { computeCost } from "../../pricing";
+import { BaseTracer, type LLMMetadata } from "../../trace/BaseTracer";
+import { dontThrow } from "../../utils/dont-throw";
+
+type RunKind = "chain" | "llm" | "tool" | "retriever";
+
+function runName(
+  serialized: Serialized | undefined,
+  name: string | undefined,
+  fallback: string,
+): string {
+  const id = serialized?.id;
+  return name ?? serialized?.name ?? id?.[id.length - 1] ?? fallback;
+}
+
+function readString(
+  record: Record<string, unknown> | undefined,
+  ...keys: string[]
+): string | undefined {
+  for (const key of keys) {
+    const value = record?.[key];
+    if (typeof value === "string" && value.length > 0) return value;
+  }
+  return undefined;
+}
+
+function generationText(output: LLMResult): string {
+  return output.generations
+    .map((generations) => generations.map((g) => g.text).join(""))
+    .join("\n");
+}
+
+function chatMessage(output: LLMResult): ChatGeneration["message"] | undefined {
+  const generation = output.generations[0]?.[0] as ChatGeneration | undefined;
+  return generation?.message;
+}
+
+function usageMetadata(output: LLMResult): LLMMetadata | undefined {
+  const message = chatMessage(output) as
+    | { usage_metadata?: UsageMetadata }
+    | undefined;
+  const usage = message?.usage_metadata;
+  if (usage) {
+    // `input_tokens` is the sum of every input token type, including
+    // cache reads and writes.
+    const cacheRead = usage.input_token_details?.cache_read ?? 0;
+    const cacheCreation = usage.input_token_details?.cache_creation ?? 0;
+    return {
+      non_cached_input_tokens: Math.max(
+        usage.input_tokens - cacheRead - cacheCreation,
+        0,
+      ),
+      output_tokens: usage.output_tokens,
+      cache_read_input_tokens: cacheRead || undefined,
+      cache_creation_input_tokens: cacheCreation || undefined,
+    };
+  }
+
+  // Completion-style integrations only report usage in `llmOutput`.
+  const tokenUsage = output.llmOutput?.tokenUsage as
+    | { promptTokens?: number; completionTokens?: number }
+    | undefined;
+  if (!tokenUsage) return undefined;
+  return {
+    non_cached_input_tokens: tokenUsage.promptTokens,
+    output_tokens: tokenUsage.completionTokens,
+  };
+}
+
+/**
+ * LangChain.js callback handler that records runs as Judgment spans.
+ *
+ * Chains, LLM and chat model calls, tools, and retrievers each open a
+ * span when they start and close it when they end or fail. Child runs
+ * are parented to the span of their parent run; top-level runs nest
+ * under the current Judgment span, so invoking a chain inside
+ * `Tracer.observe` places the whole run tree under the observed span.
+ * LLM spans record the model, provider, and token usage reported by the
+ * model integration.
+ *
+ * The handler only relies on LangChain's callback interface, so
+ * `@langchain/core` is not required at runtime. Callbacks are awaited so
+ * they run in the caller's async context.
+ *
+ * @example
+ * ```typescript
+ * import { ChatOpenAI } from "@langchain/openai";
+ * import { JudgevalCallbackHandler, Tracer } from "judgeval";
+ *
+ * const handler = new JudgevalCallbackHandler();
+ * const model = new ChatOpenAI({ model: "gpt-4o-mini" });
+ *
+ * const answer = Tracer.observe(async (question: string) => {
+ *   return model.invoke(question, { callbacks: [handler] });
+ * });
+ * ```
+ */
+export class JudgevalCallbackHandler implements CallbackHandlerMethods {
+  name = "judgeval_callback_handler";
+  ignoreLLM: boolean;
+  ignoreChain: boolean;
+  ignoreAgent: boolean;
+  ignoreRetriever: boolean;
+  ignoreCustomEvent: boolean;
+  raiseError: boolean;
+  awaitHandlers = true;
+
+  private _runs = new Map<string, Span>();
+  private _models = new Map<string, string>();
+
+  constructor(input: BaseCallbackHandlerInput = {}) {
+    this.ignoreLLM = input.ignoreLLM ?? false;
+    this.ignoreChain = input.ignoreChain ?? false;
+    this.ignoreAgent = input.ignoreAgent ?? false;
+    this.ignoreRetriever = input.ignoreRetriever ?? false;
+    this.ignoreCustomEvent = input.ignoreCustomEvent ?? false;
+    this.raiseError = input.raiseError ?? false;
+  }
+
+  /**
+   * Return this handler. Run state is shared so child callback managers
+   * can close spans opened by their parents.
+   */
+  copy(): this {
+    return this;
+  }
+
+  // ------------------------------------------------------------------ //
+  //  Chains                                                            //
+  // ------------------------------------------------------------------ //
+
+  // The callback manager passes `parentRunId` fourth, as LangChain's own
+  // tracers expect, regardless of the order in the published interface.
+  handleChainStart(
+    chain: Serialized,
+    inputs: ChainValues,
+    runId: string,
+    parentRunId?: string,
+    _tags?: string[],
+    _metadata?: Record<string, unknown>,
+    _runType?: string,
+    name?: string,
+  ): void {
+    this._startRun(
+      runId,
+      parentRunId,
+      runName(chain, name, "chain"),
+      "chain",
+      inputs,
+    );
+  }
+
+  handleChainEnd(outputs: ChainValues, runId: string): void {
+    this._endRun(runId, outputs);
+  }
+
+  handleChainError(err: unknown, runId: string): void {
+    this._failRun(runId, err);
+  }
+
+  // ------------------------------------------------------------------ //
+  //  LLMs and chat models                                              //
+  // ------------------------------------------------------------------ //
+
+  handleLLMStart(
+    llm: Serialized,
+    prompts: string[],
+    runId: string,
+    parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+    name?: string,
+  ): void {
+    const span = this._startRun(
+      runId,
+      parentRunId,
+      runName(llm, name, "llm"),
+      "llm",
+      prompts,
+    );
+    if (span) this._recordModel(runId, span, extraParams, metadata);
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+    name?: string,
+  ): void {
+    const span = this._startRun(
+      runId,
+      parentRunId,
+      runName(llm, name, "llm"),
+      "llm",
+      messages,
+    );
+    if (span) this._recordModel(runId, span, extraParams, metadata);
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string): void {
+    const span = this._runs.get(runId);
+    if (span) {
+      dontThrow("JudgevalCallbackHandler.handleLLMEnd", () => {
+        this._recordResult(runId, span, output);
+      });
+    }
+    this._endRun(runId, generationText(output));
+  }
+
+  handleLLMError(err: unknown, runId: string): void {
+    this._failRun(runId, err);
+  }
+
+  // ------------------------------------------------------------------ //
+  //  Tools and retrievers                                              //
+  // ------------------------------------------------------------------ //
+
+  handleToolStart(
+    tool: Serialized,
+    input: string,
+    runId: string,
+    parentRunId?: string,
+    _tags?: string[],
+    _metadata?: Record<string, unknown>,
+    name?: string,
+  ): void {
+    this._startRun(
+      runId,
+      parentRunId,
+      runName(tool, name, "tool"),
+      "tool",
+      input,
+    );
+  }
+
+  handleToolEnd(output: unknown, runId: string): void {
+    this._endRun(runId, output);
+  }
+
+  handleToolError(err: unknown, runId: string): void {
+    this._failRun(runId, err);
+  }
+
+  handleRetrieverStart(
+    retriever: Serialized,
+    query: string,
+    runId: string,
+    parentRunId?: string,
+    _tags?: string[],
+    _metadata?: Record<string, unknown>,
+    name?: string,
+  ): void {
+    this._startRun(
+      runId,
+      parentRunId,
+      runName(retriever, name, "retriever"),
+      "retriever",
+      query,
+    );
+  }
+
+  handleRetrieverEnd(documents: DocumentInterface[], runId: string): void {
+    this._endRun(runId, documents);
+  }
+
+  handleRetrieverError(err: unknown, runId: string): void {
+    this._failRun(runId, err);
+  }
+
+  // ------------------------------------------------------------------ //
+  //  Internal                                                          //
+  // ------------------------------------------------------------------ //
+
+  private _startRun(
+    runId: string,
+    parentRunId: string | undefined,
+    name: string,
+    kind: RunKind,
+    input: unknown,
+  ): Span | undefined {
+    return dontThrow("JudgevalCallbackHandler._startRun", () => {
+      const provider = JudgmentTracerProvider.getInstance();
+      const parent = parentRunId ? this._runs.get(parentRunId) : undefined;
+      const context = parent
+        ? provider.setSpan(provider.getCurrentContext(), parent)
+        : undefined;
+
+      const span = BaseTracer.startSpan(name, undefined, context);
+      BaseTracer.setSpanKind(kind, span);
+      BaseTracer.setInput(input, span);
+      this._runs.set(runId, span);
+      return span;
+    });
+  }
+
+  private _endRun(runId: string, output: unknown): void {
+    const span = this._runs.get(runId);
+    if (!span) return;
+    this._runs.delete(runId);
+    this._models.delete(runId);
+    dontThrow("JudgevalCallbackHandler._endRun", () => {
+      BaseTracer.setOutput(output, span);
+    });
+    span.end();
+  }
+
+  private _failRun(runId: string, err: unknown): void {
+    const span = this._runs.get(runId);
+    if (!span) return;
+    this._runs.delete(runId);
+    this._models.delete(runId);
+    BaseTracer.setError(err, span);
+    span.end();
+  }
+
+  private _recordModel(
+    runId: string,
+    span: Span,
+    extraParams: Record<string, unknown> | undefined,
+    metadata: Record<string, unknown> | undefined,
+  ): void {
+    const invocationParams = extraParams?.invocation_params as
+      | Record<string, unknown>
+      | undefined;
+    const model =
+      readString(metadata, "ls_model_name") ??
+      readString(invocationParams, "model", "model_name", "modelName");
+    if (model) this._models.set(runId, model);
+    BaseTracer.recordLLMMetadata(
+      { model, provider: readString(metadata, "ls_provider") },
+      span,
+    );
+  }
+
+  private _recordResult(runId: string, span: Span, output: LLMResult): void {
+    const message = chatMessage(output);
+    const responseModel = readString(
+      message?.response_metadata,
+      "model_name",
+      "model",
+    );
+    if (responseModel) {
+      BaseTracer.recordLLMMetadata({ model: responseModel }, span);
+    }
+
+    const usage = usageMetadata(output);
+    if (!usage) return;
+    usage.total_cost_usd = computeCost(
+      responseModel ?? this._models.get(runId),
+      usage,
+    );
+    BaseTracer.recordLLMMetadata(usage, span);
+  }
+}
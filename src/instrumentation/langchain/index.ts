@@ -0,0 +1 @@
+export { JudgevalCallbackHandler } from "./JudgevalCallbackHandler";
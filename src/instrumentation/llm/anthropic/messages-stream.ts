@@ -0,0 +1,76 @@
+import type { Anthropic } from "@anthropic-ai/sdk";
+import type { Message } from "@anthropic-ai/sdk/resources/messages";
+import { BaseTracer } from "../../../trace/BaseTracer";
+import { immutableWrapSync } from "../../../utils/wrappers";
+import { recordMessagesUsage } from "./utils";
+
+function textContent(message: Message): string {
+  let text = "";
+  for (const block of message.content) {
+    if (block.type === "text") text += block.text;
+  }
+  return text;
+}
+
+/**
+ * Wrap `client.messages.stream` to produce Judgment spans.
+ *
+ * Must run before `wrapMessagesCreate`: the SDK drives the stream
+ * through `this.create`, so the original is bound to a view that keeps
+ * the unwrapped `create` and each stream yields a single span.
+ */
+export function wrapMessagesStream(client: Anthropic): void {
+  const messages = client.messages;
+  const unwrapped = Object.create(messages, {
+    create: { value: messages.create },
+  }) as typeof messages;
+
+  client.messages.stream = immutableWrapSync(messages.stream.bind(unwrapped), {
+    pre: (body) => {
+      const span = BaseTracer.startSpan("ANTHROPIC_API_CALL");
+      BaseTracer.setSpanKind("llm", span);
+      BaseTracer.recordLLMMetadata({ model: body.model }, span);
+      BaseTracer.setInput(body, span);
+      return { span, proxied: false };
+    },
+
+    post: (ctx, stream) => {
+      if (!ctx) return;
+      const { span } = ctx;
+
+      stream.on("finalMessage", (message) => {
+        BaseTracer.setOutput(textContent(message), span);
+        recordMessagesUsage(span, message.usage, message.model);
+        BaseTracer.recordLLMMetadata({ model: message.model }, span);
+      });
+      // Listening for "error" would suppress the SDK's unhandled
+      // rejection for callers that never attach a handler, so the
+      // failure is read back from `done()` once the stream has ended.
+      stream.on("end", () => {
+        if (!stream.errored && !stream.aborted) {
+          span.end();
+          return;
+        }
+        stream
+          .done()
+          .catch((err: unknown) => {
+            BaseTracer.setError(err, span);
+          })
+          .finally(() => {
+            span.end();
+          });
+      });
+
+      return { span, proxied: true };
+    },
+
+    error: (ctx, err) => {
+      if (ctx) BaseTracer.setError(err, ctx.span);
+      return ctx;
+    },
+
+    finally: (ctx) => {
+      if (ctx && !ctx.proxied) ctx.span.end();
+    },
+  });
+}
@@ -0,0 +1,94 @@
+import type { Anthropic } from "@anthropic-ai/sdk";
+import type {
+  Message,
+  RawMessageStreamEvent,
+  Usage,
+} from "@anthropic-ai/sdk/resources/messages";
+import type { Stream } from "@anthropic-ai/sdk/streaming";
+import { BaseTracer } from "../../../trace/BaseTracer";
+import { safeStringify } from "../../../utils/serializer";
+import {
+  immutableWrapAsync,
+  proxyAsyncIterable,
+} from "../../../utils/wrappers";
+import { mergeDeltaUsage, recordMessagesUsage } from "./utils";
+
+/**
+ * Wrap `client.messages.create` to produce Judgment spans.
+ * Handles both streaming and non-streaming calls.
+ */
+export function wrapMessagesCreate(client: Anthropic): void {
+  client.messages.create = immutableWrapAsync(
+    client.messages.create.bind(client.messages),
+    {
+      pre: (body) => {
+        const span = BaseTracer.startSpan("ANTHROPIC_API_CALL");
+        BaseTracer.setSpanKind("llm", span);
+        BaseTracer.recordLLMMetadata({ model: body.model }, span);
+        BaseTracer.setInput(body, span);
+        return { span, proxied: false };
+      },
+
+      post: (ctx, result, args) => {
+        if (!ctx) return;
+        const { span } = ctx;
+
+        if (args[0].stream) {
+          const stream = result as Stream<RawMessageStreamEvent>;
+          let accumulatedContent = "";
+          let usage: Usage | undefined;
+          let model: string | undefined;
+
+          proxyAsyncIterable(stream, {
+            onYield(event) {
+              if (event.type === "message_start") {
+                usage = event.message.usage;
+                model = event.message.model;
+                BaseTracer.recordLLMMetadata({ model }, span);
+              }
+              if (
+                event.type === "content_block_delta" &&
+                event.delta.type === "text_delta"
+              ) {
+                accumulatedContent += event.delta.text;
+              }
+              if (event.type === "message_delta") {
+                usage = mergeDeltaUsage(usage, event.usage);
+              }
+            },
+            onDone() {
+              BaseTracer.setOutput(accumulatedContent, span);
+              if (usage) recordMessagesUsage(span, usage, model);
+            },
+            onError(err) {
+              BaseTracer.setError(err, span);
+            },
+            onFinally() {
+              span.end();
+            },
+          });
+
+          return { span, proxied: true };
+        }
+
+        // Non-streaming
+        const message = result as Message;
+        BaseTracer.setOutput(safeStringify(message), span);
+        if (message.usage) {
+          recordMessagesUsage(span, message.usage, message.model);
+        }
+        BaseTracer.recordLLMMetadata({ model: message.model }, span);
+        return ctx;
+      },
+
+      error: (ctx, err) => {
+        if (ctx) BaseTracer.setError(err, ctx.span);
+        return ctx;
+      },
+
+      finally: (ctx) => {
+        if (ctx && !ctx.proxied) ctx.span.end();
+      },
+    },
+  );
+}
@@ -0,0 +1,55 @@
+import type { Span } from "@opentelemetry/api";
+import type {
+  MessageDeltaUsage,
+  Usage,
+} from "@anthropic-ai/sdk/resources/messages";
+import { AttributeKeys } from "../../../JudgmentAttributeKeys";
+import { computeCost } from "../../../pricing";
+import { BaseTracer, type LLMMetadata } from "../../../trace/BaseTracer";
+import { dontThrow } from "../../../utils/dont-throw";
+import { safeStringify } from "../../../utils/serializer";
+
+export function recordMessagesUsage(
+  span: Span,
+  usage: Usage,
+  model?: string,
+): void {
+  dontThrow("recordMessagesUsage", () => {
+    // Anthropic reports `input_tokens` exclusive of cache reads and writes.
+    const metadata: LLMMetadata = {
+      non_cached_input_tokens: usage.input_tokens,
+      output_tokens: usage.output_tokens || undefined,
+      cache_read_input_tokens: usage.cache_read_input_tokens || undefined,
+      cache_creation_input_tokens:
+        usage.cache_creation_input_tokens || undefined,
+    };
+    metadata.total_cost_usd = computeCost(model, metadata);
+    BaseTracer.recordLLMMetadata(metadata, span);
+    BaseTracer.setAttribute(
+      AttributeKeys.JUDGMENT_USAGE_METADATA,
+      safeStringify(usage),
+      span,
+    );
+  });
+}
+
+/**
+ * Fold a `message_delta` usage block into the usage reported by
+ * `message_start`. Delta counts are cumulative, so non-null values
+ * replace the running totals.
+ */
+export function mergeDeltaUsage(
+  usage: Usage | undefined,
+  delta: MessageDeltaUsage,
+): Usage | undefined {
+  if (!usage) return undefined;
+  return {
+    ...usage,
+    input_tokens: delta.input_tokens ?? usage.input_tokens,
+    output_tokens: delta.output_tokens,
+    cache_creation_input_tokens:
+      delta.cache_creation_input_tokens ?? usage.cache_creation_input_tokens,
+    cache_read_input_tokens:
+      delta.cache_read_input_tokens ?? usage.cache_read_input_tokens,
+  };
+}
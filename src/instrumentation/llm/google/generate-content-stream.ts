@@ -0,0 +1,70 @@
+import type {
+  GenerateContentResponseUsageMetadata,
+  GoogleGenAI,
+} from "@google/genai";
+import { BaseTracer } from "../../../trace/BaseTracer";
+import {
+  immutableWrapAsync,
+  proxyAsyncIterable,
+} from "../../../utils/wrappers";
+import { recordGenerateContentUsage, responseText } from "./utils";
+
+/**
+ * Wrap `client.models.generateContentStream` to produce Judgment spans.
+ * The span stays open until the returned generator is drained.
+ */
+export function wrapGenerateContentStream(client: GoogleGenAI): void {
+  client.models.generateContentStream = immutableWrapAsync(
+    client.models.generateContentStream.bind(client.models),
+    {
+      pre: (params) => {
+        const span = BaseTracer.startSpan("GOOGLE_GENAI_API_CALL");
+        BaseTracer.setSpanKind("llm", span);
+        BaseTracer.recordLLMMetadata({ model: params.model }, span);
+        BaseTracer.setInput(params, span);
+        return { span, proxied: false };
+      },
+
+      post: (ctx, stream, args) => {
+        if (!ctx) return;
+        const { span } = ctx;
+        let accumulatedContent = "";
+        let usage: GenerateContentResponseUsageMetadata | undefined;
+        let model = args[0].model;
+
+        proxyAsyncIterable(stream, {
+          onYield(chunk) {
+            accumulatedContent += responseText(chunk);
+            // Usage is cumulative; the last chunk carries the totals.
+            if (chunk.usageMetadata) usage = chunk.usageMetadata;
+            if (chunk.modelVersion) {
+              model = chunk.modelVersion;
+              BaseTracer.recordLLMMetadata({ model }, span);
+            }
+          },
+          onDone() {
+            BaseTracer.setOutput(accumulatedContent, span);
+            if (usage) recordGenerateContentUsage(span, usage, model);
+          },
+          onError(err) {
+            BaseTracer.setError(err, span);
+          },
+          onFinally() {
+            span.end();
+          },
+        });
+
+        return { span, proxied: true };
+      },
+
+      error: (ctx, err) => {
+        if (ctx) BaseTracer.setError(err, ctx.span);
+        return ctx;
+      },
+
+      finally: (ctx) => {
+        if (ctx && !ctx.proxied) ctx.span.end();
+      },
+    },
+  );
+}
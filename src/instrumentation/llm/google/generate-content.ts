@@ -0,0 +1,49 @@
+import type { GoogleGenAI } from "@google/genai";
+import { BaseTracer } from "../../../trace/BaseTracer";
+import { safeStringify } from "../../../utils/serializer";
+import { immutableWrapAsync } from "../../../utils/wrappers";
+import { recordGenerateContentUsage } from "./utils";
+
+/**
+ * Wrap `client.models.generateContent` to produce Judgment spans.
+ * Non-streaming only — see `wrapGenerateContentStream`.
+ */
+export function wrapGenerateContent(client: GoogleGenAI): void {
+  client.models.generateContent = immutableWrapAsync(
+    client.models.generateContent.bind(client.models),
+    {
+      pre: (params) => {
+        const span = BaseTracer.startSpan("GOOGLE_GENAI_API_CALL");
+        BaseTracer.setSpanKind("llm", span);
+        BaseTracer.recordLLMMetadata({ model: params.model }, span);
+        BaseTracer.setInput(params, span);
+        return span;
+      },
+
+      post: (span, result, args) => {
+        if (!span) return;
+        BaseTracer.setOutput(safeStringify(result), span);
+        if (result.usageMetadata) {
+          recordGenerateContentUsage(
+            span,
+            result.usageMetadata,
+            result.modelVersion ?? args[0].model,
+          );
+        }
+        if (result.modelVersion) {
+          BaseTracer.recordLLMMetadata({ model: result.modelVersion }, span);
+        }
+        return span;
+      },
+
+      error: (span, err) => {
+        if (span) BaseTracer.setError(err, span);
+        return span;
+      },
+
+      finally: (span) => {
+        span?.end();
+      },
+    },
+  );
+}
@@ -0,0 +1,25 @@
+import type { GoogleGenAI } from "@google/genai";
+import { dontThrow } from "../../../utils/dont-throw";
+import { wrapGenerateContent } from "./generate-content";
+import { wrapGenerateContentStream } from "./generate-content-stream";
+
+/**
+ * Instrument a Google Gen AI (`@google/genai`) client instance to emit
+ * Judgment spans.
+ *
+ * Patches the following methods in-place:
+ *  - `client.models.generateContent`
+ *  - `client.models.generateContentStream`
+ *
+ * Chat sessions created from `client.chats` delegate to these methods
+ * and are traced as well.
+ *
+ * @returns The same client instance (mutated).
+ */
+export function wrapGoogleGenAI<T extends GoogleGenAI>(client: T): T {
+  dontThrow("wrapGoogleGenAI", () => {
+    wrapGenerateContent(client);
+    wrapGenerateContentStream(client);
+  });
+  return client;
+}
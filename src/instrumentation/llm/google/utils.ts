@@ -0,0 +1,49 @@
+import type { Span } from "@opentelemetry/api";
+import type {
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+} from "@google/genai";
+import { AttributeKeys } from "../../../JudgmentAttributeKeys";
+import { computeCost } from "../../../pricing";
+import { BaseTracer, type LLMMetadata } from "../../../trace/BaseTracer";
+import { dontThrow } from "../../../utils/dont-throw";
+import { safeStringify } from "../../../utils/serializer";
+
+export function recordGenerateContentUsage(
+  span: Span,
+  usage: GenerateContentResponseUsageMetadata,
+  model?: string,
+): void {
+  dontThrow("recordGenerateContentUsage", () => {
+    // `promptTokenCount` includes cached content; thinking tokens are
+    // billed as output but reported separately from candidates.
+    const prompt = usage.promptTokenCount ?? 0;
+    const cacheRead = usage.cachedContentTokenCount ?? 0;
+    const output =
+      (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+    const metadata: LLMMetadata = {
+      non_cached_input_tokens: Math.max(prompt - cacheRead, 0),
+      output_tokens: output || undefined,
+      cache_read_input_tokens: cacheRead || undefined,
+    };
+    metadata.total_cost_usd = computeCost(model, metadata);
+    BaseTracer.recordLLMMetadata(metadata, span);
+    BaseTracer.setAttribute(
+      AttributeKeys.JUDGMENT_USAGE_METADATA,
+      safeStringify(usage),
+      span,
+    );
+  });
+}
+
+/**
+ * Concatenate the non-thought text parts of the first candidate. Avoids
+ * the SDK's `text` getter, which warns when non-text parts are present.
+ */
+export function responseText(response: GenerateContentResponse): string {
+  let text = "";
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (typeof part.text === "string" && !part.thought) text += part.text;
+  }
+  return text;
+}
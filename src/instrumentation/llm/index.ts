@@ -1 +1,3 @@
+export { wrapAnthropic } from "./anthropic";
+export { wrapGoogleGenAI } from "./google";
 export { wrapOpenAI } from "./openai";
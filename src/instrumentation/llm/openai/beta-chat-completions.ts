@@ -23,7 +23,7 @@ export function wrapChatCompletionsParse(client: OpenAI): void {
       post: (span, result) => {
         if (!span) return;
         BaseTracer.setOutput(safeStringify(result), span);
-        if (result.usage) recordChatUsage(span, result.usage);
+        if (result.usage) recordChatUsage(span, result.usage, result.model);
         BaseTracer.recordLLMMetadata({ model: result.model }, span);
         return span;
       },
@@ -42,7 +42,7 @@ export function wrapChatCompletionsCreate(client: OpenAI): void {
               if (typeof chunk.choices[0]?.delta.content === "string") {
                 accumulatedContent += chunk.choices[0].delta.content;
               }
-              if (chunk.usage) recordChatUsage(span, chunk.usage);
+              if (chunk.usage) recordChatUsage(span, chunk.usage, chunk.model);
             },
             onDone() {
               BaseTracer.setOutput(accumulatedContent, span);
@@ -61,7 +61,9 @@ export function wrapChatCompletionsCreate(client: OpenAI): void {
         // Non-streaming
         const completion = result as ChatCompletion;
         BaseTracer.setOutput(safeStringify(completion), span);
-        if (completion.usage) recordChatUsage(span, completion.usage);
+        if (completion.usage) {
+          recordChatUsage(span, completion.usage, completion.model);
+        }
         BaseTracer.recordLLMMetadata({ model: completion.model }, span);
         return ctx;
       },
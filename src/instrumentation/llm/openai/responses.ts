@@ -7,7 +7,8 @@ import type {
 } from "openai/resources/responses/responses";
 import type { Stream } from "openai/streaming";
 import { AttributeKeys } from "../../../JudgmentAttributeKeys";
-import { BaseTracer } from "../../../trace/BaseTracer";
+import { computeCost } from "../../../pricing";
+import { BaseTracer, type LLMMetadata } from "../../../trace/BaseTracer";
 import { dontThrow } from "../../../utils/dont-throw";
 import { safeStringify } from "../../../utils/serializer";
 import {
@@ -15,21 +16,20 @@ import {
   proxyAsyncIterable,
 } from "../../../utils/wrappers";
 
-function recordUsage(span: Span, usage: ResponseUsage): void {
+function recordUsage(span: Span, usage: ResponseUsage, model?: string): void {
   dontThrow("responses.recordUsage", () => {
     const cacheRead = usage.input_tokens_details.cached_tokens;
     const sum = usage.input_tokens + usage.output_tokens + cacheRead;
-    BaseTracer.recordLLMMetadata(
-      {
-        non_cached_input_tokens:
-          sum > usage.total_tokens
-            ? usage.input_tokens - cacheRead
-            : usage.input_tokens,
-        output_tokens: usage.output_tokens || undefined,
-        cache_read_input_tokens: cacheRead || undefined,
-      },
-      span,
-    );
+    const metadata: LLMMetadata = {
+      non_cached_input_tokens:
+        sum > usage.total_tokens
+          ? usage.input_tokens - cacheRead
+          : usage.input_tokens,
+      output_tokens: usage.output_tokens || undefined,
+      cache_read_input_tokens: cacheRead || undefined,
+    };
+    metadata.total_cost_usd = computeCost(model, metadata);
+    BaseTracer.recordLLMMetadata(metadata, span);
     BaseTracer.setAttribute(
       AttributeKeys.JUDGMENT_USAGE_METADATA,
       safeStringify(usage),
@@ -69,7 +69,7 @@ export function wrapResponsesCreate(client: OpenAI): void {
               }
               if (chunk.type === "response.completed") {
                 const resp = chunk.response;
-                if (resp.usage) recordUsage(span, resp.usage);
+                if (resp.usage) recordUsage(span, resp.usage, resp.model);
                 BaseTracer.recordLLMMetadata({ model: resp.model }, span);
               }
             },
@@ -90,7 +90,7 @@ export function wrapResponsesCreate(client: OpenAI): void {
         // Non-streaming
         const resp = result as Response;
         BaseTracer.setOutput(safeStringify(resp), span);
-        if (resp.usage) recordUsage(span, resp.usage);
+        if (resp.usage) recordUsage(span, resp.usage, resp.model);
         if (typeof resp.model === "string") {
           BaseTracer.recordLLMMetadata({ model: resp.model }, span);
         }
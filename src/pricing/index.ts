@@ -0,0 +1,9 @@
+export {
+  clearModelPricing,
+  computeCost,
+  getModelPricing,
+  registerModelPricing,
+  type ModelPricing,
+  type TokenUsage,
+} from "./registry";
+export { BUILTIN_MODEL_PRICING } from "./models";
@@ -0,0 +1,91 @@
+import type { ModelPricing } from "./registry";
+
+/**
+ * Built-in list prices in USD per million tokens, keyed by model name.
+ * Dated snapshots and version tags (e.g. `gpt-4o-2024-08-06`) resolve
+ * to the longest matching name; other variants such as `-pro` need rows
+ * of their own.
+ */
+export const BUILTIN_MODEL_PRICING: Readonly<Record<string, ModelPricing>> = {
+  // OpenAI
+  "gpt-5": { input: 1.25, cacheRead: 0.125, output: 10 },
+  "gpt-5-pro": { input: 15, output: 120 },
+  "gpt-5-mini": { input: 0.25, cacheRead: 0.025, output: 2 },
+  "gpt-5-nano": { input: 0.05, cacheRead: 0.005, output: 0.4 },
+  "gpt-4.5": { input: 75, cacheRead: 37.5, output: 150 },
+  "gpt-4.1": { input: 2, cacheRead: 0.5, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, cacheRead: 0.1, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, cacheRead: 0.025, output: 0.4 },
+  "gpt-4o": { input: 2.5, cacheRead: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, cacheRead: 0.075, output: 0.6 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  o1: { input: 15, cacheRead: 7.5, output: 60 },
+  "o1-pro": { input: 150, output: 600 },
+  "o1-mini": { input: 1.1, cacheRead: 0.55, output: 4.4 },
+  o3: { input: 2, cacheRead: 0.5, output: 8 },
+  "o3-pro": { input: 20, output: 80 },
+  "o3-mini": { input: 1.1, cacheRead: 0.55, output: 4.4 },
+  "o4-mini": { input: 1.1, cacheRead: 0.275, output: 4.4 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+
+  // Anthropic
+  "claude-opus-4-5": {
+    input: 5,
+    cacheRead: 0.5,
+    cacheCreation: 6.25,
+    output: 25,
+  },
+  "claude-opus-4": {
+    input: 15,
+    cacheRead: 1.5,
+    cacheCreation: 18.75,
+    output: 75,
+  },
+  "claude-sonnet-4": {
+    input: 3,
+    cacheRead: 0.3,
+    cacheCreation: 3.75,
+    output: 15,
+  },
+  "claude-3-7-sonnet": {
+    input: 3,
+    cacheRead: 0.3,
+    cacheCreation: 3.75,
+    output: 15,
+  },
+  "claude-3-5-sonnet": {
+    input: 3,
+    cacheRead: 0.3,
+    cacheCreation: 3.75,
+    output: 15,
+  },
+  "claude-haiku-4-5": {
+    input: 1,
+    cacheRead: 0.1,
+    cacheCreation: 1.25,
+    output: 5,
+  },
+  "claude-3-5-haiku": {
+    input: 0.8,
+    cacheRead: 0.08,
+    cacheCreation: 1,
+    output: 4,
+  },
+  "claude-3-haiku": {
+    input: 0.25,
+    cacheRead: 0.03,
+    cacheCreation: 0.3,
+    output: 1.25,
+  },
+
+  // Google
+  "gemini-2.5-pro": { input: 1.25, cacheRead: 0.31, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, cacheRead: 0.075, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, cacheRead: 0.025, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, cacheRead: 0.025, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+};
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  clearModelPricing,
+  computeCost,
+  getModelPricing,
+  registerModelPricing,
+} from "./registry";
+
+describe("pricing registry", () => {
+  afterEach(() => {
+    clearModelPricing();
+  });
+
+  test("resolves dated snapshots to the longest matching prefix", () => {
+    expect(getModelPricing("gpt-4o-mini-2024-07-18")).toEqual(
+      getModelPricing("gpt-4o-mini"),
+    );
+    expect(getModelPricing("gpt-4o-2024-08-06")?.input).toBe(2.5);
+    expect(getModelPricing("claude-opus-4-5-20251101")?.input).toBe(5);
+    expect(getModelPricing("claude-opus-4-1-20250805")?.input).toBe(15);
+  });
+
+  test("does not price unlisted variants as a cheaper sibling", () => {
+    expect(getModelPricing("o3-pro")).toMatchObject({ input: 20, output: 80 });
+    expect(getModelPricing("o3-pro-2025-06-10")?.input).toBe(20);
+    expect(getModelPricing("o1-pro")?.input).toBe(150);
+    expect(getModelPricing("gpt-4.5-preview")).toMatchObject({
+      input: 75,
+      output: 150,
+    });
+    expect(getModelPricing("gpt-5-pro")?.input).toBe(15);
+    expect(getModelPricing("gpt-4-0613")?.input).toBe(30);
+    expect(getModelPricing("gpt-4o-latest")?.input).toBe(2.5);
+    expect(getModelPricing("gpt-4o-realtime-preview")).toBeUndefined();
+    expect(getModelPricing("o3-deep-research")).toBeUndefined();
+  });
+
+  test("prices OpenAI fine-tunes as their base model unless registered", () => {
+    const fineTune = "ft:gpt-4o-mini-2024-07-18:acme::abc123";
+    expect(getModelPricing(fineTune)).toEqual(getModelPricing("gpt-4o-mini"));
+    expect(getModelPricing("ft:gpt-4o-2024-08-06:acme:triage:xyz")?.input).toBe(
+      2.5,
+    );
+
+    registerModelPricing("ft:gpt-4o-mini-2024-07-18:acme", {
+      input: 0.3,
+      output: 1.2,
+    });
+    expect(getModelPricing(fineTune)?.input).toBe(0.3);
+    expect(getModelPricing("gpt-4o-mini")?.input).toBe(0.15);
+  });
+
+  test("ignores routing prefixes and case", () => {
+    expect(getModelPricing("models/gemini-2.5-flash")).toEqual(
+      getModelPricing("gemini-2.5-flash"),
+    );
+    expect(getModelPricing("openai/GPT-4o")).toEqual(getModelPricing("gpt-4o"));
+  });
+
+  test("returns undefined for unknown models", () => {
+    expect(getModelPricing("my-local-llama")).toBeUndefined();
+    expect(
+      computeCost("my-local-llama", { output_tokens: 10 }),
+    ).toBeUndefined();
+    expect(computeCost(undefined, { output_tokens: 10 })).toBeUndefined();
+  });
+
+  test("computes cost from every token category", () => {
+    const cost = computeCost("claude-sonnet-4-20250514", {
+      non_cached_input_tokens: 1_000_000,
+      cache_read_input_tokens: 1_000_000,
+      cache_creation_input_tokens: 1_000_000,
+      output_tokens: 1_000_000,
+    });
+    expect(cost).toBeCloseTo(3 + 0.3 + 3.75 + 15);
+  });
+
+  test("falls back to the input price for cache tokens", () => {
+    registerModelPricing("self-hosted", { input: 1, output: 2 });
+    const cost = computeCost("self-hosted-v2", {
+      non_cached_input_tokens: 500_000,
+      cache_read_input_tokens: 500_000,
+      cache_creation_input_tokens: 1_000_000,
+      output_tokens: 1_000_000,
+    });
+    expect(cost).toBeCloseTo(1 + 1 + 2);
+  });
+
+  test("registered pricing wins ties with built-ins", () => {
+    registerModelPricing("gpt-4o", { input: 1, output: 1 });
+    expect(getModelPricing("gpt-4o-2024-08-06")).toEqual({
+      input: 1,
+      output: 1,
+    });
+    expect(getModelPricing("gpt-4o-mini")?.input).toBe(0.15);
+
+    clearModelPricing();
+    expect(getModelPricing("gpt-4o-2024-08-06")?.input).toBe(2.5);
+  });
+});
@@ -0,0 +1,152 @@
+import type { LLMMetadata } from "../trace/BaseTracer";
+import type { Maybe } from "../utils/type-helpers";
+import { BUILTIN_MODEL_PRICING } from "./models";
+
+/**
+ * Token prices for a model, in USD per million tokens.
+ */
+export interface ModelPricing {
+  /** Price of non-cached input tokens. */
+  input: number;
+  /** Price of output tokens. */
+  output: number;
+  /** Price of cache-read input tokens. Defaults to `input`. */
+  cacheRead?: number;
+  /** Price of cache-creation input tokens. Defaults to `input`. */
+  cacheCreation?: number;
+}
+
+/** Token counts used to compute the cost of an LLM call. */
+export type TokenUsage = Pick<
+  LLMMetadata,
+  | "non_cached_input_tokens"
+  | "output_tokens"
+  | "cache_read_input_tokens"
+  | "cache_creation_input_tokens"
+>;
+
+const _overrides = new Map<string, ModelPricing>();
+
+/**
+ * What may follow a matched name: date or version segments such as
+ * `-2024-08-06`, `-20250514`, `-0613`, `-1`, `-v2`, `@20250514`, and
+ * `-latest`/`-preview`/`-exp` tags. Anything else, like `-pro`, is a
+ * different model.
+ */
+const VERSION_SUFFIX = /^([-@](\d+|v\d+(\.\d+)*|latest|preview|exp))*$/;
+
+function normalize(model: string): string {
+  // Drop routing prefixes such as `models/` or `openai/`.
+  const slash = model.lastIndexOf("/");
+  return (slash === -1 ? model : model.slice(slash + 1)).toLowerCase();
+}
+
+/**
+ * The base model of an OpenAI fine-tune
+ * (`ft:gpt-4o-mini-2024-07-18:acme::abc123` -> `gpt-4o-mini-2024-07-18`),
+ * or `undefined` for other names.
+ */
+function fineTuneBase(model: string): string | undefined {
+  if (!model.startsWith("ft:")) return undefined;
+  return model.slice(3).split(":")[0] || undefined;
+}
+
+function matches(model: string, prefix: string): boolean {
+  if (!model.startsWith(prefix)) return false;
+  const rest = model.slice(prefix.length);
+  // A registered fine-tune prefix also matches its `:suffix` tail.
+  return (
+    VERSION_SUFFIX.test(rest) ||
+    (prefix.startsWith("ft:") && rest.startsWith(":"))
+  );
+}
+
+function longestPrefixMatch(
+  model: string,
+  entries: Iterable<[string, ModelPricing]>,
+  best?: [string, ModelPricing],
+): [string, ModelPricing] | undefined {
+  for (const [prefix, pricing] of entries) {
+    if (!matches(model, prefix)) continue;
+    if (!best || prefix.length > best[0].length) best = [prefix, pricing];
+  }
+  return best;
+}
+
+function lookup(name: string): ModelPricing | undefined {
+  return longestPrefixMatch(
+    name,
+    Object.entries(BUILTIN_MODEL_PRICING),
+    longestPrefixMatch(name, _overrides),
+  )?.[1];
+}
+
+/**
+ * Register pricing for a model, e.g. a fine-tune or a self-hosted
+ * deployment. Like the built-in table, an entry matches its own name
+ * followed by a date or version suffix (`-2024-08-06`, `-latest`), and
+ * the longest match wins. Registered entries win ties with built-in
+ * ones. Fine-tunes without an entry use their base model's price.
+ *
+ * @param model - Model name, without a date or version suffix.
+ * @param pricing - Prices in USD per million tokens.
+ *
+ * @example
+ * ```typescript
+ * import { pricing } from "judgeval";
+ *
+ * pricing.registerModelPricing("ft:gpt-4o-mini-2024-07-18:acme", {
+ *   input: 0.3,
+ *   cacheRead: 0.15,
+ *   output: 1.2,
+ * });
+ * ```
+ */
+export function registerModelPricing(
+  model: string,
+  pricing: ModelPricing,
+): void {
+  _overrides.set(normalize(model), pricing);
+}
+
+/** Remove every pricing entry added with {@link registerModelPricing}. */
+export function clearModelPricing(): void {
+  _overrides.clear();
+}
+
+/**
+ * Resolve the pricing for a model from registered entries and the
+ * built-in table.
+ *
+ * @returns The pricing, or `undefined` if the model is unknown.
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  const name = normalize(model);
+  const base = fineTuneBase(name);
+  return lookup(name) ?? (base === undefined ? undefined : lookup(base));
+}
+
+/**
+ * Compute the cost of an LLM call in USD.
+ *
+ * @param model - Model name as reported by the provider.
+ * @param usage - Token counts for the call.
+ * @returns The cost, or `undefined` if the model is unknown.
+ */
+export function computeCost(
+  model: Maybe<string>,
+  usage: TokenUsage,
+): number | undefined {
+  if (!model) return undefined;
+  const pricing = getModelPricing(model);
+  if (!pricing) return undefined;
+
+  const cost =
+    (usage.non_cached_input_tokens ?? 0) * pricing.input +
+    (usage.cache_read_input_tokens ?? 0) *
+      (pricing.cacheRead ?? pricing.input) +
+    (usage.cache_creation_input_tokens ?? 0) *
+      (pricing.cacheCreation ?? pricing.input) +
+    (usage.output_tokens ?? 0) * pricing.output;
+  return cost / 1_000_000;
+}
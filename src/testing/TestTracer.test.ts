@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Tracer } from "../trace/Tracer";
+import {
+  createTestTracer,
+  expectNoSpan,
+  expectSpan,
+  expectSpanTree,
+  SpanAssertionError,
+  type TestTracer,
+} from "./index";
+
+describe("createTestTracer", () => {
+  let tracer: TestTracer;
+  let agent: (question: string) => Promise<string>;
+
+  beforeEach(() => {
+    tracer = createTestTracer({
+      redact: [{ name: "secret", keys: ["token"] }],
+    });
+    const search = Tracer.observe(
+      function search(query: string, token: string) {
+        return Promise.resolve({ hits: [query.toUpperCase()], token });
+      },
+      { spanType: "tool" },
+    );
+    const fail = Tracer.observe(function fail(): void {
+      throw new Error("boom");
+    });
+    agent = Tracer.observe(
+      async function agent(question: string) {
+        const { hits } = await search(question, "t0ken");
+        try {
+          fail();
+        } catch {
+          // recorded on the span
+        }
+        return hits.join(",");
+      },
+      { spanType: "agent" },
+    );
+  });
+
+  afterEach(() => {
+    tracer.dispose();
+  });
+
+  test("captures finished spans with decoded input and output", async () => {
+    await agent("cats");
+
+    expect(tracer.spans.map((s) => s.name)).toEqual([
+      "search",
+      "fail",
+      "agent",
+    ]);
+    const search = expectSpan(tracer.spans, {
+      name: "search",
+      kind: "tool",
+      input: { query: "cats", token: "[REDACTED]" },
+      output: { hits: ["CATS"] },
+    });
+    expect(search.attributes["judgment.input"]).toBeString();
+    expectSpan(tracer.spans, { name: /^fa/, status: "error" });
+    expectNoSpan(tracer.spans, { kind: "llm" });
+
+    tracer.reset();
+    expect(tracer.spans).toHaveLength(0);
+  });
+
+  test("asserts tree shape in start order", async () => {
+    await agent("dogs");
+
+    expectSpanTree(tracer.spans, {
+      name: "agent",
+      output: "DOGS",
+      children: [
+        { name: "search", output: { hits: (h: string[]) => h.length === 1 } },
+        { name: "fail" },
+      ],
+    });
+    expect(() =>
+      expectSpanTree(tracer.spans, {
+        name: "agent",
+        children: [{ name: "fail" }, { name: "search" }],
+      }),
+    ).toThrow(SpanAssertionError);
+  });
+
+  test("failure messages list the captured spans", async () => {
+    await agent("birds");
+
+    expect(() => expectSpan(tracer.spans, { name: "missing" })).toThrow(
+      'No span matched {"name":"missing"}.\nSpans:\nagent [agent]\n  search [tool]\n  fail [span] (error)',
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import {
+  createSerializer,
+  JudgmentSpanProcessor,
+  JudgmentTracerProvider,
+  NoOpSpanExporter,
+  redaction,
+  type Serializer,
+  Tracer,
+} from "../index";
+
+/**
+ * Options for {@link createTestTracer}.
+ */
+export interface TestTracerOptions {
+  /** Project name recorded on the tracer. Defaults to `"test"`. */
+  projectName?: string;
+  /** Custom serialization function for span attribute values. */
+  serializer?: Serializer;
+  /** Redaction rules applied to captured spans, as in `TracerConfig.redact`. */
+  redact?: readonly redaction.RedactionRule[];
+  /** Per-attribute byte budget, as in `TracerConfig.maxAttributeBytes`. */
+  maxAttributeBytes?: number;
+  /** Whether to set the tracer as active. Defaults to `true`. */
+  setActive?: boolean;
+}
+
+/**
+ * Span processor that records emitted spans in memory instead of
+ * exporting them. Spans are captured synchronously as they end, after
+ * redaction and truncation.
+ */
+class CapturingSpanProcessor extends JudgmentSpanProcessor {
+  readonly finished: ReadableSpan[] = [];
+
+  constructor(tracer: TestTracer) {
+    super(tracer, new NoOpSpanExporter());
+  }
+
+  protected override _export(span: ReadableSpan, isPartial: boolean): void {
+    if (!isPartial) this.finished.push(span);
+  }
+}
+
+/**
+ * Tracer whose spans are captured in memory for assertions.
+ *
+ * Created by {@link createTestTracer}. The `Tracer` static API
+ * (`Tracer.observe`, `Tracer.span`, ...) records into it while it is
+ * active.
+ */
+export class TestTracer extends Tracer {
+  private readonly _processor: CapturingSpanProcessor;
+
+  /** @internal Use {@link createTestTracer}. */
+  constructor(options: TestTracerOptions) {
+    const projectName = options.projectName ?? "test";
+    super(
+      projectName,
+      `${projectName}-id`,
+      null,
+      null,
+      null,
+      null,
+      options.serializer ?? createSerializer(),
+      new NodeTracerProvider(),
+      null,
+      true,
+    );
+    if (options.redact) {
+      this._redactor = new redaction.Redactor(options.redact);
+    }
+    if (options.maxAttributeBytes !== undefined) {
+      this._maxAttributeBytes = options.maxAttributeBytes;
+    }
+    this._processor = new CapturingSpanProcessor(this);
+    this._tracerProvider = new NodeTracerProvider({
+      spanProcessors: [this._processor],
+    });
+  }
+
+  /** Finished spans, in the order they ended. */
+  get spans(): readonly ReadableSpan[] {
+    return this._processor.finished;
+  }
+
+  /** Discard captured spans. */
+  reset(): void {
+    this._processor.finished.length = 0;
+  }
+
+  /** Deregister the tracer so later spans are no longer captured. */
+  dispose(): void {
+    JudgmentTracerProvider.getInstance().deregister(this);
+  }
+
+  override getSpanProcessor(): JudgmentSpanProcessor {
+    return this._processor;
+  }
+
+  override getSpanExporter(): NoOpSpanExporter {
+    return new NoOpSpanExporter();
+  }
+}
+
+/**
+ * Create and activate a tracer that captures spans in memory.
+ *
+ * Nothing is exported and no credentials are needed. Create it before
+ * wrapping functions with `Tracer.observe` (for example at the top of the
+ * test file or in a setup file), since functions observed before any
+ * tracer exists are not traced.
+ *
+ * @param options - Project name, serializer, and redaction options.
+ * @returns The active test tracer.
+ *
+ * @example
+ * ```typescript
+ * import { Tracer } from "judgeval";
+ * import { createTestTracer, expectSpan } from "judgeval/testing";
+ *
+ * const tracer = createTestTracer();
+ * const search = Tracer.observe(async (q: string) => [q], { spanType: "tool" });
+ *
+ * test("searches", async () => {
+ *   tracer.reset();
+ *   await search("cats");
+ *   expectSpan(tracer.spans, { name: "search", kind: "tool", input: { q: "cats" } });
+ * });
+ * ```
+ */
+export function createTestTracer(options: TestTracerOptions = {}): TestTracer {
+  const tracer = new TestTracer(options);
+  const proxy = JudgmentTracerProvider.getInstance();
+  proxy.register(tracer);
+  if (options.setActive ?? true) {
+    tracer.setActive();
+  }
+  return tracer;
+}
@@ -0,0 +1,288 @@
+import { SpanStatusCode } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+import { safeStringify } from "../utils/serializer";
+
+/**
+ * Expected value in a {@link SpanMatcher}.
+ *
+ * Objects match partially (only the listed keys are compared), arrays
+ * match element by element, `RegExp`s match strings, and functions are
+ * called with the actual value and must return `true`. Anything else is
+ * compared with `Object.is`.
+ */
+export type ValueMatcher = unknown;
+
+/**
+ * Criteria a span must meet. Every listed field must match.
+ */
+export interface SpanMatcher {
+  /** Span name, exact or by pattern. */
+  name?: string | RegExp;
+  /** `judgment.span_kind`, e.g. `"tool"` or `"llm"`. */
+  kind?: string;
+  /** Span status. */
+  status?: "unset" | "ok" | "error";
+  /** Decoded `judgment.input`. */
+  input?: ValueMatcher;
+  /** Decoded `judgment.output`. */
+  output?: ValueMatcher;
+  /** Attribute values, with serialized JSON decoded when matched against objects. */
+  attributes?: Record<string, ValueMatcher>;
+  /** Extra check on the span itself. */
+  where?: (span: ReadableSpan) => boolean;
+}
+
+/**
+ * A {@link SpanMatcher} with the span's expected children, in start order.
+ * When `children` is given, the span must have exactly that many direct
+ * children and each must match its entry.
+ */
+export interface SpanTreeMatcher extends SpanMatcher {
+  children?: SpanTreeMatcher[];
+}
+
+/** Thrown by the `expect*` helpers when spans do not match. */
+export class SpanAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpanAssertionError";
+  }
+}
+
+const STATUS_NAMES: Record<SpanStatusCode, "unset" | "ok" | "error"> = {
+  [SpanStatusCode.UNSET]: "unset",
+  [SpanStatusCode.OK]: "ok",
+  [SpanStatusCode.ERROR]: "error",
+};
+
+function decodeJson(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Read an attribute, decoding it if it holds serialized JSON (as
+ * `judgment.input` and `judgment.output` do).
+ *
+ * @param span - The span to read from.
+ * @param key - The attribute key.
+ * @returns The decoded value, or `undefined` if the attribute is unset.
+ */
+export function decodeAttribute(span: ReadableSpan, key: string): unknown {
+  return decodeJson(span.attributes[key]);
+}
+
+function matchValue(actual: unknown, expected: ValueMatcher): boolean {
+  if (typeof expected === "function") {
+    return (expected as (value: unknown) => unknown)(actual) === true;
+  }
+  if (expected instanceof RegExp) {
+    return typeof actual === "string" && expected.test(actual);
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, i) => matchValue(actual[i], item))
+    );
+  }
+  if (typeof expected === "object" && expected !== null) {
+    if (typeof actual !== "object" || actual === null) return false;
+    return Object.entries(expected).every(([key, value]) =>
+      matchValue((actual as Record<string, unknown>)[key], value),
+    );
+  }
+  return Object.is(actual, expected);
+}
+
+/**
+ * Whether `span` meets every criterion in `matcher`.
+ *
+ * @param span - The span to check.
+ * @param matcher - The criteria.
+ * @returns `true` if the span matches.
+ */
+export function matchesSpan(span: ReadableSpan, matcher: SpanMatcher): boolean {
+  const { name, kind, status, input, output, attributes, where } = matcher;
+  if (name !== undefined && !matchValue(span.name, name)) return false;
+  if (
+    kind !== undefined &&
+    span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND] !== kind
+  ) {
+    return false;
+  }
+  if (status !== undefined && STATUS_NAMES[span.status.code] !== status) {
+    return false;
+  }
+  if (
+    "input" in matcher &&
+    !matchValue(decodeAttribute(span, AttributeKeys.JUDGMENT_INPUT), input)
+  ) {
+    return false;
+  }
+  if (
+    "output" in matcher &&
+    !matchValue(decodeAttribute(span, AttributeKeys.JUDGMENT_OUTPUT), output)
+  ) {
+    return false;
+  }
+  for (const [key, expected] of Object.entries(attributes ?? {})) {
+    const raw = span.attributes[key];
+    const decoded =
+      typeof expected === "object" && !(expected instanceof RegExp)
+        ? decodeJson(raw)
+        : raw;
+    if (!matchValue(decoded, expected)) return false;
+  }
+  return where?.(span) ?? true;
+}
+
+/**
+ * Spans matching `matcher`, in the order given.
+ *
+ * @param spans - Spans to search, e.g. `TestTracer.spans`.
+ * @param matcher - The criteria.
+ * @returns The matching spans.
+ */
+export function findSpans(
+  spans: readonly ReadableSpan[],
+  matcher: SpanMatcher,
+): ReadableSpan[] {
+  return spans.filter((span) => matchesSpan(span, matcher));
+}
+
+function childrenOf(
+  spans: readonly ReadableSpan[],
+  parent: ReadableSpan,
+): ReadableSpan[] {
+  const parentId = parent.spanContext().spanId;
+  return spans
+    .filter((span) => span.parentSpanContext?.spanId === parentId)
+    .sort(
+      (a, b) =>
+        a.startTime[0] - b.startTime[0] || a.startTime[1] - b.startTime[1],
+    );
+}
+
+function isRoot(spans: readonly ReadableSpan[], span: ReadableSpan): boolean {
+  const parentId = span.parentSpanContext?.spanId;
+  return (
+    parentId === undefined ||
+    !spans.some((other) => other.spanContext().spanId === parentId)
+  );
+}
+
+/**
+ * Render spans as an indented tree, one span per line with its kind and
+ * an error marker. Used in assertion messages.
+ *
+ * @param spans - The spans to render.
+ * @returns The rendered tree, or `(no spans)`.
+ */
+export function formatSpanTree(spans: readonly ReadableSpan[]): string {
+  const lines: string[] = [];
+  const visit = (span: ReadableSpan, depth: number): void => {
+    const kind = span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND];
+    const error = span.status.code === SpanStatusCode.ERROR ? " (error)" : "";
+    lines.push(
+      `${"  ".repeat(depth)}${span.name}${kind ? ` [${String(kind)}]` : ""}${error}`,
+    );
+    for (const child of childrenOf(spans, span)) visit(child, depth + 1);
+  };
+  for (const span of spans) {
+    if (isRoot(spans, span)) visit(span, 0);
+  }
+  return lines.length > 0 ? lines.join("\n") : "(no spans)";
+}
+
+function describeMatcher(matcher: SpanTreeMatcher): string {
+  return safeStringify(matcher);
+}
+
+/**
+ * Assert that at least one span matches `matcher`.
+ *
+ * @param spans - Spans to search, e.g. `TestTracer.spans`.
+ * @param matcher - The criteria.
+ * @returns The first matching span.
+ * @throws SpanAssertionError if no span matches.
+ */
+export function expectSpan(
+  spans: readonly ReadableSpan[],
+  matcher: SpanMatcher,
+): ReadableSpan {
+  const [match] = findSpans(spans, matcher);
+  if (!match) {
+    throw new SpanAssertionError(
+      `No span matched ${describeMatcher(matcher)}.\nSpans:\n${formatSpanTree(spans)}`,
+    );
+  }
+  return match;
+}
+
+/**
+ * Assert that no span matches `matcher`.
+ *
+ * @param spans - Spans to search, e.g. `TestTracer.spans`.
+ * @param matcher - The criteria.
+ * @throws SpanAssertionError if any span matches.
+ */
+export function expectNoSpan(
+  spans: readonly ReadableSpan[],
+  matcher: SpanMatcher,
+): void {
+  const matches = findSpans(spans, matcher);
+  if (matches.length > 0) {
+    throw new SpanAssertionError(
+      `Expected no span to match ${describeMatcher(matcher)}, found ${matches.length}.\nSpans:\n${formatSpanTree(spans)}`,
+    );
+  }
+}
+
+function matchesTree(
+  spans: readonly ReadableSpan[],
+  span: ReadableSpan,
+  tree: SpanTreeMatcher,
+): boolean {
+  if (!matchesSpan(span, tree)) return false;
+  if (!tree.children) return true;
+  const children = childrenOf(spans, span);
+  return (
+    children.length === tree.children.length &&
+    tree.children.every((child, i) => matchesTree(spans, children[i], child))
+  );
+}
+
+/**
+ * Assert that some span matches `tree`, including its nested `children`.
+ *
+ * @param spans - Spans to search, e.g. `TestTracer.spans`.
+ * @param tree - The expected span and its descendants.
+ * @returns The span at the top of the matched tree.
+ * @throws SpanAssertionError if no span matches.
+ *
+ * @example
+ * ```typescript
+ * expectSpanTree(tracer.spans, {
+ *   name: "agent",
+ *   children: [{ kind: "llm" }, { name: "search", kind: "tool" }],
+ * });
+ * ```
+ */
+export function expectSpanTree(
+  spans: readonly ReadableSpan[],
+  tree: SpanTreeMatcher,
+): ReadableSpan {
+  const match = spans.find((span) => matchesTree(spans, span, tree));
+  if (!match) {
+    throw new SpanAssertionError(
+      `No span tree matched ${describeMatcher(tree)}.\nSpans:\n${formatSpanTree(spans)}`,
+    );
+  }
+  return match;
+}
@@ -0,0 +1,18 @@
+export {
+  createTestTracer,
+  TestTracer,
+  type TestTracerOptions,
+} from "./TestTracer";
+export {
+  decodeAttribute,
+  expectNoSpan,
+  expectSpan,
+  expectSpanTree,
+  findSpans,
+  formatSpanTree,
+  matchesSpan,
+  SpanAssertionError,
+  type SpanMatcher,
+  type SpanTreeMatcher,
+  type ValueMatcher,
+} from "./assertions";
@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { SpanStatusCode } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+import { safeStringify } from "../utils/serializer";
+import { BaseTracer } from "./BaseTracer";
+import { NoOpSpanExporter } from "./exporters/NoOpSpanExporter";
+import type { JudgmentSpanExporter } from "./exporters/JudgmentSpanExporter";
+import { JudgmentTracerProvider } from "./JudgmentTracerProvider";
+import { NoOpSpanProcessor } from "./processors/NoOpSpanProcessor";
+import type { JudgmentSpanProcessor } from "./processors/JudgmentSpanProcessor";
+
+class FakeTracer extends BaseTracer {
+  constructor(provider: BasicTracerProvider) {
+    super(
+      "test-project",
+      "test-project-id",
+      "test-key",
+      "test-org",
+      "https://example.com",
+      null,
+      safeStringify,
+      provider,
+      null,
+      false,
+    );
+  }
+
+  getSpanProcessor(): JudgmentSpanProcessor {
+    return new NoOpSpanProcessor() as unknown as JudgmentSpanProcessor;
+  }
+
+  getSpanExporter(): JudgmentSpanExporter {
+    return new NoOpSpanExporter();
+  }
+}
+
+describe("observe generators", () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: FakeTracer;
+  let lookup: (id: number) => string;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new FakeTracer(
+      new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+      }),
+    );
+    const proxy = JudgmentTracerProvider.getInstance();
+    proxy.register(tracer);
+    proxy.setActive(tracer);
+    lookup = BaseTracer.observe(function lookup(id: number) {
+      return `doc-${id}`;
+    });
+  });
+
+  afterEach(() => {
+    JudgmentTracerProvider.getInstance().deregister(tracer);
+  });
+
+  function spansByName(): Record<string, ReadableSpan> {
+    return Object.fromEntries(
+      exporter.getFinishedSpans().map((s) => [s.name, s]),
+    );
+  }
+
+  test("keeps the span open until a generator is exhausted", () => {
+    const docs = BaseTracer.observe(function* docs(count: number) {
+      for (let i = 0; i < count; i++) yield lookup(i);
+    });
+
+    const iterator = docs(2);
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+    expect([...iterator]).toEqual(["doc-0", "doc-1"]);
+
+    const spans = spansByName();
+    expect(spans.docs.attributes[AttributeKeys.JUDGMENT_INPUT]).toBe(
+      '{"count":2}',
+    );
+    expect(spans.docs.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe(
+      '["doc-0","doc-1"]',
+    );
+    expect(spans.lookup.parentSpanContext?.spanId).toBe(
+      spans.docs.spanContext().spanId,
+    );
+  });
+
+  test("ends the span when iteration stops early", () => {
+    const numbers = BaseTracer.observe(function* numbers() {
+      yield 1;
+      yield 2;
+      yield 3;
+    });
+
+    for (const n of numbers()) {
+      if (n === 2) break;
+    }
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe("[1,2]");
+  });
+
+  test("records async generator output and errors", async () => {
+    const stream = BaseTracer.observe(async function* stream() {
+      yield await Promise.resolve(lookup(7));
+      throw new Error("disconnected");
+    });
+
+    const received: string[] = [];
+    let error: unknown;
+    try {
+      for await (const chunk of stream()) received.push(chunk);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(received).toEqual(["doc-7"]);
+    expect((error as Error).message).toBe("disconnected");
+    const spans = spansByName();
+    expect(spans.stream.status.code).toBe(SpanStatusCode.ERROR);
+    expect(spans.stream.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe(
+      '["doc-7"]',
+    );
+    expect(spans.lookup.parentSpanContext?.spanId).toBe(
+      spans.stream.spanContext().spanId,
+    );
+  });
+  test("passes sent values, thrown errors, and the return value through", () => {
+    const chat = BaseTracer.observe(function* chat() {
+      const name: unknown = yield "name?";
+      try {
+        yield `hello ${String(name)}`;
+      } catch (e) {
+        yield `recovered from ${(e as Error).message}`;
+      }
+      return "final";
+    });
+
+    const iterator = chat();
+    expect(iterator.next()).toEqual({ value: "name?", done: false });
+    expect(iterator.next("ada")).toEqual({ value: "hello ada", done: false });
+    expect(iterator.throw(new Error("oops"))).toEqual({
+      value: "recovered from oops",
+      done: false,
+    });
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+    expect(iterator.next()).toEqual({ value: "final", done: true });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).not.toBe(SpanStatusCode.ERROR);
+    expect(span.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe(
+      '["name?","hello ada","recovered from oops"]',
+    );
+  });
+
+  test("passes values through async generators and ends on return()", async () => {
+    const echo = BaseTracer.observe(async function* echo() {
+      let received: unknown = yield await Promise.resolve("ready");
+      for (let i = 0; i < 3; i++) received = yield `echo ${String(received)}`;
+      return "done";
+    });
+
+    const iterator = echo();
+    expect(await iterator.next()).toEqual({ value: "ready", done: false });
+    expect(await iterator.next("hi")).toEqual({
+      value: "echo hi",
+      done: false,
+    });
+    expect(await iterator.return("bye")).toEqual({ value: "bye", done: true });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe(
+      '["ready","echo hi"]',
+    );
+  });
+
+  test("records an error thrown into a generator that does not catch it", () => {
+    const numbers = BaseTracer.observe(function* numbers() {
+      yield 1;
+      yield 2;
+    });
+
+    const iterator = numbers();
+    iterator.next();
+    expect(() => iterator.throw(new Error("stop"))).toThrow("stop");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe("[1]");
+  });
+
+  test("starts the span on the first next() in the caller's context", async () => {
+    const docs = BaseTracer.observe(function* docs() {
+      yield lookup(1);
+    });
+
+    const iterator = BaseTracer.with("plan", () => docs());
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const firstNext = Date.now();
+    expect([...iterator]).toEqual(["doc-1"]);
+
+    const spans = spansByName();
+    const [seconds, nanos] = spans.docs.startTime;
+    expect(seconds * 1000 + nanos / 1e6).toBeGreaterThanOrEqual(firstNext - 1);
+    expect(spans.docs.parentSpanContext?.spanId).toBe(
+      spans.plan.spanContext().spanId,
+    );
+  });
+
+  test("creates no span for a generator closed before it starts", async () => {
+    const numbers = BaseTracer.observe(function* numbers() {
+      yield 1;
+    });
+    const stream = BaseTracer.observe(async function* stream() {
+      yield await Promise.resolve(1);
+    });
+
+    numbers();
+    const closed = numbers();
+    expect(closed.return(undefined)).toEqual({ value: undefined, done: true });
+    expect(closed.next()).toEqual({ value: undefined, done: true });
+    const thrown = stream();
+    await expect(thrown.throw(new Error("stop"))).rejects.toThrow("stop");
+    expect(await thrown.next()).toEqual({ value: undefined, done: true });
+
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  test("caps the recorded items and counts the rest", () => {
+    const numbers = BaseTracer.observe(function* numbers() {
+      for (let i = 0; i < 1005; i++) yield i;
+    });
+
+    expect([...numbers()]).toHaveLength(1005);
+
+    const [span] = exporter.getFinishedSpans();
+    const output = JSON.parse(
+      span.attributes[AttributeKeys.JUDGMENT_OUTPUT] as string,
+    ) as unknown[];
+    expect(output).toHaveLength(1001);
+    expect(output[999]).toBe(999);
+    expect(output[1000]).toBe("[… 5 more items]");
+  });
+});
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+import { safeStringify } from "../utils/serializer";
+import { BaseTracer } from "./BaseTracer";
+import { NoOpSpanExporter } from "./exporters/NoOpSpanExporter";
+import type { JudgmentSpanExporter } from "./exporters/JudgmentSpanExporter";
+import { JudgmentTracerProvider } from "./JudgmentTracerProvider";
+import { NoOpSpanProcessor } from "./processors/NoOpSpanProcessor";
+import type { JudgmentSpanProcessor } from "./processors/JudgmentSpanProcessor";
+
+class FakeTracer extends BaseTracer {
+  constructor(provider: BasicTracerProvider) {
+    super(
+      "test-project",
+      "test-project-id",
+      "test-key",
+      "test-org",
+      "https://example.com",
+      null,
+      safeStringify,
+      provider,
+      null,
+      false,
+    );
+  }
+
+  getSpanProcessor(): JudgmentSpanProcessor {
+    return new NoOpSpanProcessor() as unknown as JudgmentSpanProcessor;
+  }
+
+  getSpanExporter(): JudgmentSpanExporter {
+    return new NoOpSpanExporter();
+  }
+}
+
+class BaseTools {
+  ping(): string {
+    return "pong";
+  }
+}
+
+describe("observeClass / observeObject", () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: FakeTracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new FakeTracer(
+      new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+      }),
+    );
+    const proxy = JudgmentTracerProvider.getInstance();
+    proxy.register(tracer);
+    proxy.setActive(tracer);
+  });
+
+  afterEach(() => {
+    JudgmentTracerProvider.getInstance().deregister(tracer);
+  });
+
+  function spansByName(): Record<string, ReadableSpan> {
+    return Object.fromEntries(
+      exporter.getFinishedSpans().map((s) => [s.name, s]),
+    );
+  }
+
+  test("wraps own and inherited methods with ClassName.method names", () => {
+    class SearchTools extends BaseTools {
+      search(query: string): string {
+        return this.format(query);
+      }
+
+      summarize(text: string): string {
+        return text.slice(0, 3);
+      }
+
+      format(query: string): string {
+        return `results for ${query}`;
+      }
+
+      close(): void {}
+    }
+    BaseTracer.observeClass(SearchTools, {
+      spanType: "tool",
+      exclude: ["close"],
+      methods: { summarize: { spanType: "llm" } },
+    });
+
+    const tools = new SearchTools();
+    tools.search("flights");
+    tools.summarize("abcdef");
+    tools.ping();
+    tools.close();
+
+    const spans = spansByName();
+    expect(Object.keys(spans).sort()).toEqual([
+      "SearchTools.format",
+      "SearchTools.ping",
+      "SearchTools.search",
+      "SearchTools.summarize",
+    ]);
+    expect(spans["SearchTools.search"].attributes).toMatchObject({
+      [AttributeKeys.JUDGMENT_SPAN_KIND]: "tool",
+      [AttributeKeys.JUDGMENT_INPUT]: '{"query":"flights"}',
+      [AttributeKeys.JUDGMENT_OUTPUT]: "results for flights",
+    });
+    expect(spans["SearchTools.format"].parentSpanContext?.spanId).toBe(
+      spans["SearchTools.search"].spanContext().spanId,
+    );
+    expect(
+      spans["SearchTools.summarize"].attributes[
+        AttributeKeys.JUDGMENT_SPAN_KIND
+      ],
+    ).toBe("llm");
+
+    // The parent class is left untouched.
+    new BaseTools().ping();
+    expect(exporter.getFinishedSpans()).toHaveLength(4);
+  });
+
+  test("does not wrap already observed methods twice", () => {
+    class Agent {
+      run(): number {
+        return 1;
+      }
+    }
+    Agent.prototype.run = BaseTracer.observe(Agent.prototype.run, {
+      spanName: "custom",
+    });
+    BaseTracer.observeClass(Agent);
+
+    new Agent().run();
+    expect(exporter.getFinishedSpans().map((s) => s.name)).toEqual(["custom"]);
+  });
+
+  test("wraps plain object methods as own properties", () => {
+    const tools = BaseTracer.observeObject(
+      {
+        label: "tools",
+        add: (a: number, b: number) => a + b,
+        negate: (a: number) => -a,
+      },
+      { include: ["add"] },
+    );
+
+    expect(tools.add(1, 2)).toBe(3);
+    expect(tools.negate(1)).toBe(-1);
+    expect(tools.label).toBe("tools");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+    expect(span.name).toBe("add");
+    expect(span.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe(3);
+  });
+
+  test("wraps class instances without touching the prototype", () => {
+    const instrumented = BaseTracer.observeObject(new BaseTools());
+    instrumented.ping();
+    new BaseTools().ping();
+
+    expect(exporter.getFinishedSpans().map((s) => s.name)).toEqual([
+      "BaseTools.ping",
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+import { createTestTracer, decodeAttribute, type TestTracer } from "../testing";
+import { Tracer } from "./Tracer";
+
+describe("Tracer.score", () => {
+  let tracer: TestTracer;
+
+  beforeEach(() => {
+    tracer = createTestTracer();
+  });
+
+  afterEach(() => {
+    tracer.dispose();
+  });
+
+  test("records scores on the current span in judge result shape", () => {
+    Tracer.span("generate_sql", () => {
+      Tracer.score({
+        name: "sql_executes",
+        value: true,
+        reason: "Query returned 12 rows",
+      });
+      Tracer.score({
+        name: "rows_expected",
+        value: 0.5,
+        reason: "6 of 12 rows expected",
+        citations: [{ spanId: "b7ad6b7169203331", spanAttribute: "output" }],
+      });
+      Tracer.score({ name: "dialect", value: "postgres", reason: "Parsed" });
+    });
+
+    const [span] = tracer.spans;
+    expect(decodeAttribute(span, AttributeKeys.JUDGMENT_SCORES)).toEqual([
+      {
+        scorer_name: "sql_executes",
+        score_type: "binary",
+        bool_value: true,
+        reason: { text: "Query returned 12 rows" },
+      },
+      {
+        scorer_name: "rows_expected",
+        score_type: "numeric",
+        num_value: 0.5,
+        reason: {
+          text: "6 of 12 rows expected",
+          citations: [
+            { span_id: "b7ad6b7169203331", span_attribute: "output" },
+          ],
+        },
+      },
+      {
+        scorer_name: "dialect",
+        score_type: "categorical",
+        str_value: "postgres",
+        reason: { text: "Parsed" },
+      },
+    ]);
+    expect(
+      span.attributes[AttributeKeys.JUDGMENT_TRACE_SCORES],
+    ).toBeUndefined();
+  });
+
+  test("records trace scores separately and targets an explicit span", () => {
+    Tracer.span("outer", (outer) => {
+      Tracer.span("inner", () => {
+        Tracer.score(
+          {
+            name: "schema_valid",
+            value: false,
+            reason: "Missing id",
+            trace: true,
+          },
+          outer,
+        );
+      });
+    });
+
+    const outer = tracer.spans.find((span) => span.name === "outer")!;
+    const inner = tracer.spans.find((span) => span.name === "inner")!;
+    expect(decodeAttribute(outer, AttributeKeys.JUDGMENT_TRACE_SCORES)).toEqual(
+      [
+        {
+          scorer_name: "schema_valid",
+          score_type: "binary",
+          bool_value: false,
+          reason: { text: "Missing id" },
+        },
+      ],
+    );
+    expect(outer.attributes[AttributeKeys.JUDGMENT_SCORES]).toBeUndefined();
+    expect(
+      inner.attributes[AttributeKeys.JUDGMENT_TRACE_SCORES],
+    ).toBeUndefined();
+  });
+
+  test("skips scores whose value does not match the score type", () => {
+    Tracer.span("check", () => {
+      Tracer.score({
+        name: "passed",
+        value: "yes",
+        reason: "",
+        scoreType: "binary",
+      });
+      Tracer.score({ name: "ratio", value: Number.NaN, reason: "" });
+    });
+
+    expect(
+      tracer.spans[0].attributes[AttributeKeys.JUDGMENT_SCORES],
+    ).toBeUndefined();
+  });
+
+  test("does nothing outside a span", () => {
+    expect(() =>
+      Tracer.score({ name: "orphan", value: 1, reason: "" }),
+    ).not.toThrow();
+    expect(tracer.spans).toHaveLength(0);
+  });
+});
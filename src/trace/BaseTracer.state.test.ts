@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+import { safeStringify } from "../utils/serializer";
+import { BaseTracer } from "./BaseTracer";
+import { NoOpSpanExporter } from "./exporters/NoOpSpanExporter";
+import type { JudgmentSpanExporter } from "./exporters/JudgmentSpanExporter";
+import { JudgmentTracerProvider } from "./JudgmentTracerProvider";
+import { NoOpSpanProcessor } from "./processors/NoOpSpanProcessor";
+import type { JudgmentSpanProcessor } from "./processors/JudgmentSpanProcessor";
+
+class FakeTracer extends BaseTracer {
+  constructor(provider: BasicTracerProvider) {
+    super(
+      "test-project",
+      "test-project-id",
+      "test-key",
+      "test-org",
+      "https://example.com",
+      null,
+      safeStringify,
+      provider,
+      null,
+      false,
+    );
+  }
+
+  getSpanProcessor(): JudgmentSpanProcessor {
+    return new NoOpSpanProcessor() as unknown as JudgmentSpanProcessor;
+  }
+
+  getSpanExporter(): JudgmentSpanExporter {
+    return new NoOpSpanExporter();
+  }
+}
+
+interface Memory {
+  notes: string[];
+  turns: number;
+  draft?: string;
+}
+
+class Scratchpad {
+  memory: Memory = { notes: ["start"], turns: 0, draft: "wip" };
+
+  remember(note: string): number {
+    this.memory.notes.push(note);
+    this.memory.turns += 1;
+    delete this.memory.draft;
+    return this.memory.turns;
+  }
+
+  async rememberLater(note: string): Promise<number> {
+    await Promise.resolve();
+    return this.remember(note);
+  }
+
+  fail(): never {
+    this.memory.turns = -1;
+    throw new Error("boom");
+  }
+}
+
+const captureState = (self: unknown) => (self as Scratchpad).memory;
+
+describe("observe captureState", () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: FakeTracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new FakeTracer(
+      new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+      }),
+    );
+    const proxy = JudgmentTracerProvider.getInstance();
+    proxy.register(tracer);
+    proxy.setActive(tracer);
+  });
+
+  afterEach(() => {
+    JudgmentTracerProvider.getInstance().deregister(tracer);
+  });
+
+  test("records state before and after the call", () => {
+    const pad = new Scratchpad();
+    const remember = BaseTracer.observe(pad.remember, { captureState });
+    remember.call(pad, "flight booked");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.attributes[AttributeKeys.JUDGMENT_STATE_BEFORE]).toBe(
+      '{"notes":["start"],"turns":0,"draft":"wip"}',
+    );
+    expect(span.attributes[AttributeKeys.JUDGMENT_STATE_AFTER]).toBe(
+      '{"notes":["start","flight booked"],"turns":1}',
+    );
+    expect(span.attributes[AttributeKeys.JUDGMENT_STATE_DIFF]).toBeUndefined();
+  });
+
+  test("records a structural diff when requested", async () => {
+    const pad = new Scratchpad();
+    const rememberLater = BaseTracer.observe(pad.rememberLater, {
+      captureState,
+      recordStateDiff: true,
+    });
+    await rememberLater.call(pad, "hotel booked");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(
+      JSON.parse(span.attributes[AttributeKeys.JUDGMENT_STATE_DIFF] as string),
+    ).toEqual([
+      { op: "add", path: "/notes/1", value: "hotel booked" },
+      { op: "replace", path: "/turns", oldValue: 0, value: 1 },
+      { op: "remove", path: "/draft", oldValue: "wip" },
+    ]);
+  });
+
+  test("records state after a thrown error", () => {
+    const pad = new Scratchpad();
+    const fail = BaseTracer.observe(pad.fail, { captureState });
+    expect(() => fail.call(pad)).toThrow("boom");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.attributes[AttributeKeys.JUDGMENT_STATE_AFTER]).toBe(
+      '{"notes":["start"],"turns":-1,"draft":"wip"}',
+    );
+  });
+
+  test("never fails the wrapped call when capturing throws", () => {
+    const traced = BaseTracer.observe(() => 42, {
+      captureState: () => {
+        throw new Error("no state");
+      },
+      recordStateDiff: true,
+    });
+    expect(traced()).toBe(42);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(
+      span.attributes[AttributeKeys.JUDGMENT_STATE_BEFORE],
+    ).toBeUndefined();
+  });
+});
@@ -1,5 +1,6 @@
 import {
   type Attributes,
+  type AttributeValue,
   type Context,
   INVALID_SPAN_CONTEXT,
   type Span,
@@ -13,12 +14,14 @@ import type {
   SpanLimits,
   SpanProcessor,
 } from "@opentelemetry/sdk-trace-base";
-import type { OpenAI } from "openai";
 import { AttributeKeys, InternalAttributeKeys } from "../JudgmentAttributeKeys";
-import { wrap } from "../instrumentation";
+import type { ScoreType } from "../agent-judges/AgentJudge";
+import { wrap, type WrappableClient } from "../instrumentation";
 import { JudgmentApiClient } from "../internal/api";
 import type { PendingEvalPayload } from "../internal/api/models/PendingEvalPayload";
+import type { ScorerResponse } from "../judges/responses";
 import { parseFunctionArgs } from "../utils/annotate";
+import { diffJson, toJsonValue } from "../utils/diff";
 import { dontThrow } from "../utils/dont-throw";
 import { Logger } from "../utils/logger";
 import {
@@ -26,15 +29,31 @@ import {
   serializeAttribute,
   Serializer,
 } from "../utils/serializer";
+import { DEFAULT_MAX_ATTRIBUTE_BYTES } from "../utils/truncate";
 import { Maybe } from "../utils/type-helpers";
+import {
+  type AgentOptions,
+  registerAgentClass,
+  resolveAgentSpan,
+} from "./agent";
 import { createBaggage, getBaggage, setBaggage } from "./baggage";
 import { extract } from "./propagation";
+import { type RedactionRule, Redactor } from "./redaction";
 import type { JudgmentSpanExporter } from "./exporters/JudgmentSpanExporter";
+import type { FileSpanExporterOptions } from "./exporters/FileSpanExporter";
+import type { ExportQueueOptions } from "./exporters/PersistentSpanExporter";
 import type { JudgmentSpanProcessor } from "./processors/JudgmentSpanProcessor";
+import type { TailSamplingOptions } from "./processors/TailSamplingSpanProcessor";
 import { getTraceRuntime, type TraceRuntime } from "./runtime";
 
 const TRACER_NAME = "judgeval";
 
+/** Functions returned by `observe`, so they are not wrapped twice. */
+const observedFunctions = new WeakSet<object>();
+
+/** Yielded values kept as the output of an observed generator. */
+const MAX_GENERATOR_ITEMS = 1000;
+
 /**
  * Metadata about an LLM call to record on a span.
  */
@@ -73,6 +92,33 @@ export interface ObserveOptions {
    * Defaults to `false`.
    */
   fork?: boolean;
+  /**
+   * Return a snapshot of the state the function may mutate (e.g. an agent's
+   * memory). Evaluated before and after the call and recorded as
+   * `judgment.state_before` and `judgment.state_after`.
+   */
+  captureState?: (thisArg: unknown, args: unknown[]) => unknown;
+  /**
+   * Whether to also record a structural diff of the two state snapshots as
+   * `judgment.state_diff`. Requires `captureState`. Defaults to `false`.
+   */
+  recordStateDiff?: boolean;
+}
+
+/**
+ * Options for {@link BaseTracer.observeClass} and
+ * {@link BaseTracer.observeObject}.
+ */
+export interface ObserveClassOptions extends Omit<ObserveOptions, "spanName"> {
+  /** Method names to wrap. Defaults to every method. */
+  include?: string[];
+  /** Method names to leave unwrapped. */
+  exclude?: string[];
+  /**
+   * Per-method observe options, keyed by method name. Merged over the
+   * shared options (e.g. `{ summarize: { spanType: "llm" } }`).
+   */
+  methods?: Record<string, ObserveOptions>;
 }
 
 /**
@@ -91,6 +137,84 @@ export interface AsyncEvaluateOptions {
   example?: Record<string, unknown>;
 }
 
+/**
+ * Options for {@link BaseTracer.score}.
+ *
+ * `value`, `reason`, and `citations` take the same shapes as judge
+ * responses (`BinaryResponse`, `NumericResponse`, `CategoricalResponse`).
+ */
+export type ScoreOptions = ScorerResponse & {
+  /** Score name, shown in place of a judge name. */
+  name: string;
+  /** Score type. Inferred from the type of `value` when omitted. */
+  scoreType?: ScoreType;
+  /** Score the whole trace instead of the target span. Defaults to `false`. */
+  trace?: boolean;
+};
+
+const SCORE_VALUE_FIELDS: Record<
+  ScoreType,
+  { type: "boolean" | "number" | "string"; field: string }
+> = {
+  binary: { type: "boolean", field: "bool_value" },
+  numeric: { type: "number", field: "num_value" },
+  categorical: { type: "string", field: "str_value" },
+};
+
+/** Convert score options to the scorer data shape used for judge results. */
+function toScorerData(options: ScoreOptions): Record<string, unknown> | null {
+  const { name, value, reason, citations } = options;
+  const scoreType =
+    options.scoreType ??
+    (typeof value === "boolean"
+      ? "binary"
+      : typeof value === "number"
+        ? "numeric"
+        : "categorical");
+  const { type, field } = SCORE_VALUE_FIELDS[scoreType];
+  if (typeof value !== type) {
+    Logger.warning(
+      `Score '${name}' has a ${typeof value} value but score type '${scoreType}'; skipping.`,
+    );
+    return null;
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    Logger.warning(`Score '${name}' has a non-finite value; skipping.`);
+    return null;
+  }
+  return {
+    scorer_name: name,
+    score_type: scoreType,
+    [field]: value,
+    reason: {
+      text: reason,
+      ...(citations && {
+        citations: citations.map((c) => ({
+          span_id: c.spanId,
+          span_attribute: c.spanAttribute,
+        })),
+      }),
+    },
+  };
+}
+
+/**
+ * Telemetry settings accepted by the Vercel AI SDK's
+ * `experimental_telemetry` option. See {@link BaseTracer.getAISDKTelemetry}.
+ */
+export interface AISDKTelemetrySettings {
+  /** Whether telemetry is recorded. Defaults to `true`. */
+  isEnabled?: boolean;
+  /** Whether prompts are recorded. Defaults to the AI SDK's own default. */
+  recordInputs?: boolean;
+  /** Whether responses are recorded. Defaults to the AI SDK's own default. */
+  recordOutputs?: boolean;
+  /** Identifier recorded as `ai.telemetry.functionId`. */
+  functionId?: string;
+  /** Extra metadata recorded as `ai.telemetry.metadata.*` attributes. */
+  metadata?: Record<string, AttributeValue>;
+}
+
 /**
  * Configuration options for initializing a Tracer.
  *
@@ -120,6 +244,45 @@ export interface TracerConfig {
   spanLimits?: SpanLimits;
   /** Additional span processors to register alongside Judgment's own processor. */
   spanProcessors?: SpanProcessor[];
+  /**
+   * Redaction rules applied to span attributes, event attributes, and
+   * status messages before export or debug printing, in order. See
+   * `redaction.BUILTIN_REDACTION_RULES` for the built-in detectors.
+   */
+  redact?: readonly RedactionRule[];
+  /**
+   * Maximum size of a string attribute in UTF-8 bytes. Larger values are
+   * truncated before export and listed in `judgment.truncated_attributes`.
+   * Defaults to 256 KiB; `Infinity` disables truncation.
+   */
+  maxAttributeBytes?: number;
+  /**
+   * Sample whole traces after they finish instead of (or in addition to)
+   * head sampling with `sampler`. See {@link TailSamplingOptions}.
+   */
+  tailSampling?: TailSamplingOptions;
+  /**
+   * Persist span batches to disk and upload them in the background,
+   * retrying with backoff until the endpoint accepts them. Batches left
+   * over by a crashed or offline process are uploaded on the next
+   * `Tracer.init()`. Spans are queued even if the project cannot be
+   * resolved at init, and uploaded once it can. Node.js only.
+   */
+  exportQueue?: ExportQueueOptions;
+  /**
+   * Where spans are sent. `"otlp"` (the default) exports to the Judgment
+   * platform. `"file"` writes them to local JSONL files instead and needs
+   * no credentials; upload the files later with `uploadSpanFiles`.
+   * Node.js only.
+   */
+  exporter?: "otlp" | "file";
+  /** Options for the `"file"` exporter. See {@link FileSpanExporterOptions}. */
+  fileExporter?: FileSpanExporterOptions;
+  /**
+   * Print each completed trace to the console as a tree using
+   * `ConsoleTreeExporter`. Node.js only.
+   */
+  debug?: boolean;
 }
 
 /**
@@ -142,6 +305,9 @@ export abstract class BaseTracer {
   _tracerProvider: BasicTracerProvider;
   _client: JudgmentApiClient | null;
   _enableMonitoring: boolean;
+  _redactor: Redactor | null = null;
+  _tailSampling: TailSamplingOptions | null = null;
+  _maxAttributeBytes: number = DEFAULT_MAX_ATTRIBUTE_BYTES;
 
   readonly supportsLiveInstrumentation: boolean = true;
 
@@ -219,6 +385,157 @@ export abstract class BaseTracer {
     });
   }
 
+  /**
+   * Record the current `captureState` snapshot on `spans` and return a
+   * callback that records the snapshot after the call (and the diff, if
+   * requested).
+   */
+  private static _captureState(
+    spans: Span[],
+    captureState: NonNullable<ObserveOptions["captureState"]>,
+    recordStateDiff: boolean,
+    thisArg: unknown,
+    args: unknown[],
+  ): () => void {
+    const serializer = BaseTracer._getSerializer();
+    const snapshot = (key: AttributeKeys): unknown =>
+      dontThrow("BaseTracer.observe.captureState", () => {
+        const state = captureState(thisArg, args);
+        const serialized = serializeAttribute(state, serializer);
+        for (const span of spans) span.setAttribute(key, serialized);
+        // Copy the state now; the call may mutate it in place.
+        return recordStateDiff ? toJsonValue(state, serializer) : undefined;
+      });
+
+    const before = snapshot(AttributeKeys.JUDGMENT_STATE_BEFORE);
+    return () => {
+      const after = snapshot(AttributeKeys.JUDGMENT_STATE_AFTER);
+      if (!recordStateDiff) return;
+      dontThrow("BaseTracer.observe.recordStateDiff", () => {
+        const diff = serializer(diffJson(before, after));
+        for (const span of spans) {
+          span.setAttribute(AttributeKeys.JUDGMENT_STATE_DIFF, diff);
+        }
+      });
+    };
+  }
+
+  /**
+   * Wrap a generator returned by an observed function so its span stays
+   * open until iteration completes, throws, or is closed early. Each step
+   * runs with the span's context active.
+   *
+   * `next`, `throw`, and `return` are passed straight to the generator,
+   * so sent values, errors it catches, and its return value behave as if
+   * it were not wrapped. Only the first {@link MAX_GENERATOR_ITEMS}
+   * yielded values are kept for the output, followed by a count of the
+   * rest. The span never ends for a generator that is abandoned without
+   * finishing or being closed with `return()`.
+   */
+  private static _wrapGenerator(
+    generator: Generator | AsyncGenerator,
+    onError: (e: unknown) => void,
+    onEnd: (items: unknown[]) => void,
+  ): Generator | AsyncGenerator {
+    const proxy = BaseTracer._getProxyProvider();
+    const ctx = proxy.getCurrentContext();
+    const items: unknown[] = [];
+    let dropped = 0;
+    let ended = false;
+    const end = (): void => {
+      if (ended) return;
+      ended = true;
+      onEnd(dropped > 0 ? [...items, `[… ${dropped} more items]`] : items);
+    };
+    const settle = (
+      result: IteratorResult<unknown>,
+    ): IteratorResult<unknown> => {
+      if (result.done) end();
+      else if (ended) return result;
+      else if (items.length < MAX_GENERATOR_ITEMS) items.push(result.value);
+      else dropped++;
+      return result;
+    };
+    const fail = (e: unknown): never => {
+      if (!ended) onError(e);
+      end();
+      throw e;
+    };
+
+    type Method = "next" | "throw" | "return";
+    const wrapped = Object.create(
+      Object.getPrototypeOf(generator) as object,
+    ) as Record<Method, (arg?: unknown) => unknown>;
+
+    if (isAsyncGenerator(generator)) {
+      for (const method of ["next", "throw", "return"] as const) {
+        wrapped[method] = (arg?: unknown) =>
+          proxy
+            .withContext(ctx, () => generator[method](arg))
+            .then(settle, fail);
+      }
+      return wrapped as unknown as AsyncGenerator;
+    }
+    for (const method of ["next", "throw", "return"] as const) {
+      wrapped[method] = (arg?: unknown) => {
+        let result: IteratorResult<unknown>;
+        try {
+          result = proxy.withContext(ctx, () => generator[method](arg));
+        } catch (e) {
+          return fail(e);
+        }
+        return settle(result);
+      };
+    }
+    return wrapped as unknown as Generator;
+  }
+
+  /**
+   * Stand in for the generator of an observed generator function until
+   * its first `next()`, when `start` creates the span and the wrapped
+   * generator in the caller's context. Generators that are never iterated
+   * get no span. Closing it before then behaves like closing a generator
+   * that has not started.
+   */
+  private static _deferGenerator(
+    generatorFunction: (...args: never[]) => unknown,
+    start: () => unknown,
+  ): Generator | AsyncGenerator {
+    const proxy = BaseTracer._getProxyProvider();
+    const ctx = proxy.getCurrentContext();
+    const isAsync = isAsyncGeneratorFunction(generatorFunction);
+    let generator: Generator | AsyncGenerator | null = null;
+    let closed = false;
+    const settle = (
+      result: IteratorResult<unknown>,
+    ): IteratorResult<unknown> | Promise<IteratorResult<unknown>> =>
+      isAsync ? Promise.resolve(result) : result;
+
+    type Method = "next" | "throw" | "return";
+    const wrapped = Object.create(
+      generatorFunction.prototype as object,
+    ) as Record<Method, (arg?: unknown) => unknown>;
+    wrapped.next = (arg?: unknown) => {
+      if (!generator && !closed) {
+        generator = proxy.withContext(ctx, start) as Generator;
+      }
+      if (!generator) return settle({ value: undefined, done: true });
+      return generator.next(arg);
+    };
+    wrapped.throw = (error?: unknown) => {
+      if (generator) return generator.throw(error);
+      closed = true;
+      if (isAsync) return Promise.reject(error);
+      throw error;
+    };
+    wrapped.return = (value?: unknown) => {
+      if (generator) return generator.return(value);
+      closed = true;
+      return settle({ value, done: true });
+    };
+    return wrapped as unknown as Generator | AsyncGenerator;
+  }
+
   // ------------------------------------------------------------------ //
   //  Static API: Span Access & Lifecycle                               //
   // ------------------------------------------------------------------ //
@@ -233,6 +550,27 @@ export abstract class BaseTracer {
     return proxy.getCurrentSpan();
   }
 
+  /**
+   * Get the trace ID of the currently active span.
+   *
+   * Hand it to clients that record feedback later with
+   * `client.feedback.record()`.
+   *
+   * @returns The 32-character hex trace ID, or `undefined` outside a sampled span.
+   */
+  static getCurrentTraceId(): string | undefined {
+    return BaseTracer._getCurrentTraceAndSpanId()?.[0];
+  }
+
+  /**
+   * Get the span ID of the currently active span.
+   *
+   * @returns The 16-character hex span ID, or `undefined` outside a sampled span.
+   */
+  static getCurrentSpanId(): string | undefined {
+    return BaseTracer._getCurrentTraceAndSpanId()?.[1];
+  }
+
   /**
    * Flush all pending spans to the export endpoint.
    *
@@ -282,12 +620,12 @@ export abstract class BaseTracer {
   /**
    * Wrap a supported LLM client to add automatic tracing.
    *
-   * Currently supports OpenAI clients. The client is instrumented
-   * in-place and returned.
+   * Currently supports OpenAI, Anthropic, and Google Gen AI clients. The
+   * client is instrumented in-place and returned.
    *
    * Lives on `BaseTracer` (rather than a runtime-specific subclass) because
-   * the OpenAI wrapper relies only on fetch-based method interception — the
-   * `openai` import is types-only and it uses no Node built-ins — so it is
+   * the LLM wrappers rely only on fetch-based method interception — the SDK
+   * imports are types-only and they use no Node built-ins — so they are
    * safe in both the Node and Workers runtimes.
    *
    * @param client - An LLM client instance (e.g. `new OpenAI()`).
@@ -300,7 +638,7 @@ export abstract class BaseTracer {
    * const client = Tracer.wrap(new OpenAI());
    * ```
    */
-  static wrap<T extends OpenAI>(client: T): T {
+  static wrap<T extends WrappableClient>(client: T): T {
     return wrap(client);
   }
 
@@ -318,6 +656,36 @@ export abstract class BaseTracer {
     return proxy.getTracer(TRACER_NAME);
   }
 
+  /**
+   * Build the `experimental_telemetry` settings for a Vercel AI SDK call
+   * so its spans are recorded through the Judgment tracer.
+   *
+   * Pair with {@link AISDKSpanProcessor} in `spanProcessors` to map the
+   * AI SDK's `ai.*` attributes onto Judgment span kinds, inputs, outputs,
+   * and token usage.
+   *
+   * @param settings - Optional overrides merged into the returned settings.
+   * @returns Settings to pass as `experimental_telemetry`.
+   *
+   * @example
+   * ```typescript
+   * const { text } = await generateText({
+   *   model: openai("gpt-4o-mini"),
+   *   prompt,
+   *   experimental_telemetry: Tracer.getAISDKTelemetry({ functionId: "chat" }),
+   * });
+   * ```
+   */
+  static getAISDKTelemetry(
+    settings?: AISDKTelemetrySettings,
+  ): AISDKTelemetrySettings & { tracer: Tracer } {
+    return {
+      isEnabled: true,
+      ...settings,
+      tracer: BaseTracer.getOTELTracer(),
+    };
+  }
+
   /**
    * Start a new span without setting it as active.
    *
@@ -327,10 +695,19 @@ export abstract class BaseTracer {
    *
    * @param name - The span name.
    * @param attributes - Optional span attributes.
+   * @param context - Optional parent context. Defaults to the current context.
    * @returns The created span.
    */
-  static startSpan(name: string, attributes?: Attributes): Span {
-    const span = BaseTracer.getOTELTracer().startSpan(name, { attributes });
+  static startSpan(
+    name: string,
+    attributes?: Attributes,
+    context?: Context,
+  ): Span {
+    const span = BaseTracer.getOTELTracer().startSpan(
+      name,
+      { attributes },
+      context,
+    );
     BaseTracer._emitPartial();
     return span;
   }
@@ -438,12 +815,14 @@ export abstract class BaseTracer {
    * Use this at the entry point of an inbound request (HTTP handler,
    * message queue consumer, RPC dispatcher, etc.) to join a trace
    * started by the upstream caller. If the carrier contains no trace
-   * context, `fn` still runs normally with a fresh context.
+   * context, `fn` still runs normally with a fresh context. For queue
+   * messages, whose attributes are not plain header dicts, use
+   * `messaging.consumer` instead.
    *
    * @param carrier - A mapping containing propagation headers. Typically
    *   `req.headers` from Node's `http`/Express/Fastify, but any dict-shaped
-   *   object with lowercase keys works (queue attributes, Lambda event
-   *   headers, RPC metadata, etc.).
+   *   object with lowercase keys works (Lambda event headers, RPC
+   *   metadata, etc.).
    * @param fn - Function to run inside the extracted context. Receives
    *   the extracted {@link Context} as its argument; most callers ignore
    *   it. Sync or async.
@@ -493,6 +872,12 @@ export abstract class BaseTracer {
    * Can be called with a function to wrap it directly, or with just options
    * to get a decorator (e.g. for TC39 decorator syntax).
    *
+   * Generator and async generator functions start their span on the first
+   * `next()` and keep it open until iteration finishes, recording the
+   * yielded items (up to 1000, then a count) as the output. The span only
+   * ends if the consumer finishes the generator or closes it with
+   * `return()`, as `break` in `for...of` does.
+   *
    * @param func - The function to wrap. Omit to get a decorator.
    * @param options - Optional observation options.
    * @returns The wrapped function, or a decorator if `func` is omitted.
@@ -546,13 +931,19 @@ export abstract class BaseTracer {
       recordInput = true,
       recordOutput = true,
       fork = false,
+      captureState,
+      recordStateDiff = false,
     } = options ?? {};
     const proxy = BaseTracer._getProxyProvider();
     const decorator = (
       innerFunc: (...args: TArgs) => TReturn,
     ): ((...args: TArgs) => TReturn) => {
       const name = spanName ?? innerFunc.name;
-      return function (this: unknown, ...args: TArgs): TReturn {
+      const observed = function (
+        this: unknown,
+        agentAttributes: Attributes | undefined,
+        args: TArgs,
+      ): TReturn {
         const otelTracer = proxy.getTracer(TRACER_NAME);
 
         const shouldFork =
@@ -575,6 +966,7 @@ export abstract class BaseTracer {
 
           // Linked-root span — root of a new trace
           const linkedRootAttrs: Attributes = {
+            ...agentAttributes,
             [AttributeKeys.JUDGMENT_LINK_SOURCE_TRACE_ID]:
               invocationCtx.traceId,
             [AttributeKeys.JUDGMENT_LINK_SOURCE_SPAN_ID]: invocationCtx.spanId,
@@ -602,7 +994,17 @@ export abstract class BaseTracer {
             linkedRootCtx.spanId,
           );
 
+          const finishState = captureState
+            ? BaseTracer._captureState(
+                [linkedRoot, invocationSpan],
+                captureState,
+                recordStateDiff,
+                this,
+                args,
+              )
+            : undefined;
           const endBoth = (): void => {
+            finishState?.();
             linkedRoot.end();
             invocationSpan.end();
           };
@@ -643,6 +1045,16 @@ export abstract class BaseTracer {
           return proxy.useSpan(linkedRoot, false, false, false, (): TReturn => {
             try {
               const result = innerFunc.call(this, ...args);
+              if (isGenerator(result)) {
+                return BaseTracer._wrapGenerator(
+                  result,
+                  recordErrorOnBoth,
+                  (items) => {
+                    if (recordOutput) recordOutputOnBoth(items);
+                    endBoth();
+                  },
+                ) as TReturn;
+              }
               if (result instanceof Promise) {
                 return (result as Promise<unknown>)
                   .then((res) => {
@@ -667,9 +1079,19 @@ export abstract class BaseTracer {
         }
 
         return otelTracer.startActiveSpan(name, (span) => {
+          if (agentAttributes) span.setAttributes(agentAttributes);
           if (spanType) {
             span.setAttribute(AttributeKeys.JUDGMENT_SPAN_KIND, spanType);
           }
+          const finishState = captureState
+            ? BaseTracer._captureState(
+                [span],
+                captureState,
+                recordStateDiff,
+                this,
+                args,
+              )
+            : undefined;
           try {
             if (recordInput) {
               span.setAttribute(
@@ -683,6 +1105,29 @@ export abstract class BaseTracer {
             BaseTracer._emitPartial();
             const result = innerFunc.call(this, ...args);
 
+            if (isGenerator(result)) {
+              return BaseTracer._wrapGenerator(
+                result,
+                (e) => {
+                  span.recordException(e as Error);
+                  span.setStatus({
+                    code: SpanStatusCode.ERROR,
+                    message: String(e),
+                  });
+                },
+                (items) => {
+                  if (recordOutput) {
+                    span.setAttribute(
+                      AttributeKeys.JUDGMENT_OUTPUT,
+                      serializeAttribute(items, BaseTracer._getSerializer()),
+                    );
+                  }
+                  finishState?.();
+                  span.end();
+                },
+              ) as TReturn;
+            }
+
             if (result instanceof Promise) {
               return (result as Promise<unknown>)
                 .then((res) => {
@@ -703,6 +1148,7 @@ export abstract class BaseTracer {
                   throw e;
                 })
                 .finally(() => {
+                  finishState?.();
                   span.end();
                 }) as TReturn;
             }
@@ -713,22 +1159,170 @@ export abstract class BaseTracer {
                 serializeAttribute(result, BaseTracer._getSerializer()),
               );
             }
+            finishState?.();
             span.end();
             return result;
           } catch (e) {
             span.recordException(e as Error);
             span.setStatus({ code: SpanStatusCode.ERROR, message: String(e) });
+            finishState?.();
             span.end();
             throw e;
           }
         });
       };
+
+      const wrapper = function (this: unknown, ...args: TArgs): TReturn {
+        const run = (): TReturn => {
+          // Methods of `Tracer.agent` classes run with the agent active so
+          // nested agents record it as their parent.
+          const agent = resolveAgentSpan(this, proxy.getCurrentContext());
+          if (!agent) return observed.call(this, undefined, args);
+          return proxy.withContext(agent.context, () =>
+            observed.call(this, agent.attributes, args),
+          );
+        };
+        // Generator bodies only run once iterated, so the span waits too.
+        if (isGeneratorFunction(innerFunc)) {
+          return BaseTracer._deferGenerator(innerFunc, run) as TReturn;
+        }
+        return run();
+      };
+      observedFunctions.add(wrapper);
+      return wrapper;
     };
 
     if (!func) return decorator;
     return decorator(func);
   }
 
+  /**
+   * Wrap every method of a class with {@link BaseTracer.observe}.
+   *
+   * Methods are collected from `ctor.prototype` and its ancestors (up to
+   * `Object.prototype`) and installed on `ctor.prototype`, so parent
+   * classes are left untouched. Span names default to `ClassName.method`.
+   * Methods that are already observed are skipped.
+   *
+   * @param ctor - The class to instrument.
+   * @param options - Observe options applied to every method, plus
+   *   include/exclude filters and per-method overrides.
+   * @returns `ctor`, for chaining.
+   *
+   * @example
+   * ```typescript
+   * Tracer.observeClass(SearchTools, {
+   *   spanType: "tool",
+   *   exclude: ["close"],
+   *   methods: { summarize: { spanType: "llm" } },
+   * });
+   * ```
+   */
+  static observeClass<T extends abstract new (...args: never[]) => unknown>(
+    ctor: T,
+    options?: ObserveClassOptions,
+  ): T {
+    BaseTracer._observeMethods(
+      ctor.prototype as object,
+      ctor.name,
+      options ?? {},
+    );
+    return ctor;
+  }
+
+  /**
+   * Wrap every method of an object with {@link BaseTracer.observe}.
+   *
+   * Covers the object's own function properties and the methods it
+   * inherits from its prototype chain. Wrapped methods are installed as
+   * own properties of `obj`, so shared prototypes are left untouched.
+   * Span names default to `ClassName.method`, or just `method` for plain
+   * objects.
+   *
+   * @param obj - The object to instrument.
+   * @param options - Observe options applied to every method, plus
+   *   include/exclude filters and per-method overrides.
+   * @returns `obj`, for chaining.
+   *
+   * @example
+   * ```typescript
+   * const tools = Tracer.observeObject(
+   *   { search, fetchPage },
+   *   { spanType: "tool" },
+   * );
+   * ```
+   */
+  static observeObject<T extends object>(
+    obj: T,
+    options?: ObserveClassOptions,
+  ): T {
+    const ctor = (obj as { constructor?: { name?: string } }).constructor;
+    const className = ctor && ctor !== Object ? ctor.name : undefined;
+    BaseTracer._observeMethods(obj, className, options ?? {});
+    return obj;
+  }
+
+  private static _observeMethods(
+    target: object,
+    className: string | undefined,
+    options: ObserveClassOptions,
+  ): void {
+    const { include, exclude, methods, ...defaults } = options;
+    for (const [key, descriptor] of collectMethods(target)) {
+      if (include && !include.includes(key)) continue;
+      if (exclude?.includes(key)) continue;
+      const method = descriptor.value as (...args: unknown[]) => unknown;
+      if (observedFunctions.has(method)) continue;
+
+      dontThrow(`BaseTracer.observeMethods(${key})`, () => {
+        Object.defineProperty(target, key, {
+          ...descriptor,
+          value: BaseTracer.observe(method, {
+            spanName: className ? `${className}.${key}` : key,
+            ...defaults,
+            ...methods?.[key],
+          }),
+        });
+      });
+    }
+  }
+
+  /**
+   * Class decorator that marks a class as an agent.
+   *
+   * Each instance gets its own agent id. Spans from `observe`d methods of
+   * the class record the agent id, class name, and (with `identifier`)
+   * instance name. The first agent method in a call chain is flagged as
+   * the agent's entry point, and agents invoked from within another
+   * agent record it as their parent, so multi-agent runs render as an
+   * agent hierarchy.
+   *
+   * @param options - Optional agent options.
+   * @returns A class decorator.
+   *
+   * @example
+   * ```typescript
+   * \@Tracer.agent({ identifier: "name" })
+   * class ResearchAgent {
+   *   constructor(public name: string) {}
+   *
+   *   \@Tracer.observe({ spanType: "agent" })
+   *   async run(task: string) { ... }
+   * }
+   * ```
+   */
+  static agent(
+    options?: AgentOptions,
+  ): <T extends abstract new (...args: never[]) => unknown>(
+    cls: T,
+    context?: unknown,
+  ) => T {
+    return (cls) => {
+      registerAgentClass(cls, options);
+      return cls;
+    };
+  }
+
   // ------------------------------------------------------------------ //
   //  Internal: resolve target span                                     //
   // ------------------------------------------------------------------ //
@@ -1030,6 +1624,9 @@ export abstract class BaseTracer {
   /**
    * Add tags to the current trace.
    *
+   * With `tailSampling` configured, tags are sent once the trace is kept,
+   * and never for dropped traces.
+   *
    * @param tags - A single tag string or an array of tag strings.
    *
    * @example
@@ -1049,13 +1646,27 @@ export abstract class BaseTracer {
       if (!ids) return;
       const [traceId] = ids;
       const tagArray = Array.isArray(tags) ? tags : [tags];
-      tracer._client
-        .postV1projectsTracesByTraceIdTags(tracer.projectId, traceId, {
-          tags: tagArray,
-        })
-        .catch((err: unknown) => {
-          Logger.error(`tag failed: ${String(err)}`);
-        });
+      const processor = tracer.getSpanProcessor();
+      const current = proxy.getCurrentSpan();
+      if (current) {
+        for (const tag of tagArray) {
+          processor.stateAppend(
+            current.spanContext(),
+            InternalAttributeKeys.TAGS,
+            tag,
+          );
+        }
+      }
+      const { _client: client, projectId } = tracer;
+      processor.whenTraceKept(traceId, () => {
+        client
+          .postV1projectsTracesByTraceIdTags(projectId, traceId, {
+            tags: tagArray,
+          })
+          .catch((err: unknown) => {
+            Logger.error(`tag failed: ${String(err)}`);
+          });
+      });
     });
   }
 
@@ -1133,6 +1744,55 @@ export abstract class BaseTracer {
       );
     });
   }
+
+  // ------------------------------------------------------------------ //
+  //  Static API: Manual Scores                                         //
+  // ------------------------------------------------------------------ //
+
+  /**
+   * Record a score computed in application code on a span or its trace.
+   *
+   * Use this for deterministic signals such as a test passing or a query
+   * executing. Scores are stored on the span in the same shape as judge
+   * results, under `judgment.scores` (or `judgment.trace_scores` when
+   * `trace` is set). Invalid scores are logged and skipped.
+   *
+   * @param options - Score name, value, reason, and optional score type.
+   * @param span - Target span. Defaults to the current active span.
+   *
+   * @example
+   * ```typescript
+   * Tracer.score({
+   *   name: "sql_executes",
+   *   value: true,
+   *   reason: "Query returned 12 rows",
+   * });
+   * ```
+   */
+  static score(options: ScoreOptions): void;
+  static score(options: ScoreOptions, span: Span): void;
+  static score(options: ScoreOptions, span?: Span): void {
+    dontThrow("BaseTracer.score", () => {
+      const tracer = BaseTracer._getProxyProvider().getActiveTracer();
+      if (!tracer) return;
+      const target = BaseTracer._resolveSpan(span);
+      if (!target?.isRecording()) return;
+      const scorerData = toScorerData(options);
+      if (!scorerData) return;
+
+      const [stateKey, attributeKey] = options.trace
+        ? [
+            InternalAttributeKeys.TRACE_SCORES,
+            AttributeKeys.JUDGMENT_TRACE_SCORES,
+          ]
+        : [InternalAttributeKeys.SCORES, AttributeKeys.JUDGMENT_SCORES];
+      const updated = tracer
+        .getSpanProcessor()
+        .stateAppend(target.spanContext(), stateKey, scorerData);
+      // Raw setAttribute — value is already JSON-stringified, BaseTracer.setAttribute would double-serialize.
+      target.setAttribute(attributeKey, JSON.stringify(updated));
+    });
+  }
 }
 
 function getInputs<TArgs extends unknown[]>(
@@ -1159,3 +1819,49 @@ function getInputs<TArgs extends unknown[]>(
     return {};
   }
 }
+
+function isAsyncGenerator(value: unknown): value is AsyncGenerator {
+  return Object.prototype.toString.call(value) === "[object AsyncGenerator]";
+}
+
+function isAsyncGeneratorFunction(fn: unknown): boolean {
+  return (
+    Object.prototype.toString.call(fn) === "[object AsyncGeneratorFunction]"
+  );
+}
+
+function isGeneratorFunction(fn: unknown): boolean {
+  return (
+    isAsyncGeneratorFunction(fn) ||
+    Object.prototype.toString.call(fn) === "[object GeneratorFunction]"
+  );
+}
+
+function isGenerator(value: unknown): value is Generator | AsyncGenerator {
+  return (
+    isAsyncGenerator(value) ||
+    Object.prototype.toString.call(value) === "[object Generator]"
+  );
+}
+
+/**
+ * Collect the methods of `obj` and its prototype chain, nearest first,
+ * excluding constructors, accessors, and `Object.prototype` members.
+ */
+function collectMethods(obj: object): Map<string, PropertyDescriptor> {
+  const found = new Map<string, PropertyDescriptor>();
+  const seen = new Set<string>(["constructor"]);
+  let current: object | null = obj;
+  while (current && current !== Object.prototype) {
+    for (const key of Object.getOwnPropertyNames(current)) {
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const descriptor = Object.getOwnPropertyDescriptor(current, key);
+      if (typeof descriptor?.value === "function") {
+        found.set(key, descriptor);
+      }
+    }
+    current = Object.getPrototypeOf(current) as object | null;
+  }
+  return found;
+}
@@ -15,6 +15,7 @@ import { JudgmentTracerProvider } from "./JudgmentTracerProvider";
 import { Tracer } from "./Tracer";
 import { JudgmentSpanExporter } from "./exporters/JudgmentSpanExporter";
 import { OfflineJudgmentSpanProcessor } from "./processors/OfflineJudgmentSpanProcessor";
+import { type RedactionRule, Redactor } from "./redaction";
 
 const OFFLINE_TRACES_PATH = "otel/v1/offline-traces";
 
@@ -51,6 +52,10 @@ export interface OfflineTracerConfig {
   spanLimits?: SpanLimits;
   /** Additional OpenTelemetry span processors. */
   spanProcessors?: SpanProcessor[];
+  /** Redaction rules applied to span attributes before export. */
+  redact?: readonly RedactionRule[];
+  /** Maximum size of a string attribute in UTF-8 bytes. Defaults to 256 KiB. */
+  maxAttributeBytes?: number;
 }
 
 /**
@@ -198,6 +203,12 @@ export class OfflineTracer extends Tracer {
       dataset: config.dataset,
       exampleFields: { ...(config.exampleFields ?? {}) },
     });
+    if (config.redact) {
+      tracer._redactor = new Redactor(config.redact);
+    }
+    if (config.maxAttributeBytes !== undefined) {
+      tracer._maxAttributeBytes = config.maxAttributeBytes;
+    }
 
     const providerWithProcessor = new NodeTracerProvider({
       resource,
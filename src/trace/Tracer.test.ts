@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BaseTracer } from "./BaseTracer";
+import { JudgmentTracerProvider } from "./JudgmentTracerProvider";
+import { Tracer } from "./Tracer";
+
+const originalFetch = globalThis.fetch;
+
+describe("Tracer.init", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "judgeval-tracer-"));
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("queues spans when the project cannot be resolved", async () => {
+    let resolveAttempts = 0;
+    const uploads: (string | null)[] = [];
+    globalThis.fetch = ((input: string, init: RequestInit) => {
+      if (input.endsWith("/v1/projects/resolve/")) {
+        // Down for every attempt made during init.
+        if (++resolveAttempts <= 3) {
+          return Promise.resolve(new Response("", { status: 503 }));
+        }
+        return Promise.resolve(Response.json({ project_id: "proj-1" }));
+      }
+      uploads.push(new Headers(init.headers).get("X-Project-Id"));
+      return Promise.resolve(new Response("", { status: 503 }));
+    }) as typeof fetch;
+
+    const tracer = await Tracer.init({
+      projectName: "offline/app",
+      apiKey: "key",
+      organizationId: "org",
+      apiUrl: "https://api.test",
+      exportQueue: { directory, initialBackoffMs: 60_000 },
+    });
+    try {
+      expect(tracer.projectId).toBeNull();
+      BaseTracer.span("work", () => undefined);
+      await tracer.getSpanProcessor().forceFlush();
+
+      const queue = join(directory, "org", "offline%2Fapp");
+      expect(await readdir(queue)).toHaveLength(1);
+
+      await tracer.getSpanExporter().shutdown();
+      expect(tracer.projectId).toBe("proj-1");
+      expect(uploads).toContain("proj-1");
+      expect(await readdir(queue)).toHaveLength(1);
+    } finally {
+      JudgmentTracerProvider.getInstance().deregister(tracer);
+    }
+  }, 15_000);
+});
@@ -2,6 +2,10 @@ import {
   defaultResource,
   resourceFromAttributes,
 } from "@opentelemetry/resources";
+import {
+  SimpleSpanProcessor,
+  type SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
 import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
 import { JUDGMENT_API_KEY, JUDGMENT_API_URL, JUDGMENT_ORG_ID } from "../env";
 import { JudgmentApiClient } from "../internal/api";
@@ -12,10 +16,27 @@ import { VERSION } from "../version";
 import type { TracerConfig } from "./BaseTracer";
 import { BaseTracer } from "./BaseTracer";
 import { JudgmentTracerProvider } from "./JudgmentTracerProvider";
+import { ConsoleTreeExporter } from "./exporters/ConsoleTreeExporter";
+import {
+  FileSpanExporter,
+  type FileSpanExporterOptions,
+} from "./exporters/FileSpanExporter";
 import { JudgmentSpanExporter } from "./exporters/JudgmentSpanExporter";
 import { NoOpSpanExporter } from "./exporters/NoOpSpanExporter";
+import {
+  type ExportQueueOptions,
+  PersistentSpanExporter,
+} from "./exporters/PersistentSpanExporter";
 import { JudgmentSpanProcessor } from "./processors/JudgmentSpanProcessor";
 import { NoOpSpanProcessor } from "./processors/NoOpSpanProcessor";
+import { TailSamplingSpanProcessor } from "./processors/TailSamplingSpanProcessor";
+import { Redactor } from "./redaction";
+import {
+  type LambdaContextLike,
+  type LambdaHandler,
+  type WrapHandlerOptions,
+  wrapLambdaHandler,
+} from "./serverless";
 
 /**
  * Concrete tracer implementation for Node.js applications.
@@ -41,6 +62,8 @@ import { NoOpSpanProcessor } from "./processors/NoOpSpanProcessor";
 export class Tracer extends BaseTracer {
   private _spanExporter: JudgmentSpanExporter | null = null;
   private _spanProcessor: JudgmentSpanProcessor | null = null;
+  private _exportQueue: ExportQueueOptions | null = null;
+  private _fileExporter: FileSpanExporterOptions | null = null;
 
   protected constructor(
     projectName: string | null,
@@ -92,36 +115,52 @@ export class Tracer extends BaseTracer {
     const projectName = config.projectName ?? null;
     const serializer = config.serializer ?? safeStringify;
 
+    // The file exporter writes spans locally and needs no credentials.
+    const fileMode = config.exporter === "file";
     let enableMonitoring = true;
 
-    if (!projectName) {
-      Logger.warning(
-        "project_name not provided. Tracer will not export spans.",
-      );
-      enableMonitoring = false;
-    }
-    if (!apiKey) {
-      Logger.warning("api_key not provided. Tracer will not export spans.");
-      enableMonitoring = false;
-    }
-    if (!organizationId) {
-      Logger.warning(
-        "organization_id not provided. Tracer will not export spans.",
-      );
-      enableMonitoring = false;
-    }
-    if (!apiUrl) {
-      Logger.warning("api_url not provided. Tracer will not export spans.");
-      enableMonitoring = false;
+    if (!fileMode) {
+      if (!projectName) {
+        Logger.warning(
+          "project_name not provided. Tracer will not export spans.",
+        );
+        enableMonitoring = false;
+      }
+      if (!apiKey) {
+        Logger.warning("api_key not provided. Tracer will not export spans.");
+        enableMonitoring = false;
+      }
+      if (!organizationId) {
+        Logger.warning(
+          "organization_id not provided. Tracer will not export spans.",
+        );
+        enableMonitoring = false;
+      }
+      if (!apiUrl) {
+        Logger.warning("api_url not provided. Tracer will not export spans.");
+        enableMonitoring = false;
+      }
     }
 
     let client: JudgmentApiClient | null = null;
     let projectId: string | null = null;
 
-    if (enableMonitoring && projectName && apiKey && organizationId && apiUrl) {
+    if (
+      !fileMode &&
+      enableMonitoring &&
+      projectName &&
+      apiKey &&
+      organizationId &&
+      apiUrl
+    ) {
       client = new JudgmentApiClient(apiUrl, apiKey, organizationId);
       projectId = await resolveProjectId(client, projectName).catch(() => null);
-      if (!projectId) {
+      if (!projectId && config.exportQueue) {
+        // The queue uploads once the project resolves.
+        Logger.warning(
+          `Project '${projectName}' could not be resolved. Spans will be queued until it is.`,
+        );
+      } else if (!projectId) {
         Logger.warning(
           `Project '${projectName}' not found. Tracer will not export spans.`,
         );
@@ -145,10 +184,20 @@ export class Tracer extends BaseTracer {
       resourceFromAttributes(resourceAttrs),
     );
 
+    // Printed with or without credentials, so local runs show traces too.
+    const debugProcessors: SpanProcessor[] = config.debug
+      ? [
+          new SimpleSpanProcessor(
+            new ConsoleTreeExporter({ redact: config.redact }),
+          ),
+        ]
+      : [];
+
     const tracerProvider = new NodeTracerProvider({
       resource,
       sampler: config.sampler,
       spanLimits: config.spanLimits,
+      spanProcessors: debugProcessors,
     });
 
     const tracer = new Tracer(
@@ -163,6 +212,15 @@ export class Tracer extends BaseTracer {
       client,
       enableMonitoring,
     );
+    if (config.redact) {
+      tracer._redactor = new Redactor(config.redact);
+    }
+    if (config.maxAttributeBytes !== undefined) {
+      tracer._maxAttributeBytes = config.maxAttributeBytes;
+    }
+    tracer._tailSampling = config.tailSampling ?? null;
+    tracer._exportQueue = config.exportQueue ?? null;
+    tracer._fileExporter = fileMode ? (config.fileExporter ?? {}) : null;
 
     if (enableMonitoring) {
       const providerWithProcessor = new NodeTracerProvider({
@@ -171,6 +229,7 @@ export class Tracer extends BaseTracer {
         spanLimits: config.spanLimits,
         spanProcessors: [
           tracer.getSpanProcessor(),
+          ...debugProcessors,
           ...(config.spanProcessors ?? []),
         ],
       });
@@ -187,6 +246,42 @@ export class Tracer extends BaseTracer {
     return tracer;
   }
 
+  /**
+   * Wrap an AWS Lambda handler so each invocation runs in a root span and
+   * its spans are exported before the runtime freezes.
+   *
+   * The span continues the trace carried by the event: request headers
+   * for API Gateway, ALB, and function URL events, the first message
+   * attributes with a context for SQS batches, and the `detail` of
+   * EventBridge events. The first invocation in each execution
+   * environment is marked with `faas.coldstart`.
+   *
+   * After the handler settles, pending spans are flushed before the
+   * response is returned, giving up once `flushTimeoutMs` passes or the
+   * invocation is about to time out. Only async (or sync) handlers are
+   * supported, not callback-style ones.
+   *
+   * @param handler - The Lambda handler to wrap.
+   * @param options - Flush limits, and headers to read IDs from.
+   * @returns The wrapped handler.
+   *
+   * @example
+   * ```typescript
+   * await Tracer.init({ projectName: "my-project" });
+   *
+   * export const handler = Tracer.wrapHandler(async (event: APIGatewayProxyEventV2) => {
+   *   const answer = await agent(JSON.parse(event.body ?? "{}"));
+   *   return { statusCode: 200, body: JSON.stringify(answer) };
+   * });
+   * ```
+   */
+  static wrapHandler<TEvent, TResult, TContext extends LambdaContextLike>(
+    handler: LambdaHandler<TEvent, TResult, TContext>,
+    options?: WrapHandlerOptions,
+  ): (event: TEvent, context: TContext) => Promise<TResult> {
+    return wrapLambdaHandler(handler, options);
+  }
+
   /**
    * Get or create the span exporter for this tracer.
    *
@@ -195,9 +290,12 @@ export class Tracer extends BaseTracer {
   getSpanExporter(): JudgmentSpanExporter {
     if (this._spanExporter) return this._spanExporter;
 
-    if (
+    if (this._fileExporter) {
+      this._spanExporter = new FileSpanExporter(this._fileExporter);
+    } else if (
       !this._enableMonitoring ||
-      !this.projectId ||
+      !this.projectName ||
+      !this._client ||
       !this.apiKey ||
       !this.organizationId ||
       !this.apiUrl
@@ -207,12 +305,29 @@ export class Tracer extends BaseTracer {
       const endpoint = this.apiUrl.endsWith("/")
         ? this.apiUrl + "otel/v1/traces"
         : this.apiUrl + "/otel/v1/traces";
-      this._spanExporter = new JudgmentSpanExporter(
-        endpoint,
-        this.apiKey,
-        this.organizationId,
-        this.projectId,
-      );
+      const { _client: client, projectName } = this;
+      if (this._exportQueue) {
+        this._spanExporter = new PersistentSpanExporter(
+          endpoint,
+          this.apiKey,
+          this.organizationId,
+          projectName,
+          async () => {
+            this.projectId ??= await resolveProjectId(client, projectName);
+            return this.projectId;
+          },
+          this._exportQueue,
+        );
+      } else if (this.projectId) {
+        this._spanExporter = new JudgmentSpanExporter(
+          endpoint,
+          this.apiKey,
+          this.organizationId,
+          this.projectId,
+        );
+      } else {
+        this._spanExporter = new NoOpSpanExporter();
+      }
     }
     return this._spanExporter;
   }
@@ -227,6 +342,12 @@ export class Tracer extends BaseTracer {
 
     if (!this._enableMonitoring) {
       this._spanProcessor = new NoOpSpanProcessor();
+    } else if (this._tailSampling) {
+      this._spanProcessor = new TailSamplingSpanProcessor(
+        this,
+        this.getSpanExporter(),
+        this._tailSampling,
+      );
     } else {
       this._spanProcessor = new JudgmentSpanProcessor(
         this,
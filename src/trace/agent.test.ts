@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+import { BaseTracer } from "./BaseTracer";
+import { NoOpSpanExporter } from "./exporters/NoOpSpanExporter";
+import type { JudgmentSpanExporter } from "./exporters/JudgmentSpanExporter";
+import { JudgmentTracerProvider } from "./JudgmentTracerProvider";
+import { NoOpSpanProcessor } from "./processors/NoOpSpanProcessor";
+import type { JudgmentSpanProcessor } from "./processors/JudgmentSpanProcessor";
+
+class FakeTracer extends BaseTracer {
+  constructor(provider: BasicTracerProvider) {
+    super(
+      "test-project",
+      "test-project-id",
+      "test-key",
+      "test-org",
+      "https://example.com",
+      null,
+      (v) => String(v),
+      provider,
+      null,
+      false,
+    );
+  }
+
+  getSpanProcessor(): JudgmentSpanProcessor {
+    return new NoOpSpanProcessor() as unknown as JudgmentSpanProcessor;
+  }
+
+  getSpanExporter(): JudgmentSpanExporter {
+    return new NoOpSpanExporter();
+  }
+}
+
+class Researcher {
+  constructor(public name: string) {}
+
+  search(query: string): string {
+    return `results for ${query}`;
+  }
+}
+Researcher.prototype.search = BaseTracer.observe(Researcher.prototype.search);
+BaseTracer.agent({ identifier: "name" })(Researcher);
+
+class Planner {
+  constructor(private researcher: Researcher) {}
+
+  plan(goal: string): string {
+    return this.draft(this.researcher.search(goal));
+  }
+
+  draft(notes: string): string {
+    return `plan from ${notes}`;
+  }
+}
+Planner.prototype.plan = BaseTracer.observe(Planner.prototype.plan);
+Planner.prototype.draft = BaseTracer.observe(Planner.prototype.draft);
+BaseTracer.agent()(Planner);
+
+describe("Tracer.agent", () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: FakeTracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new FakeTracer(
+      new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+      }),
+    );
+    const proxy = JudgmentTracerProvider.getInstance();
+    proxy.register(tracer);
+    proxy.setActive(tracer);
+  });
+
+  afterEach(() => {
+    JudgmentTracerProvider.getInstance().deregister(tracer);
+  });
+
+  function spansByName(): Record<string, ReadableSpan> {
+    return Object.fromEntries(
+      exporter.getFinishedSpans().map((s) => [s.name, s]),
+    );
+  }
+
+  test("records agent identity and hierarchy", () => {
+    const planner = new Planner(new Researcher("scout"));
+    planner.plan("flights");
+
+    const { plan, draft, search } = spansByName();
+    const plannerId = plan.attributes[AttributeKeys.JUDGMENT_AGENT_ID];
+    expect(typeof plannerId).toBe("string");
+    expect(plan.attributes[AttributeKeys.JUDGMENT_AGENT_CLASS_NAME]).toBe(
+      "Planner",
+    );
+    expect(plan.attributes[AttributeKeys.JUDGMENT_IS_AGENT_ENTRY_POINT]).toBe(
+      true,
+    );
+    expect(
+      plan.attributes[AttributeKeys.JUDGMENT_PARENT_AGENT_ID],
+    ).toBeUndefined();
+
+    expect(draft.attributes[AttributeKeys.JUDGMENT_AGENT_ID]).toBe(plannerId);
+    expect(draft.attributes[AttributeKeys.JUDGMENT_IS_AGENT_ENTRY_POINT]).toBe(
+      false,
+    );
+
+    expect(search.attributes[AttributeKeys.JUDGMENT_AGENT_ID]).not.toBe(
+      plannerId,
+    );
+    expect(search.attributes[AttributeKeys.JUDGMENT_PARENT_AGENT_ID]).toBe(
+      plannerId,
+    );
+    expect(search.attributes[AttributeKeys.JUDGMENT_AGENT_CLASS_NAME]).toBe(
+      "Researcher",
+    );
+    expect(search.attributes[AttributeKeys.JUDGMENT_AGENT_INSTANCE_NAME]).toBe(
+      "scout",
+    );
+    expect(search.attributes[AttributeKeys.JUDGMENT_IS_AGENT_ENTRY_POINT]).toBe(
+      true,
+    );
+  });
+
+  test("assigns a stable id per instance", () => {
+    const researcher = new Researcher("scout");
+    researcher.search("a");
+    researcher.search("b");
+    new Researcher("other").search("c");
+
+    const ids = exporter
+      .getFinishedSpans()
+      .map((s) => s.attributes[AttributeKeys.JUDGMENT_AGENT_ID]);
+    expect(ids[0]).toBe(ids[1]);
+    expect(ids[2]).not.toBe(ids[0]);
+  });
+
+  test("leaves non-agent functions untouched", () => {
+    BaseTracer.observe(function helper() {
+      return 1;
+    })();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.attributes[AttributeKeys.JUDGMENT_AGENT_ID]).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  type Attributes,
+  type Context,
+  createContextKey,
+} from "@opentelemetry/api";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+
+/**
+ * Options for {@link BaseTracer.agent}.
+ */
+export interface AgentOptions {
+  /**
+   * Name of an instance property whose value is recorded as the agent's
+   * instance name (e.g. `"name"` for `this.name`).
+   */
+  identifier?: string;
+}
+
+interface AgentClassInfo {
+  className: string;
+  identifier?: string;
+}
+
+interface AgentFrame {
+  agentId: string;
+  parentAgentId?: string;
+}
+
+/** Attributes and context for a span started by an agent method. */
+export interface AgentSpanInfo {
+  attributes: Attributes;
+  context: Context;
+}
+
+const AGENT_KEY = createContextKey("judgment.agent");
+
+const _agentClasses = new WeakMap<object, AgentClassInfo>();
+const _agentIds = new WeakMap<object, string>();
+
+/** Register `cls` as an agent class. Subclasses inherit the registration. */
+export function registerAgentClass(cls: object, options?: AgentOptions): void {
+  _agentClasses.set(cls, {
+    className: (cls as { name?: string }).name ?? "",
+    identifier: options?.identifier,
+  });
+}
+
+function findAgentClass(instance: object): AgentClassInfo | undefined {
+  let proto = Object.getPrototypeOf(instance) as object | null;
+  while (proto) {
+    const info = _agentClasses.get(
+      (proto as { constructor: object }).constructor,
+    );
+    if (info) return info;
+    proto = Object.getPrototypeOf(proto) as object | null;
+  }
+  return undefined;
+}
+
+function agentIdFor(instance: object): string {
+  let id = _agentIds.get(instance);
+  if (!id) {
+    id = crypto.randomUUID();
+    _agentIds.set(instance, id);
+  }
+  return id;
+}
+
+/**
+ * Resolve agent attributes for a method called on `instance`.
+ *
+ * The first agent method in a call chain is the agent's entry point; its
+ * parent is the agent active in `ctx`, if any. Nested calls on the same
+ * agent keep the entry point's parent. Returns `undefined` when
+ * `instance` is not an agent.
+ */
+export function resolveAgentSpan(
+  instance: unknown,
+  ctx: Context,
+): AgentSpanInfo | undefined {
+  if (typeof instance !== "object" || instance === null) return undefined;
+  const info = findAgentClass(instance);
+  if (!info) return undefined;
+
+  const agentId = agentIdFor(instance);
+  const active = ctx.getValue(AGENT_KEY) as AgentFrame | undefined;
+  const isEntryPoint = active?.agentId !== agentId;
+  const frame: AgentFrame = isEntryPoint
+    ? { agentId, parentAgentId: active?.agentId }
+    : active;
+
+  const attributes: Attributes = {
+    [AttributeKeys.JUDGMENT_AGENT_ID]: agentId,
+    [AttributeKeys.JUDGMENT_AGENT_CLASS_NAME]: info.className,
+    [AttributeKeys.JUDGMENT_IS_AGENT_ENTRY_POINT]: isEntryPoint,
+  };
+  if (frame.parentAgentId) {
+    attributes[AttributeKeys.JUDGMENT_PARENT_AGENT_ID] = frame.parentAgentId;
+  }
+  if (info.identifier) {
+    const instanceName = (instance as Record<string, unknown>)[info.identifier];
+    if (instanceName !== undefined && instanceName !== null) {
+      attributes[AttributeKeys.JUDGMENT_AGENT_INSTANCE_NAME] =
+        String(instanceName);
+    }
+  }
+
+  return {
+    attributes,
+    context: isEntryPoint ? ctx.setValue(AGENT_KEY, frame) : ctx,
+  };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import { SpanStatusCode, context, trace } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import {
+  ConsoleTreeExporter,
+  type ConsoleTreeExporterOptions,
+} from "./ConsoleTreeExporter";
+
+function setup(options: ConsoleTreeExporterOptions = {}) {
+  const lines: string[] = [];
+  const exporter = new ConsoleTreeExporter({
+    colors: false,
+    maxValueLength: 20,
+    write: (line) => lines.push(line),
+    ...options,
+  });
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  return { lines, tracer: provider.getTracer("test") };
+}
+
+describe("ConsoleTreeExporter", () => {
+  test("prints a completed trace as a tree once its root ends", () => {
+    const { lines, tracer } = setup();
+    const root = tracer.startSpan("agent", {
+      attributes: {
+        [AttributeKeys.JUDGMENT_SPAN_KIND]: "agent",
+        [AttributeKeys.JUDGMENT_INPUT]:
+          '{"question":\n"what is the weather today?"}',
+      },
+    });
+    const ctx = trace.setSpan(context.active(), root);
+    tracer
+      .startSpan(
+        "chat",
+        {
+          attributes: {
+            [AttributeKeys.JUDGMENT_SPAN_KIND]: "llm",
+            [AttributeKeys.JUDGMENT_LLM_MODEL_NAME]: "gpt-4o",
+            [AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS]: 100,
+            [AttributeKeys.JUDGMENT_USAGE_CACHE_READ_INPUT_TOKENS]: 20,
+            [AttributeKeys.JUDGMENT_USAGE_OUTPUT_TOKENS]: 30,
+            [AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD]: 0.0015,
+          },
+        },
+        ctx,
+      )
+      .end();
+    const tool = tracer.startSpan("search", {}, ctx);
+    tool.setStatus({ code: SpanStatusCode.ERROR, message: "timeout" });
+    tool.end();
+    expect(lines).toEqual([]);
+
+    root.end();
+    const text = lines.join("\n").replace(/\d+ms/g, "Nms");
+    expect(text).toBe(
+      [
+        `Trace ${root.spanContext().traceId} 3 spans · Nms · $0.0015`,
+        "└─ agent [agent] Nms",
+        '   │  in: {"question": "what i…',
+        "   ├─ chat [llm] Nms gpt-4o 120→30 tokens $0.0015",
+        "   └─ search Nms ✗ timeout",
+      ].join("\n"),
+    );
+  });
+
+  test("prints each trace separately", () => {
+    const { lines, tracer } = setup();
+    tracer.startSpan("first").end();
+    tracer.startSpan("second").end();
+    expect(lines.filter((line) => line.startsWith("Trace"))).toHaveLength(2);
+  });
+
+  test("redacts input, output, and status messages with the given rules", () => {
+    const { lines, tracer } = setup({
+      maxValueLength: 80,
+      redact: [{ name: "email", pattern: /\S+@\S+/ }],
+    });
+    const span = tracer.startSpan("agent", {
+      attributes: { [AttributeKeys.JUDGMENT_INPUT]: "from ann@example.com" },
+    });
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: "no user ann@example.com",
+    });
+    span.end();
+
+    const text = lines.join("\n");
+    expect(text).not.toContain("ann@example.com");
+    expect(text).toContain("✗ no user [REDACTED]");
+    expect(text).toContain("in: from [REDACTED]");
+  });
+});
@@ -0,0 +1,230 @@
+import { SpanStatusCode } from "@opentelemetry/api";
+import {
+  ExportResultCode,
+  hrTimeToMilliseconds,
+  type ExportResult,
+} from "@opentelemetry/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import pc from "picocolors";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import { type RedactionRule, Redactor } from "../redaction";
+
+/**
+ * Options for {@link ConsoleTreeExporter}.
+ */
+export interface ConsoleTreeExporterOptions {
+  /** Maximum characters of input and output shown per span. Defaults to `80`. */
+  maxValueLength?: number;
+  /** Whether to color the output. Defaults to terminal color support. */
+  colors?: boolean;
+  /** Receives each printed line. Defaults to `console.log`. */
+  write?: (line: string) => void;
+  /** Maximum number of incomplete traces buffered. Defaults to `1000`. */
+  maxTraces?: number;
+  /**
+   * Redaction rules applied before printing, as in `TracerConfig.redact`.
+   * `Tracer.init({ debug: true })` passes the tracer's rules.
+   */
+  redact?: readonly RedactionRule[];
+}
+
+function isLocalRoot(span: ReadableSpan): boolean {
+  return !span.parentSpanContext || span.parentSpanContext.isRemote === true;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function numberAttribute(span: ReadableSpan, key: string): number | undefined {
+  const value = span.attributes[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Span exporter that prints each completed trace to the console as an
+ * indented tree, with span kind, duration, model, tokens, cost, and
+ * truncated input and output.
+ *
+ * Spans are buffered per trace and printed when the trace's local root
+ * span arrives; spans that end after their root are not shown. Enable it
+ * with `Tracer.init({ debug: true })`, or register it yourself with
+ * `spanProcessors: [new SimpleSpanProcessor(new ConsoleTreeExporter())]`.
+ */
+export class ConsoleTreeExporter implements SpanExporter {
+  private readonly _maxValueLength: number;
+  private readonly _colors: ReturnType<typeof pc.createColors>;
+  private readonly _write: (line: string) => void;
+  private readonly _maxTraces: number;
+  private readonly _redactor: Redactor | null;
+  private readonly _pending = new Map<string, ReadableSpan[]>();
+
+  constructor(options: ConsoleTreeExporterOptions = {}) {
+    this._maxValueLength = options.maxValueLength ?? 80;
+    this._colors = pc.createColors(options.colors ?? pc.isColorSupported);
+    this._write =
+      options.write ??
+      ((line) => {
+        console.log(line);
+      });
+    this._maxTraces = options.maxTraces ?? 1000;
+    this._redactor = options.redact ? new Redactor(options.redact) : null;
+  }
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    try {
+      for (const span of spans.map((s) => this._redact(s))) {
+        const traceId = span.spanContext().traceId;
+        const trace = this._pending.get(traceId) ?? [];
+        trace.push(span);
+        this._pending.set(traceId, trace);
+        if (isLocalRoot(span)) {
+          this._pending.delete(traceId);
+          this._printTrace(span, trace);
+        }
+      }
+      while (this._pending.size > this._maxTraces) {
+        const [oldest] = this._pending.keys();
+        this._pending.delete(oldest);
+      }
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+
+  shutdown(): Promise<void> {
+    this._pending.clear();
+    return Promise.resolve();
+  }
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /** A view of `span` with its attributes, events, and status redacted. */
+  private _redact(span: ReadableSpan): ReadableSpan {
+    const redacted = this._redactor?.redactSpan(span);
+    if (!redacted || redacted === span) return span;
+    const view = Object.create(span) as ReadableSpan;
+    for (const [key, value] of Object.entries(redacted)) {
+      Object.defineProperty(view, key, { value, writable: false });
+    }
+    return view;
+  }
+
+  private _printTrace(root: ReadableSpan, spans: ReadableSpan[]): void {
+    const c = this._colors;
+    const children = new Map<string, ReadableSpan[]>();
+    for (const span of spans) {
+      const parentId = span.parentSpanContext?.spanId;
+      if (span === root || !parentId) continue;
+      const siblings = children.get(parentId) ?? [];
+      siblings.push(span);
+      children.set(parentId, siblings);
+    }
+    for (const siblings of children.values()) {
+      siblings.sort(
+        (a, b) =>
+          a.startTime[0] - b.startTime[0] || a.startTime[1] - b.startTime[1],
+      );
+    }
+
+    let totalCost = 0;
+    for (const span of spans) {
+      totalCost +=
+        numberAttribute(span, AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD) ?? 0;
+    }
+    const summary = [
+      `${spans.length} ${spans.length === 1 ? "span" : "spans"}`,
+      formatDuration(hrTimeToMilliseconds(root.duration)),
+      ...(totalCost > 0 ? [formatCost(totalCost)] : []),
+    ];
+    this._write(
+      `${c.bold("Trace")} ${c.dim(root.spanContext().traceId)} ${c.dim(summary.join(" · "))}`,
+    );
+
+    const visit = (span: ReadableSpan, prefix: string, last: boolean) => {
+      const branch = last ? "└─ " : "├─ ";
+      this._write(`${c.dim(prefix + branch)}${this._formatSpan(span)}`);
+      const nested = prefix + (last ? "   " : "│  ");
+      const kids = children.get(span.spanContext().spanId) ?? [];
+      const gutter = nested + (kids.length > 0 ? "│  " : "   ");
+      for (const detail of this._formatValues(span)) {
+        this._write(`${c.dim(gutter)}${detail}`);
+      }
+      kids.forEach((kid, i) => visit(kid, nested, i === kids.length - 1));
+    };
+    visit(root, "", true);
+  }
+
+  private _formatSpan(span: ReadableSpan): string {
+    const c = this._colors;
+    const failed = span.status.code === SpanStatusCode.ERROR;
+    const parts = [failed ? c.red(c.bold(span.name)) : c.bold(span.name)];
+
+    const kind = span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND];
+    if (typeof kind === "string") parts.push(c.cyan(`[${kind}]`));
+    parts.push(c.dim(formatDuration(hrTimeToMilliseconds(span.duration))));
+
+    const model = span.attributes[AttributeKeys.JUDGMENT_LLM_MODEL_NAME];
+    if (typeof model === "string") parts.push(c.magenta(model));
+
+    const inputTokens = [
+      AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS,
+      AttributeKeys.JUDGMENT_USAGE_CACHE_READ_INPUT_TOKENS,
+      AttributeKeys.JUDGMENT_USAGE_CACHE_CREATION_INPUT_TOKENS,
+    ].reduce<number | undefined>((sum, key) => {
+      const value = numberAttribute(span, key);
+      return value === undefined ? sum : (sum ?? 0) + value;
+    }, undefined);
+    const outputTokens = numberAttribute(
+      span,
+      AttributeKeys.JUDGMENT_USAGE_OUTPUT_TOKENS,
+    );
+    if (inputTokens !== undefined || outputTokens !== undefined) {
+      parts.push(c.yellow(`${inputTokens ?? 0}→${outputTokens ?? 0} tokens`));
+    }
+    const cost = numberAttribute(
+      span,
+      AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD,
+    );
+    if (cost !== undefined) parts.push(c.green(formatCost(cost)));
+
+    if (failed) {
+      parts.push(c.red(`✗ ${span.status.message ?? "error"}`));
+    }
+    return parts.join(" ");
+  }
+
+  private _formatValues(span: ReadableSpan): string[] {
+    const c = this._colors;
+    const lines: string[] = [];
+    for (const [label, key] of [
+      ["in", AttributeKeys.JUDGMENT_INPUT],
+      ["out", AttributeKeys.JUDGMENT_OUTPUT],
+    ] as const) {
+      const value = span.attributes[key];
+      if (value === undefined) continue;
+      lines.push(`${c.dim(`${label}:`)} ${this._truncate(String(value))}`);
+    }
+    return lines;
+  }
+
+  private _truncate(value: string): string {
+    const flat = value.replace(/\s+/g, " ").trim();
+    return flat.length > this._maxValueLength
+      ? `${flat.slice(0, this._maxValueLength)}…`
+      : flat;
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
+import { join } from "path";
+import { Logger } from "../../utils/logger";
+
+const SEGMENT_SUFFIX = ".seg";
+const TEMP_SUFFIX = ".tmp";
+
+function isNotFound(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === "ENOENT";
+}
+
+/**
+ * FIFO queue of byte payloads stored as one segment file each in a
+ * directory.
+ *
+ * Segments are written to a temporary file and renamed into place, so a
+ * crash mid-write never leaves a truncated segment behind. When the total
+ * size exceeds `maxBytes`, the oldest segments are deleted. Segment names
+ * include a random ID per queue, so queues in different processes that
+ * share a directory never overwrite each other's segments.
+ */
+export class DiskQueue {
+  /** Segment file names mapped to their size, oldest first. */
+  private readonly _segments = new Map<string, number>();
+  private _bytes = 0;
+  private _sequence = 0;
+  private readonly _instanceId = crypto.randomUUID().slice(0, 8);
+
+  constructor(
+    readonly directory: string,
+    private readonly _maxBytes: number,
+  ) {}
+
+  /** Create the directory and load segments left by earlier processes. */
+  async open(): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const names = (await readdir(this.directory)).sort();
+    for (const name of names) {
+      const path = join(this.directory, name);
+      if (name.endsWith(TEMP_SUFFIX)) {
+        await rm(path, { force: true });
+      } else if (name.endsWith(SEGMENT_SUFFIX)) {
+        const { size } = await stat(path);
+        this._segments.set(name, size);
+        this._bytes += size;
+      }
+    }
+    await this._enforceLimit();
+  }
+
+  /** Number of queued segments. */
+  get length(): number {
+    return this._segments.size;
+  }
+
+  /** Total size of queued segments in bytes. */
+  get bytes(): number {
+    return this._bytes;
+  }
+
+  /** Append `data` as a new segment. */
+  async push(data: Uint8Array): Promise<void> {
+    // Zero-padded so lexical order is creation order.
+    const time = Date.now().toString().padStart(15, "0");
+    const sequence = (this._sequence++).toString().padStart(8, "0");
+    const name = `${time}-${sequence}-${this._instanceId}${SEGMENT_SUFFIX}`;
+    const path = join(this.directory, name);
+    await writeFile(path + TEMP_SUFFIX, data);
+    await rename(path + TEMP_SUFFIX, path);
+    this._segments.set(name, data.byteLength);
+    this._bytes += data.byteLength;
+    await this._enforceLimit();
+  }
+
+  /** Name of the oldest segment, if any. */
+  peek(): string | undefined {
+    const [oldest] = this._segments.keys();
+    return oldest;
+  }
+
+  /** Read a segment, or `undefined` if it no longer exists. */
+  async read(name: string): Promise<Uint8Array | undefined> {
+    try {
+      return new Uint8Array(await readFile(join(this.directory, name)));
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      this._forget(name);
+      return undefined;
+    }
+  }
+
+  /** Delete a segment. */
+  async remove(name: string): Promise<void> {
+    this._forget(name);
+    await rm(join(this.directory, name), { force: true });
+  }
+
+  private _forget(name: string): void {
+    const size = this._segments.get(name);
+    if (size === undefined) return;
+    this._segments.delete(name);
+    this._bytes -= size;
+  }
+
+  private async _enforceLimit(): Promise<void> {
+    let dropped = 0;
+    while (this._bytes > this._maxBytes && this._segments.size > 0) {
+      const oldest = this.peek();
+      if (oldest === undefined) break;
+      await this.remove(oldest);
+      dropped++;
+    }
+    if (dropped > 0) {
+      Logger.warning(
+        `Export queue at ${this.directory} exceeded ${this._maxBytes} bytes; dropped ${dropped} oldest batches`,
+      );
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { SpanStatusCode } from "@opentelemetry/api";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileSpanExporter, type FileSpanRecord } from "./FileSpanExporter";
+import { uploadSpanFiles } from "./uploadSpanFiles";
+
+const originalFetch = globalThis.fetch;
+
+function makeSpans(...names: string[]): ReadableSpan[] {
+  const memory = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    resource: resourceFromAttributes({ "service.name": "local" }),
+    spanProcessors: [new SimpleSpanProcessor(memory)],
+  });
+  const tracer = provider.getTracer("test");
+  for (const name of names) {
+    const span = tracer.startSpan(name, { attributes: { step: 1 } });
+    span.setStatus({ code: SpanStatusCode.OK });
+    span.end();
+  }
+  return memory.getFinishedSpans();
+}
+
+function exportSpans(
+  exporter: FileSpanExporter,
+  spans: ReadableSpan[],
+): Promise<ExportResult> {
+  return new Promise((resolve) => exporter.export(spans, resolve));
+}
+
+describe("FileSpanExporter", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "judgeval-files-"));
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("writes one Judgment span record per line", async () => {
+    const exporter = new FileSpanExporter({ directory, format: "judgment" });
+    const [span] = makeSpans("step");
+    const result = await exportSpans(exporter, [span]);
+    expect(result.code).toBe(ExportResultCode.SUCCESS);
+
+    const [file] = await readdir(directory);
+    const lines = (await readFile(join(directory, file), "utf8")).split("\n");
+    expect(lines).toHaveLength(2);
+    const record = JSON.parse(lines[0]) as FileSpanRecord;
+    expect(record).toMatchObject({
+      trace_id: span.spanContext().traceId,
+      span_id: span.spanContext().spanId,
+      parent_span_id: null,
+      span_name: "step",
+      span_kind: "INTERNAL",
+      service_name: "local",
+      span_attributes: { step: 1 },
+      status_code: SpanStatusCode.OK,
+    });
+    expect(record.timestamp).toMatch(/^\d{4}-\d\d-\d\dT[\d:]+\.\d{9}Z$/);
+  });
+
+  test("rotates files and keeps at most maxFiles", async () => {
+    const exporter = new FileSpanExporter({
+      directory,
+      maxFileBytes: 1,
+      maxFiles: 2,
+    });
+    for (const name of ["a", "b", "c"]) {
+      await exportSpans(exporter, makeSpans(name));
+    }
+    await exporter.forceFlush();
+
+    const files = (await readdir(directory)).sort();
+    expect(files).toHaveLength(2);
+    const contents = await Promise.all(
+      files.map((file) => readFile(join(directory, file), "utf8")),
+    );
+    expect(contents.every((text) => "resourceSpans" in JSON.parse(text))).toBe(
+      true,
+    );
+    expect(contents[1]).toContain('"name":"c"');
+  });
+
+  test("uploadSpanFiles sends both formats as OTLP/JSON", async () => {
+    const bodies: { resourceSpans: unknown[] }[] = [];
+    globalThis.fetch = ((input: string, init: RequestInit) => {
+      if (input.endsWith("/v1/projects/resolve/")) {
+        return Promise.resolve(Response.json({ project_id: "proj-1" }));
+      }
+      expect(input).toBe("https://api.test/otel/v1/traces");
+      expect(new Headers(init.headers).get("X-Project-Id")).toBe("proj-1");
+      bodies.push(JSON.parse(init.body as string));
+      return Promise.resolve(new Response("", { status: 200 }));
+    }) as typeof fetch;
+
+    await exportSpans(
+      new FileSpanExporter({ directory, format: "judgment" }),
+      makeSpans("a", "b"),
+    );
+    await exportSpans(new FileSpanExporter({ directory }), makeSpans("c"));
+
+    const result = await uploadSpanFiles(directory, {
+      projectName: "uploads",
+      apiKey: "key",
+      organizationId: "org",
+      apiUrl: "https://api.test",
+      deleteAfterUpload: true,
+      includeNewest: true,
+    });
+
+    expect(result.files).toHaveLength(2);
+    expect(result.spans).toBe(3);
+    expect(bodies).toHaveLength(2);
+    const names = JSON.stringify(bodies).match(/"name":"[abc]"/g);
+    expect(names).toEqual(['"name":"a"', '"name":"b"', '"name":"c"']);
+    expect(JSON.stringify(bodies[0])).toContain('"kind":1');
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  test("uploadSpanFiles skips the newest file unless asked", async () => {
+    const uploaded: string[] = [];
+    globalThis.fetch = ((input: string, init: RequestInit) => {
+      if (input.endsWith("/v1/projects/resolve/")) {
+        return Promise.resolve(Response.json({ project_id: "proj-1" }));
+      }
+      uploaded.push(
+        ...(init.body as string).match(/"name":"(old|current|later)"/g)!,
+      );
+      return Promise.resolve(new Response("", { status: 200 }));
+    }) as typeof fetch;
+    const options = {
+      projectName: "uploads",
+      apiKey: "key",
+      organizationId: "org",
+      apiUrl: "https://api.test",
+      deleteAfterUpload: true,
+    };
+
+    await exportSpans(new FileSpanExporter({ directory }), makeSpans("old"));
+    const active = new FileSpanExporter({ directory });
+    await exportSpans(active, makeSpans("current"));
+
+    await uploadSpanFiles(directory, options);
+    expect(uploaded).toEqual(['"name":"old"']);
+    expect(await readdir(directory)).toHaveLength(1);
+
+    await exportSpans(active, makeSpans("later"));
+    await uploadSpanFiles(directory, { ...options, includeNewest: true });
+    expect(uploaded).toEqual([
+      '"name":"old"',
+      '"name":"current"',
+      '"name":"later"',
+    ]);
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  test("uploadSpanFiles resumes after the last batch that went through", async () => {
+    let failNext = false;
+    const uploaded: string[] = [];
+    globalThis.fetch = ((input: string, init: RequestInit) => {
+      if (input.endsWith("/v1/projects/resolve/")) {
+        return Promise.resolve(Response.json({ project_id: "proj-1" }));
+      }
+      if (failNext) {
+        failNext = false;
+        return Promise.resolve(new Response("", { status: 503 }));
+      }
+      const names = (init.body as string).match(/"name":"\w"/g)!;
+      uploaded.push(names.join(","));
+      failNext = uploaded.length === 1;
+      return Promise.resolve(new Response("", { status: 200 }));
+    }) as typeof fetch;
+    const options = {
+      projectName: "uploads",
+      apiKey: "key",
+      organizationId: "org",
+      apiUrl: "https://api.test",
+      batchSize: 2,
+      includeNewest: true,
+    };
+
+    await exportSpans(
+      new FileSpanExporter({ directory, format: "judgment" }),
+      makeSpans("a", "b", "c"),
+    );
+
+    await expect(uploadSpanFiles(directory, options)).rejects.toThrow();
+    const result = await uploadSpanFiles(directory, options);
+
+    expect(result.spans).toBe(1);
+    expect(uploaded).toEqual(['"name":"a","name":"b"', '"name":"c"']);
+    expect(await uploadSpanFiles(directory, options)).toEqual({
+      files: result.files,
+      spans: 0,
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import {
+  ExportResultCode,
+  hrTimeToNanoseconds,
+  hrTimeToTimeStamp,
+  type ExportResult,
+} from "@opentelemetry/core";
+import { JsonTraceSerializer } from "@opentelemetry/otlp-transformer";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { SpanKind } from "@opentelemetry/api";
+import { appendFile, mkdir, readdir, rm } from "fs/promises";
+import { join } from "path";
+import type { TraceSpan } from "../../internal/api/models/TraceSpan";
+import { Logger } from "../../utils/logger";
+import { JudgmentSpanExporter } from "./JudgmentSpanExporter";
+
+/**
+ * One span in a `"judgment"`-format span file: the Judgment trace span
+ * shape without the account fields, which are assigned on upload.
+ */
+export type FileSpanRecord = Omit<
+  TraceSpan,
+  "organization_id" | "project_id" | "user_id"
+>;
+
+/**
+ * Options for {@link FileSpanExporter}.
+ */
+export interface FileSpanExporterOptions {
+  /** Directory for the span files. Created if missing. Defaults to `.judgeval/traces`. */
+  directory?: string;
+  /**
+   * `"otlp"` writes one OTLP/JSON export request per line; `"judgment"`
+   * writes one {@link FileSpanRecord} per line. Defaults to `"otlp"`.
+   */
+  format?: "otlp" | "judgment";
+  /** Start a new file once the current one reaches this size. Defaults to 10 MiB. */
+  maxFileBytes?: number;
+  /** Number of files kept; the oldest are deleted. Defaults to `10`. */
+  maxFiles?: number;
+}
+
+export const DEFAULT_SPAN_FILE_DIRECTORY = ".judgeval/traces";
+
+const FILE_PREFIX = "spans-";
+const FILE_SUFFIX = ".jsonl";
+
+/** Shared by all exporters so files created in the same millisecond differ. */
+let fileSequence = 0;
+
+/**
+ * Path of the file where `uploadSpanFiles` records how many lines of
+ * `file` it has uploaded.
+ */
+export function uploadProgressPath(file: string): string {
+  return `${file}.uploaded`;
+}
+
+/** Whether `name` is a span file written by {@link FileSpanExporter}. */
+export function isSpanFileName(name: string): boolean {
+  return name.startsWith(FILE_PREFIX) && name.endsWith(FILE_SUFFIX);
+}
+
+/**
+ * Convert a finished span to a {@link FileSpanRecord}.
+ *
+ * @param span - The span to convert.
+ * @returns The span record.
+ */
+export function toSpanRecord(span: ReadableSpan): FileSpanRecord {
+  const serviceName = span.resource.attributes["service.name"];
+  return {
+    timestamp: hrTimeToTimeStamp(span.startTime),
+    trace_id: span.spanContext().traceId,
+    span_id: span.spanContext().spanId,
+    parent_span_id: span.parentSpanContext?.spanId ?? null,
+    trace_state: span.spanContext().traceState?.serialize() ?? null,
+    span_name: span.name,
+    span_kind: SpanKind[span.kind],
+    service_name: typeof serviceName === "string" ? serviceName : null,
+    resource_attributes: { ...span.resource.attributes },
+    span_attributes: { ...span.attributes },
+    duration: String(hrTimeToNanoseconds(span.duration)),
+    status_code: span.status.code,
+    status_message: span.status.message ?? null,
+    events: span.events.map((event) => ({
+      Timestamp: hrTimeToTimeStamp(event.time),
+      Name: event.name,
+      Attributes: { ...event.attributes },
+    })),
+    links:
+      span.links.length > 0
+        ? JSON.stringify(
+            span.links.map((link) => ({
+              trace_id: link.context.traceId,
+              span_id: link.context.spanId,
+              attributes: link.attributes ?? {},
+            })),
+          )
+        : null,
+  };
+}
+
+/**
+ * Span exporter that writes spans to rotating JSONL files.
+ *
+ * Used by `Tracer.init({ exporter: "file" })` to trace without
+ * credentials or network access. Files can be uploaded to a project
+ * later with `uploadSpanFiles`. Each process starts a new file.
+ */
+export class FileSpanExporter extends JudgmentSpanExporter {
+  readonly directory: string;
+  private readonly _format: "otlp" | "judgment";
+  private readonly _maxFileBytes: number;
+  private readonly _maxFiles: number;
+  private _writes: Promise<void> = Promise.resolve();
+  private _files: string[] | null = null;
+  private _current: string | null = null;
+  private _currentBytes = 0;
+
+  /**
+   * Create a new FileSpanExporter.
+   *
+   * @param options - Output directory, line format, and rotation limits.
+   */
+  constructor(options: FileSpanExporterOptions = {}) {
+    super("", "", "", "");
+    this.directory = options.directory ?? DEFAULT_SPAN_FILE_DIRECTORY;
+    this._format = options.format ?? "otlp";
+    this._maxFileBytes = options.maxFileBytes ?? 10 * 1024 * 1024;
+    this._maxFiles = Math.max(1, options.maxFiles ?? 10);
+  }
+
+  override export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    let text: string;
+    try {
+      text =
+        this._format === "judgment"
+          ? spans.map((span) => JSON.stringify(toSpanRecord(span))).join("\n")
+          : new TextDecoder().decode(
+              JsonTraceSerializer.serializeRequest(spans),
+            );
+    } catch (error) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return;
+    }
+    if (spans.length === 0 || !text) {
+      resultCallback({ code: ExportResultCode.SUCCESS });
+      return;
+    }
+
+    this._writes = this._writes
+      .then(() => this._append(text + "\n"))
+      .then(
+        () => {
+          Logger.info(`Wrote ${spans.length} spans to ${this.directory}`);
+          resultCallback({ code: ExportResultCode.SUCCESS });
+        },
+        (error: unknown) => {
+          Logger.error(`Failed to write spans to ${this.directory}: ${error}`);
+          resultCallback({
+            code: ExportResultCode.FAILED,
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        },
+      );
+  }
+
+  /** Wait for pending writes. */
+  override forceFlush(): Promise<void> {
+    return this._writes;
+  }
+
+  /** Wait for pending writes. */
+  override shutdown(): Promise<void> {
+    return this._writes;
+  }
+
+  private async _append(text: string): Promise<void> {
+    const files = await this._openFiles();
+    const current =
+      this._current && this._currentBytes < this._maxFileBytes
+        ? this._current
+        : await this._rotate(files);
+    await appendFile(join(this.directory, current), text);
+    this._currentBytes += Buffer.byteLength(text);
+  }
+
+  private async _openFiles(): Promise<string[]> {
+    if (this._files) return this._files;
+    await mkdir(this.directory, { recursive: true });
+    this._files = (await readdir(this.directory)).filter(isSpanFileName).sort();
+    return this._files;
+  }
+
+  private async _rotate(files: string[]): Promise<string> {
+    // Zero-padded so lexical order is creation order.
+    const time = Date.now().toString().padStart(15, "0");
+    const sequence = (fileSequence++).toString().padStart(4, "0");
+    this._current = `${FILE_PREFIX}${time}-${process.pid}-${sequence}${FILE_SUFFIX}`;
+    this._currentBytes = 0;
+    files.push(this._current);
+    while (files.length > this._maxFiles) {
+      const oldest = files.shift();
+      if (!oldest) continue;
+      await rm(join(this.directory, oldest), { force: true });
+      await rm(uploadProgressPath(join(this.directory, oldest)), {
+        force: true,
+      });
+    }
+    return this._current;
+  }
+}
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PersistentSpanExporter } from "./PersistentSpanExporter";
+
+const originalFetch = globalThis.fetch;
+
+function makeSpans(...names: string[]): ReadableSpan[] {
+  const memory = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(memory)],
+  });
+  const tracer = provider.getTracer("test");
+  for (const name of names) tracer.startSpan(name).end();
+  return memory.getFinishedSpans();
+}
+
+function exportSpans(
+  exporter: PersistentSpanExporter,
+  spans: ReadableSpan[],
+): Promise<ExportResult> {
+  return new Promise((resolve) => exporter.export(spans, resolve));
+}
+
+describe("PersistentSpanExporter", () => {
+  let directory: string;
+  let statuses: number[];
+  let requests: { url: string; headers: Headers; bytes: number }[];
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "judgeval-queue-"));
+    statuses = [];
+    requests = [];
+    globalThis.fetch = ((input: string, init: RequestInit) => {
+      requests.push({
+        url: input,
+        headers: new Headers(init.headers),
+        bytes: (init.body as Uint8Array).byteLength,
+      });
+      const status = statuses.shift() ?? 200;
+      if (status === 0) return Promise.reject(new TypeError("fetch failed"));
+      // -1 stands for an endpoint that never responds.
+      if (status === -1) {
+        return new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          );
+        });
+      }
+      return Promise.resolve(new Response("", { status }));
+    }) as typeof fetch;
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const create = (
+    maxBytes?: number,
+    uploadTimeoutMs?: number,
+    resolveProjectId = () => Promise.resolve("project-id"),
+  ) =>
+    new PersistentSpanExporter(
+      "https://example.test/otel/v1/traces",
+      "key",
+      "org",
+      "project",
+      resolveProjectId,
+      { directory, maxBytes, uploadTimeoutMs, initialBackoffMs: 60_000 },
+    );
+
+  const segments = () => readdir(join(directory, "org", "project"));
+
+  test("reports success once on disk and uploads with auth headers", async () => {
+    const exporter = create();
+    const result = await exportSpans(exporter, makeSpans("a", "b"));
+    expect(result.code).toBe(ExportResultCode.SUCCESS);
+
+    await exporter.forceFlush();
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("https://example.test/otel/v1/traces");
+    expect(requests[0].headers.get("Authorization")).toBe("Bearer key");
+    expect(requests[0].headers.get("X-Project-Id")).toBe("project-id");
+    expect(await segments()).toEqual([]);
+    await exporter.shutdown();
+  });
+
+  test("keeps batches on disk through failures and uploads them after a restart", async () => {
+    // The endpoint is down for every attempt the first exporter makes.
+    statuses.push(0, 503, 0, 503);
+    const first = create();
+    await exportSpans(first, makeSpans("a"));
+    await exportSpans(first, makeSpans("b"));
+    await first.forceFlush();
+    await first.shutdown();
+    expect(await segments()).toHaveLength(2);
+    expect(first.pendingBatches).toBe(2);
+
+    statuses.length = 0;
+    const attempts = requests.length;
+    const second = create();
+    await second.forceFlush();
+    expect(second.pendingBatches).toBe(0);
+    expect(await segments()).toEqual([]);
+    expect(requests).toHaveLength(attempts + 2);
+    await second.shutdown();
+  });
+
+  test("queues batches until the project resolves", async () => {
+    let resolutions = 0;
+    const exporter = create(undefined, undefined, () =>
+      ++resolutions === 1
+        ? Promise.reject(new Error("offline"))
+        : Promise.resolve("late-id"),
+    );
+    await exportSpans(exporter, makeSpans("a"));
+    await exporter.forceFlush();
+    expect(requests).toHaveLength(0);
+    expect(await segments()).toHaveLength(1);
+
+    await exporter.forceFlush();
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers.get("X-Project-Id")).toBe("late-id");
+    expect(exporter.pendingBatches).toBe(0);
+    await exporter.shutdown();
+  });
+
+  test("drops batches rejected as invalid", async () => {
+    statuses.push(400);
+    const exporter = create();
+    await exportSpans(exporter, makeSpans("bad"));
+    await exporter.forceFlush();
+    expect(requests).toHaveLength(1);
+    expect(exporter.pendingBatches).toBe(0);
+    await exporter.shutdown();
+  });
+
+  test("drops the oldest batches beyond maxBytes", async () => {
+    statuses.push(0);
+    const exporter = create(1);
+    await exportSpans(exporter, makeSpans("a"));
+    expect(exporter.pendingBatches).toBe(0);
+    expect(await segments()).toEqual([]);
+    await exporter.shutdown();
+  });
+
+  test("aborts stalled uploads and keeps the batch for a retry", async () => {
+    statuses.push(-1);
+    const exporter = create(undefined, 10);
+    await exportSpans(exporter, makeSpans("a"));
+    await exporter.forceFlush();
+    expect(requests).toHaveLength(1);
+    expect(exporter.pendingBatches).toBe(1);
+
+    await exporter.forceFlush();
+    expect(requests).toHaveLength(2);
+    expect(exporter.pendingBatches).toBe(0);
+    await exporter.shutdown();
+  });
+
+  test("gives each queue distinct segment names in a shared directory", async () => {
+    statuses.push(0, 0);
+    const first = create();
+    const second = create();
+    await exportSpans(first, makeSpans("a"));
+    await exportSpans(second, makeSpans("b"));
+
+    const names = await segments();
+    expect(names).toHaveLength(2);
+    expect(names[0].split("-")[2]).not.toBe(names[1].split("-")[2]);
+    await first.shutdown();
+    await second.shutdown();
+  });
+});
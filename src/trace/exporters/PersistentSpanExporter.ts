@@ -0,0 +1,273 @@
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import { ProtobufTraceSerializer } from "@opentelemetry/otlp-transformer";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { join } from "path";
+import { Logger } from "../../utils/logger";
+import { DiskQueue } from "./DiskQueue";
+import { JudgmentSpanExporter } from "./JudgmentSpanExporter";
+
+/**
+ * Options for persisting span batches to disk before upload.
+ */
+export interface ExportQueueOptions {
+  /**
+   * Directory holding queued batches. Created if missing; batches are
+   * kept in a subdirectory per organization and project name.
+   */
+  directory: string;
+  /**
+   * Maximum disk usage in bytes. The oldest batches are dropped beyond
+   * it. Defaults to 100 MiB.
+   */
+  maxBytes?: number;
+  /** Delay before the first retry in milliseconds. Defaults to `1000`. */
+  initialBackoffMs?: number;
+  /** Maximum delay between retries in milliseconds. Defaults to `60000`. */
+  maxBackoffMs?: number;
+  /**
+   * Time to wait for an upload before aborting and retrying it later, in
+   * milliseconds. Defaults to `30000`.
+   */
+  uploadTimeoutMs?: number;
+}
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+
+type SendResult = "sent" | "retry" | "rejected";
+
+/** Encode a name as a single path segment, including `.` and `..`. */
+function pathSegment(name: string): string {
+  return encodeURIComponent(name).replace(/\./g, "%2E");
+}
+
+/**
+ * Span exporter that writes each batch to an on-disk queue and uploads
+ * it to the Judgment platform in the background.
+ *
+ * A batch is reported as exported once it is on disk. Uploads retry with
+ * exponential backoff until the endpoint accepts them, and batches left
+ * over by a previous process are uploaded when the next exporter for the
+ * same directory and project starts, giving at-least-once delivery.
+ * Batches rejected with a non-retryable 4xx status are discarded.
+ *
+ * The project ID is resolved before the first upload rather than up
+ * front, so spans are queued even while the project cannot be resolved;
+ * failed resolutions are retried with the same backoff.
+ *
+ * Created by `Tracer.init()` when `exportQueue` is configured.
+ */
+export class PersistentSpanExporter extends JudgmentSpanExporter {
+  private readonly _queue: DiskQueue;
+  private readonly _opened: Promise<boolean>;
+  private readonly _headers: Record<string, string>;
+  private _projectId: string | null = null;
+  private readonly _initialBackoffMs: number;
+  private readonly _maxBackoffMs: number;
+  private readonly _uploadTimeoutMs: number;
+  private _draining: Promise<void> | null = null;
+  private _timer: ReturnType<typeof setTimeout> | null = null;
+  private _failures = 0;
+  private _stopped = false;
+
+  /**
+   * Create a new PersistentSpanExporter.
+   *
+   * @param endpoint - The OTLP HTTP endpoint URL.
+   * @param apiKey - Judgment API key for authentication.
+   * @param organizationId - Judgment organization ID.
+   * @param projectName - Judgment project name, which keys the queue.
+   * @param resolveProjectId - Looks up the project ID to upload to.
+   * @param options - Queue location, size cap, retry backoff, and upload
+   *   timeout.
+   */
+  constructor(
+    private readonly _endpoint: string,
+    apiKey: string,
+    organizationId: string,
+    projectName: string,
+    private readonly _resolveProjectId: () => Promise<string>,
+    options: ExportQueueOptions,
+  ) {
+    super("", apiKey, organizationId, "");
+    this._headers = {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/x-protobuf",
+      "X-Organization-Id": organizationId,
+    };
+    this._initialBackoffMs = options.initialBackoffMs ?? 1000;
+    this._maxBackoffMs = options.maxBackoffMs ?? 60_000;
+    this._uploadTimeoutMs = options.uploadTimeoutMs ?? 30_000;
+    this._queue = new DiskQueue(
+      join(
+        options.directory,
+        pathSegment(organizationId),
+        pathSegment(projectName),
+      ),
+      options.maxBytes ?? DEFAULT_MAX_BYTES,
+    );
+    this._opened = this._queue.open().then(
+      () => {
+        if (this._queue.length > 0) {
+          Logger.info(
+            `Uploading ${this._queue.length} queued span batches from ${this._queue.directory}`,
+          );
+          this._schedule(0);
+        }
+        return true;
+      },
+      (error: unknown) => {
+        Logger.error(`Failed to open export queue: ${error}`);
+        return false;
+      },
+    );
+  }
+
+  /** Number of batches waiting on disk. */
+  get pendingBatches(): number {
+    return this._queue.length;
+  }
+
+  override export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    const body = ProtobufTraceSerializer.serializeRequest(spans);
+    if (!body) {
+      resultCallback({ code: ExportResultCode.SUCCESS });
+      return;
+    }
+    this._opened
+      .then(async (opened) => {
+        if (!opened) throw new Error("export queue is unavailable");
+        await this._queue.push(body);
+      })
+      .then(
+        () => {
+          Logger.info(`Queued ${spans.length} spans`);
+          resultCallback({ code: ExportResultCode.SUCCESS });
+          if (!this._timer) this._schedule(0);
+        },
+        (error: unknown) => {
+          resultCallback({
+            code: ExportResultCode.FAILED,
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        },
+      );
+  }
+
+  /**
+   * Attempt to upload every queued batch now, ignoring any pending
+   * backoff. Batches that still fail stay queued.
+   */
+  override async forceFlush(): Promise<void> {
+    this._clearTimer();
+    if (!(await this._opened)) return;
+    await this._drain();
+  }
+
+  /**
+   * Make a final upload attempt and stop retrying. Batches that could not
+   * be uploaded stay on disk for the next exporter.
+   */
+  override async shutdown(): Promise<void> {
+    await this.forceFlush();
+    this._stopped = true;
+    this._clearTimer();
+  }
+
+  private _schedule(delayMs: number): void {
+    if (this._stopped) return;
+    this._clearTimer();
+    this._timer = setTimeout(() => {
+      this._timer = null;
+      void this._drain();
+    }, delayMs);
+    // Retries must not keep the process alive.
+    this._timer.unref?.();
+  }
+
+  private _clearTimer(): void {
+    if (this._timer) clearTimeout(this._timer);
+    this._timer = null;
+  }
+
+  private _drain(): Promise<void> {
+    this._draining ??= this._drainQueue().finally(() => {
+      this._draining = null;
+    });
+    return this._draining;
+  }
+
+  private async _drainQueue(): Promise<void> {
+    if (this._queue.length === 0) return;
+    if (!this._projectId) {
+      try {
+        this._projectId = await this._resolveProjectId();
+      } catch (error) {
+        Logger.debug(`Project resolution failed: ${error}`);
+        this._retryLater();
+        return;
+      }
+    }
+    for (let name = this._queue.peek(); name; name = this._queue.peek()) {
+      const result = await this._upload(name, this._projectId);
+      if (result === "retry") {
+        this._retryLater();
+        return;
+      }
+      this._failures = 0;
+      await this._queue.remove(name);
+    }
+  }
+
+  private _retryLater(): void {
+    this._failures++;
+    const delay = Math.min(
+      this._maxBackoffMs,
+      this._initialBackoffMs * 2 ** (this._failures - 1),
+    );
+    Logger.warning(
+      `Span upload failed; ${this._queue.length} batches queued, retrying in ${delay} ms`,
+    );
+    this._schedule(delay);
+  }
+
+  private async _upload(name: string, projectId: string): Promise<SendResult> {
+    let body: Uint8Array | undefined;
+    try {
+      body = await this._queue.read(name);
+    } catch (error) {
+      Logger.error(`Failed to read queued span batch ${name}: ${error}`);
+      return "rejected";
+    }
+    if (!body) return "sent";
+
+    let response: Response;
+    try {
+      response = await fetch(this._endpoint, {
+        method: "POST",
+        headers: { ...this._headers, "X-Project-Id": projectId },
+        body,
+        // A stalled upload would otherwise block the queue indefinitely.
+        signal: AbortSignal.timeout(this._uploadTimeoutMs),
+      });
+    } catch (error) {
+      Logger.debug(`Span upload failed: ${error}`);
+      return "retry";
+    }
+    if (response.ok) {
+      Logger.info(`Exported queued span batch ${name}`);
+      return "sent";
+    }
+    const status = response.status;
+    if (status >= 400 && status < 500 && status !== 408 && status !== 429) {
+      const detail = (await response.text().catch(() => "")).slice(0, 500);
+      Logger.error(
+        `Dropping span batch ${name} rejected with ${status}${detail ? `: ${detail}` : ""}`,
+      );
+      return "rejected";
+    }
+    return "retry";
+  }
+}
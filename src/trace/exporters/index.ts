@@ -1,2 +1,20 @@
+export {
+  ConsoleTreeExporter,
+  type ConsoleTreeExporterOptions,
+} from "./ConsoleTreeExporter";
 export { JudgmentSpanExporter } from "./JudgmentSpanExporter";
 export { NoOpSpanExporter } from "./NoOpSpanExporter";
+export {
+  PersistentSpanExporter,
+  type ExportQueueOptions,
+} from "./PersistentSpanExporter";
+export {
+  FileSpanExporter,
+  type FileSpanExporterOptions,
+  type FileSpanRecord,
+} from "./FileSpanExporter";
+export {
+  uploadSpanFiles,
+  type UploadSpanFilesOptions,
+  type UploadSpanFilesResult,
+} from "./uploadSpanFiles";
@@ -0,0 +1,260 @@
+import { SpanKind } from "@opentelemetry/api";
+import { readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { join } from "path";
+import { JUDGMENT_API_KEY, JUDGMENT_API_URL, JUDGMENT_ORG_ID } from "../../env";
+import { JudgmentApiClient } from "../../internal/api";
+import { Logger } from "../../utils/logger";
+import {
+  type OtlpRequest,
+  postOtlpJson,
+  toKeyValues,
+} from "../../utils/otlp-json";
+import { resolveProjectId } from "../../utils/resolve-project-id";
+import { VERSION } from "../../version";
+import {
+  type FileSpanRecord,
+  isSpanFileName,
+  uploadProgressPath,
+} from "./FileSpanExporter";
+
+/**
+ * Options for {@link uploadSpanFiles}.
+ */
+export interface UploadSpanFilesOptions {
+  /** Judgment project that receives the spans. Required. */
+  projectName: string;
+  /** Judgment API key. Defaults to `JUDGMENT_API_KEY` env var. */
+  apiKey?: string;
+  /** Judgment organization ID. Defaults to `JUDGMENT_ORG_ID` env var. */
+  organizationId?: string;
+  /** Judgment API URL. Defaults to `JUDGMENT_API_URL` env var. */
+  apiUrl?: string;
+  /** Delete each file once all of its spans are uploaded. Defaults to `false`. */
+  deleteAfterUpload?: boolean;
+  /**
+   * Also upload the newest span file in each directory, which a running
+   * `FileSpanExporter` may still be appending to. Defaults to `false`.
+   */
+  includeNewest?: boolean;
+  /** Spans per request when uploading `"judgment"`-format lines. Defaults to `500`. */
+  batchSize?: number;
+}
+
+/**
+ * Result of {@link uploadSpanFiles}.
+ */
+export interface UploadSpanFilesResult {
+  /** Span files uploaded. */
+  files: string[];
+  /** Spans uploaded across all files. */
+  spans: number;
+}
+
+/** Parse an ISO timestamp with up to nanosecond precision. */
+function timestampToNanos(timestamp: string): bigint {
+  const match = /^(.*?)(?:\.(\d+))?Z$/.exec(timestamp);
+  const seconds = Date.parse(`${match?.[1] ?? timestamp}Z`) / 1000;
+  const fraction = (match?.[2] ?? "").padEnd(9, "0").slice(0, 9);
+  return BigInt(seconds) * BigInt(1e9) + BigInt(fraction);
+}
+
+function toOtlpSpan(record: FileSpanRecord): unknown {
+  const start = timestampToNanos(record.timestamp);
+  const kind = SpanKind[record.span_kind as keyof typeof SpanKind];
+  const links = record.links
+    ? (JSON.parse(record.links) as {
+        trace_id: string;
+        span_id: string;
+        attributes: Record<string, unknown>;
+      }[])
+    : [];
+  return {
+    traceId: record.trace_id,
+    spanId: record.span_id,
+    parentSpanId: record.parent_span_id ?? undefined,
+    traceState: record.trace_state ?? undefined,
+    name: record.span_name ?? "",
+    // OTLP kinds are the API's `SpanKind` values shifted by one.
+    kind: (kind ?? SpanKind.INTERNAL) + 1,
+    startTimeUnixNano: start.toString(),
+    endTimeUnixNano: (start + BigInt(record.duration)).toString(),
+    attributes: toKeyValues(record.span_attributes),
+    events: record.events.map((event) => ({
+      timeUnixNano: timestampToNanos(event.Timestamp).toString(),
+      name: event.Name,
+      attributes: toKeyValues(event.Attributes),
+    })),
+    links: links.map((link) => ({
+      traceId: link.trace_id,
+      spanId: link.span_id,
+      attributes: toKeyValues(link.attributes),
+    })),
+    status: {
+      code: record.status_code,
+      message: record.status_message ?? undefined,
+    },
+  };
+}
+
+/** Build one OTLP/JSON request from span records, grouped by resource. */
+function toOtlpRequest(records: FileSpanRecord[]): OtlpRequest {
+  const byResource = new Map<string, FileSpanRecord[]>();
+  for (const record of records) {
+    const key = JSON.stringify(record.resource_attributes);
+    const group = byResource.get(key) ?? [];
+    group.push(record);
+    byResource.set(key, group);
+  }
+  return {
+    resourceSpans: [...byResource.values()].map((group) => ({
+      resource: { attributes: toKeyValues(group[0].resource_attributes) },
+      scopeSpans: [
+        {
+          scope: { name: "judgeval", version: VERSION },
+          spans: group.map(toOtlpSpan),
+        },
+      ],
+    })),
+  };
+}
+
+function countSpans(request: OtlpRequest): number {
+  let count = 0;
+  for (const resourceSpans of request.resourceSpans ?? []) {
+    for (const scopeSpans of resourceSpans.scopeSpans ?? []) {
+      count += scopeSpans.spans?.length ?? 0;
+    }
+  }
+  return count;
+}
+
+async function listSpanFiles(
+  paths: string[],
+  includeNewest: boolean,
+): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    if ((await stat(path)).isDirectory()) {
+      const names = (await readdir(path)).filter(isSpanFileName).sort();
+      if (!includeNewest) names.pop();
+      files.push(...names.map((name) => join(path, name)));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Upload span files written by `FileSpanExporter` to a Judgment project
+ * through the OTLP endpoint used by `Tracer`.
+ *
+ * Both `"otlp"` and `"judgment"` line formats are accepted. Files are
+ * uploaded in order; the first failed request throws. The number of
+ * lines sent from each file is recorded next to it, so a retry resumes
+ * after the last request that went through.
+ *
+ * The newest file in each directory is skipped unless `includeNewest` is
+ * set, since a running exporter may still be writing it. Files passed
+ * by path are always uploaded.
+ *
+ * @param paths - Span files, or directories containing them (such as
+ *   the default `.judgeval/traces`).
+ * @param options - Target project, credentials, and cleanup behavior.
+ * @returns The uploaded files and the number of spans sent.
+ * @throws Error if credentials are missing, the project cannot be found,
+ *   a line is not valid JSON, or the endpoint rejects a request.
+ *
+ * @example
+ * ```typescript
+ * await Tracer.init({ exporter: "file", fileExporter: { directory: "traces" } });
+ * // ... later, with credentials:
+ * await uploadSpanFiles("traces", {
+ *   projectName: "my-project",
+ *   deleteAfterUpload: true,
+ * });
+ * ```
+ */
+export async function uploadSpanFiles(
+  paths: string | string[],
+  options: UploadSpanFilesOptions,
+): Promise<UploadSpanFilesResult> {
+  const apiKey = options.apiKey ?? JUDGMENT_API_KEY;
+  const organizationId = options.organizationId ?? JUDGMENT_ORG_ID;
+  const apiUrl = options.apiUrl ?? JUDGMENT_API_URL;
+  const batchSize = Math.max(1, options.batchSize ?? 500);
+
+  if (!options.projectName) {
+    throw new Error("projectName is required for uploadSpanFiles");
+  }
+  if (!apiKey) {
+    throw new Error("apiKey is required for uploadSpanFiles");
+  }
+  if (!organizationId) {
+    throw new Error("organizationId is required for uploadSpanFiles");
+  }
+  if (!apiUrl) {
+    throw new Error("apiUrl is required for uploadSpanFiles");
+  }
+
+  const client = new JudgmentApiClient(apiUrl, apiKey, organizationId);
+  let projectId: string;
+  try {
+    projectId = await resolveProjectId(client, options.projectName);
+  } catch (err) {
+    throw new Error(
+      `Project '${options.projectName}' not found; cannot upload spans: ${String(err)}`,
+    );
+  }
+
+  const send = (request: OtlpRequest): Promise<void> =>
+    postOtlpJson({ apiUrl, apiKey, organizationId, projectId }, request);
+
+  const result: UploadSpanFilesResult = { files: [], spans: 0 };
+  for (const file of await listSpanFiles(
+    Array.isArray(paths) ? paths : [paths],
+    options.includeNewest ?? false,
+  )) {
+    const progressPath = uploadProgressPath(file);
+    const uploaded = Number(
+      await readFile(progressPath, "utf8").catch(() => "0"),
+    );
+    // The last element is empty, or a line still being written.
+    const lines = (await readFile(file, "utf8")).split("\n").slice(0, -1);
+    let records: FileSpanRecord[] = [];
+    const sendRecords = async (sent: number): Promise<void> => {
+      if (records.length === 0) return;
+      await send(toOtlpRequest(records));
+      result.spans += records.length;
+      records = [];
+      await writeFile(progressPath, String(sent));
+    };
+    for (let index = uploaded; index < lines.length; index++) {
+      const line = lines[index];
+      if (!line.trim()) continue;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        throw new Error(`${file}:${index + 1} is not valid JSON`);
+      }
+      if ((parsed as Partial<OtlpRequest>).resourceSpans) {
+        await sendRecords(index);
+        await send(parsed as OtlpRequest);
+        result.spans += countSpans(parsed as OtlpRequest);
+        await writeFile(progressPath, String(index + 1));
+      } else {
+        records.push(parsed as FileSpanRecord);
+        if (records.length >= batchSize) await sendRecords(index + 1);
+      }
+    }
+    await sendRecords(lines.length);
+    result.files.push(file);
+    Logger.info(`Uploaded span file ${file}`);
+    if (options.deleteAfterUpload) {
+      await rm(file, { force: true });
+      await rm(progressPath, { force: true });
+    }
+  }
+  return result;
+}
@@ -1,16 +1,60 @@
 export {
   BaseTracer,
+  type AISDKTelemetrySettings,
   type AsyncEvaluateOptions,
   type LLMMetadata,
+  type ObserveClassOptions,
   type ObserveOptions,
+  type ScoreOptions,
   type TracerConfig,
 } from "./BaseTracer";
+export { type AgentOptions } from "./agent";
+export {
+  ConsoleTreeExporter,
+  type ConsoleTreeExporterOptions,
+} from "./exporters/ConsoleTreeExporter";
+export {
+  FileSpanExporter,
+  type FileSpanExporterOptions,
+  type FileSpanRecord,
+} from "./exporters/FileSpanExporter";
 export { JudgmentSpanExporter } from "./exporters/JudgmentSpanExporter";
 export { NoOpSpanExporter } from "./exporters/NoOpSpanExporter";
+export {
+  PersistentSpanExporter,
+  type ExportQueueOptions,
+} from "./exporters/PersistentSpanExporter";
+export {
+  uploadSpanFiles,
+  type UploadSpanFilesOptions,
+  type UploadSpanFilesResult,
+} from "./exporters/uploadSpanFiles";
 export { JudgmentTracerProvider } from "./JudgmentTracerProvider";
+export { instrumentFetch, uninstrumentFetch } from "./instrumentation/fetch";
+export {
+  type HostPattern,
+  type HttpClientInstrumentationOptions,
+} from "./instrumentation/httpClient";
+export { instrumentUndici, uninstrumentUndici } from "./instrumentation/undici";
+export {
+  expressErrorHandler,
+  expressMiddleware,
+  fastifyPlugin,
+  honoMiddleware,
+  koaMiddleware,
+  type HeaderExtractor,
+  type HttpMiddlewareOptions,
+  type HttpRequestInfo,
+} from "./middleware";
+export { AISDKSpanProcessor } from "./processors/AISDKSpanProcessor";
 export { JudgmentSpanProcessor } from "./processors/JudgmentSpanProcessor";
 export { NoOpSpanProcessor } from "./processors/NoOpSpanProcessor";
 export { OfflineJudgmentSpanProcessor } from "./processors/OfflineJudgmentSpanProcessor";
+export {
+  TailSamplingSpanProcessor,
+  type TailSampledTrace,
+  type TailSamplingOptions,
+} from "./processors/TailSamplingSpanProcessor";
 export {
   ALLOW_ALL_BAGGAGE_KEYS,
   JudgmentBaggageSpanProcessor,
@@ -18,6 +62,13 @@ export {
 } from "./processors/JudgmentBaggageSpanProcessor";
 export { JudgmentBaggagePropagator } from "./baggage/JudgmentBaggagePropagator";
 export * as baggage from "./baggage";
+export * as messaging from "./messaging";
 export * as propagation from "./propagation";
+export * as redaction from "./redaction";
+export {
+  type LambdaContextLike,
+  type LambdaHandler,
+  type WrapHandlerOptions,
+} from "./serverless";
 export { Tracer } from "./Tracer";
 export { OfflineTracer, type OfflineTracerConfig } from "./OfflineTracer";
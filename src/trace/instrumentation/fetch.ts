@@ -0,0 +1,131 @@
+import { createContextKey, type TextMapSetter } from "@opentelemetry/api";
+import { dontThrow } from "../../utils/dont-throw";
+import { inject } from "../propagation";
+import { getTraceRuntime } from "../runtime";
+import {
+  type ClientSpan,
+  endClientSpan,
+  type HttpClientInstrumentationOptions,
+  startClientSpan,
+} from "./httpClient";
+
+const headersSetter: TextMapSetter<Headers> = {
+  set(carrier, key, value) {
+    carrier.set(key, value);
+  },
+};
+
+/**
+ * Set in the context a traced `fetch` runs in. On Node, global `fetch` is
+ * undici, so {@link instrumentUndici} uses this to skip requests already
+ * traced here, whether or not their host receives propagation headers.
+ */
+export const FETCH_SPAN_KEY = createContextKey("judgment.fetch_span");
+
+let patch: { original: typeof fetch; instrumented: typeof fetch } | null = null;
+
+function describeRequest(
+  input: Parameters<typeof fetch>[0],
+  init: RequestInit | undefined,
+): { method: string; url: URL } {
+  const isRequest = typeof Request !== "undefined" && input instanceof Request;
+  const url = new URL(
+    isRequest ? input.url : input instanceof URL ? input.href : String(input),
+  );
+  const method = init?.method ?? (isRequest ? input.method : "GET");
+  return { method, url };
+}
+
+/**
+ * Instrument global `fetch` so each outbound request inside a traced
+ * operation gets a client span, and carries `traceparent` and Judgment
+ * baggage headers so downstream services can continue the trace.
+ *
+ * Headers are injected through the global propagator (see
+ * `propagation.getGlobalTextmap`), and only for hosts in `allowHosts`
+ * that are not in `denyHosts`. Without `allowHosts` no headers are sent,
+ * so baggage never reaches third-party APIs such as LLM providers.
+ * Requests to the Judgment API are never traced.
+ *
+ * Calling it again replaces the previous options.
+ *
+ * @param options - Host allow and deny lists, and requests to skip.
+ * @returns A function that restores the original `fetch`.
+ *
+ * @example
+ * ```typescript
+ * instrumentFetch({ allowHosts: ["*.internal.example.com"] });
+ * ```
+ */
+export function instrumentFetch(
+  options: HttpClientInstrumentationOptions = {},
+): () => void {
+  uninstrumentFetch();
+  const original = globalThis.fetch;
+
+  const instrumented = function fetch(
+    input: Parameters<typeof original>[0],
+    init?: RequestInit,
+  ): Promise<Response> {
+    const client = dontThrow<ClientSpan | null>(
+      "instrumentFetch.start",
+      () => {
+        const { method, url } = describeRequest(input, init);
+        return startClientSpan(method, url, options);
+      },
+      null,
+    );
+    if (!client) return original(input, init);
+
+    const { span, context, propagate } = client;
+    let requestInit = init;
+    if (propagate) {
+      dontThrow("instrumentFetch.inject", () => {
+        const headers = new Headers(
+          init?.headers ?? (input instanceof Request ? input.headers : {}),
+        );
+        inject(headers, context, headersSetter);
+        requestInit = { ...init, headers };
+      });
+    }
+
+    let response: Promise<Response>;
+    try {
+      response = getTraceRuntime().withContext(
+        context.setValue(FETCH_SPAN_KEY, span),
+        () => original(input, requestInit),
+      );
+    } catch (err) {
+      endClientSpan(span, null, err);
+      throw err;
+    }
+    return response.then(
+      (res) => {
+        endClientSpan(span, res.status);
+        return res;
+      },
+      (err: unknown) => {
+        endClientSpan(span, null, err);
+        throw err;
+      },
+    );
+  };
+
+  // Keep extra properties of the runtime's fetch, e.g. Bun's `preconnect`.
+  const patched = Object.assign(instrumented, original);
+  patch = { original, instrumented: patched };
+  globalThis.fetch = patched;
+  return uninstrumentFetch;
+}
+
+/**
+ * Restore the `fetch` replaced by {@link instrumentFetch}. Leaves `fetch`
+ * alone if it was replaced again since.
+ */
+export function uninstrumentFetch(): void {
+  if (!patch) return;
+  if (globalThis.fetch === patch.instrumented) {
+    globalThis.fetch = patch.original;
+  }
+  patch = null;
+}
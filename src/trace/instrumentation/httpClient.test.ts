@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { SpanKind } from "@opentelemetry/api";
+import { channel } from "diagnostics_channel";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import {
+  createTestTracer,
+  expectSpanTree,
+  type TestTracer,
+} from "../../testing";
+import { Tracer } from "../Tracer";
+import { instrumentFetch, uninstrumentFetch } from "./fetch";
+import { instrumentUndici, uninstrumentUndici } from "./undici";
+
+describe("instrumentFetch", () => {
+  const originalFetch = globalThis.fetch;
+  let tracer: TestTracer;
+  let sent: Headers[];
+  let fail: Error | null;
+
+  beforeEach(() => {
+    tracer = createTestTracer();
+    sent = [];
+    fail = null;
+    globalThis.fetch = ((_input: unknown, init?: RequestInit) => {
+      sent.push(new Headers(init?.headers));
+      return fail
+        ? Promise.reject(fail)
+        : Promise.resolve(new Response("ok", { status: 201 }));
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    uninstrumentFetch();
+    globalThis.fetch = originalFetch;
+    tracer.dispose();
+  });
+
+  test("creates a client span and propagates its context", async () => {
+    instrumentFetch({ allowHosts: ["*.internal.example.com"] });
+    await Tracer.span("agent", async () => {
+      Tracer.setCustomerId("acme");
+      await fetch("https://svc.internal.example.com/run?token=secret", {
+        method: "post",
+        headers: { "x-existing": "1" },
+      });
+    });
+
+    const agent = expectSpanTree(tracer.spans, {
+      name: "agent",
+      children: [
+        {
+          name: "POST svc.internal.example.com",
+          attributes: {
+            [AttributeKeys.HTTP_REQUEST_METHOD]: "POST",
+            [AttributeKeys.URL_FULL]: "https://svc.internal.example.com/run",
+            [AttributeKeys.HTTP_RESPONSE_STATUS_CODE]: 201,
+          },
+        },
+      ],
+    });
+    const client = tracer.spans.find((span) => span.kind === SpanKind.CLIENT)!;
+    const { traceId } = agent.spanContext();
+    expect(sent[0].get("x-existing")).toBe("1");
+    expect(sent[0].get("traceparent")).toBe(
+      `00-${traceId}-${client.spanContext().spanId}-01`,
+    );
+    expect(sent[0].get("baggage")).toContain("acme");
+  });
+
+  test("does not trace requests outside a span", async () => {
+    instrumentFetch();
+    await fetch("https://svc.example.com/");
+
+    expect(tracer.spans).toHaveLength(0);
+    expect(sent[0].has("traceparent")).toBe(false);
+  });
+
+  test("traces but propagates nothing without allowHosts", async () => {
+    instrumentFetch();
+    await Tracer.span("agent", async () => {
+      Tracer.setCustomerId("acme");
+      await fetch("https://api.thirdparty.com/");
+    });
+
+    expect(tracer.spans).toHaveLength(2);
+    expect(sent[0].has("traceparent")).toBe(false);
+    expect(sent[0].has("baggage")).toBe(false);
+  });
+
+  test("keeps propagation headers away from denied and unlisted hosts", async () => {
+    instrumentFetch({
+      allowHosts: ["*.internal.example.com", /^billing\./],
+      denyHosts: ["secret.internal.example.com"],
+    });
+    await Tracer.span("agent", async () => {
+      await fetch("https://svc.internal.example.com/");
+      await fetch("https://billing.example.com/");
+      await fetch("https://secret.internal.example.com/");
+      await fetch("https://api.thirdparty.com/");
+    });
+
+    expect(sent.map((headers) => headers.has("traceparent"))).toEqual([
+      true,
+      true,
+      false,
+      false,
+    ]);
+    expect(tracer.spans).toHaveLength(5);
+  });
+
+  test("marks failed requests and restores fetch on uninstrument", async () => {
+    const stub = globalThis.fetch;
+    const restore = instrumentFetch();
+    fail = new TypeError("fetch failed");
+
+    await Tracer.span("agent", async () => {
+      await expect(fetch("https://svc.example.com/")).rejects.toThrow(
+        "fetch failed",
+      );
+    });
+    restore();
+
+    expect(globalThis.fetch).toBe(stub);
+    const client = tracer.spans.find((span) => span.kind === SpanKind.CLIENT)!;
+    expect(client.status.message).toBe("TypeError: fetch failed");
+  });
+});
+
+describe("instrumentUndici", () => {
+  let tracer: TestTracer;
+
+  beforeEach(() => {
+    tracer = createTestTracer();
+  });
+
+  afterEach(() => {
+    uninstrumentUndici();
+    tracer.dispose();
+  });
+
+  function undiciRequest(origin: string) {
+    const headers: string[] = [];
+    return {
+      origin,
+      method: "GET",
+      path: "/items?page=2",
+      headers,
+      addHeader(name: string, value: string) {
+        headers.push(name, value);
+      },
+    };
+  }
+
+  test("traces requests published on undici's diagnostics channels", () => {
+    instrumentUndici({ allowHosts: ["svc.example.com"] });
+    const internal = undiciRequest("https://svc.example.com");
+    const external = undiciRequest("https://api.thirdparty.com");
+
+    Tracer.span("agent", () => {
+      channel("undici:request:create").publish({ request: internal });
+      channel("undici:request:create").publish({ request: external });
+    });
+    channel("undici:request:headers").publish({
+      request: internal,
+      response: { statusCode: 503 },
+    });
+    channel("undici:request:error").publish({
+      request: external,
+      error: new Error("socket hang up"),
+    });
+
+    expect(internal.headers).toContain("traceparent");
+    expect(external.headers).not.toContain("traceparent");
+    expectSpanTree(tracer.spans, {
+      name: "agent",
+      children: [
+        {
+          name: "GET svc.example.com",
+          status: "error",
+          attributes: {
+            [AttributeKeys.URL_FULL]: "https://svc.example.com/items",
+            [AttributeKeys.HTTP_RESPONSE_STATUS_CODE]: 503,
+          },
+        },
+        { name: "GET api.thirdparty.com", status: "error" },
+      ],
+    });
+  });
+
+  test("skips requests already traced by instrumentFetch, for any host", async () => {
+    const originalFetch = globalThis.fetch;
+    const sent: ReturnType<typeof undiciRequest>[] = [];
+    // Node's fetch dispatches through undici after some async steps.
+    globalThis.fetch = (async (input: unknown, init?: RequestInit) => {
+      await Promise.resolve();
+      const url = new URL(String(input));
+      const request = undiciRequest(url.origin);
+      new Headers(init?.headers).forEach((value, key) => {
+        request.addHeader(key, value);
+      });
+      sent.push(request);
+      channel("undici:request:create").publish({ request });
+      channel("undici:request:headers").publish({
+        request,
+        response: { statusCode: 200 },
+      });
+      return new Response("ok");
+    }) as typeof fetch;
+    try {
+      instrumentFetch({ allowHosts: ["svc.example.com"] });
+      instrumentUndici({ allowHosts: ["svc.example.com"] });
+      await Tracer.span("agent", async () => {
+        await fetch("https://svc.example.com/");
+        await fetch("https://api.thirdparty.com/");
+      });
+    } finally {
+      uninstrumentFetch();
+      globalThis.fetch = originalFetch;
+    }
+
+    expect(
+      sent.map((request) => request.headers.includes("traceparent")),
+    ).toEqual([true, false]);
+    expectSpanTree(tracer.spans, {
+      name: "agent",
+      children: [
+        { name: "GET svc.example.com" },
+        { name: "GET api.thirdparty.com" },
+      ],
+    });
+    expect(tracer.spans).toHaveLength(3);
+  });
+
+  test("stops tracing after uninstrument", () => {
+    instrumentUndici()();
+    Tracer.span("agent", () => {
+      channel("undici:request:create").publish({
+        request: undiciRequest("https://svc.example.com"),
+      });
+    });
+
+    expect(tracer.spans.map((span) => span.name)).toEqual(["agent"]);
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  type Context,
+  type Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import { BaseTracer } from "../BaseTracer";
+import { getTraceRuntime } from "../runtime";
+
+/**
+ * A host to match: an exact hostname, a `*.`-prefixed wildcard matching
+ * subdomains (`"*.internal.example.com"`), or a pattern tested against
+ * the hostname.
+ */
+export type HostPattern = string | RegExp;
+
+/**
+ * Options for {@link instrumentFetch} and {@link instrumentUndici}.
+ */
+export interface HttpClientInstrumentationOptions {
+  /**
+   * Hosts that receive `traceparent` and baggage headers. No other host
+   * does, so with no `allowHosts` requests are traced but nothing is
+   * propagated, and customer, user, and session IDs never reach
+   * third-party APIs.
+   */
+  allowHosts?: HostPattern[];
+  /** Hosts that never receive propagation headers. Wins over `allowHosts`. */
+  denyHosts?: HostPattern[];
+  /** Return `true` to skip a request entirely: no span and no headers. */
+  ignore?: (url: URL) => boolean;
+  /**
+   * Only trace requests made inside an active span, so background
+   * requests do not start traces of their own. Defaults to `true`.
+   */
+  requireParentSpan?: boolean;
+}
+
+/** A started client span and the context to send the request in. */
+export interface ClientSpan {
+  span: Span;
+  context: Context;
+  /** Whether propagation headers may be sent to the request's host. */
+  propagate: boolean;
+}
+
+function matchesHost(hostname: string, pattern: HostPattern): boolean {
+  if (pattern instanceof RegExp) return pattern.test(hostname);
+  const host = pattern.toLowerCase();
+  return host.startsWith("*.")
+    ? hostname.endsWith(host.slice(1))
+    : hostname === host;
+}
+
+function sameOrigin(url: URL, other: string | null): boolean {
+  if (!other) return false;
+  try {
+    return new URL(other).origin === url.origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start a client span for an outbound request, unless the request is
+ * ignored, goes to the Judgment API, or has no parent span when one is
+ * required.
+ */
+export function startClientSpan(
+  method: string,
+  url: URL,
+  options: HttpClientInstrumentationOptions,
+): ClientSpan | null {
+  const runtime = getTraceRuntime();
+  const tracer = runtime.getActiveTracer();
+  if (!tracer || sameOrigin(url, tracer.apiUrl)) return null;
+  if (options.ignore?.(url)) return null;
+  const parentContext = runtime.getCurrentContext();
+  const parent = trace.getSpan(parentContext);
+  if ((options.requireParentSpan ?? true) && !parent?.isRecording()) {
+    return null;
+  }
+
+  const verb = method.toUpperCase();
+  const span = BaseTracer.getOTELTracer().startSpan(
+    `${verb} ${url.host}`,
+    {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        [AttributeKeys.HTTP_REQUEST_METHOD]: verb,
+        [AttributeKeys.URL_FULL]: `${url.origin}${url.pathname}`,
+        [AttributeKeys.SERVER_ADDRESS]: url.hostname,
+      },
+    },
+    parentContext,
+  );
+
+  const hostname = url.hostname.toLowerCase();
+  const propagate =
+    !options.denyHosts?.some((pattern) => matchesHost(hostname, pattern)) &&
+    (options.allowHosts?.some((pattern) => matchesHost(hostname, pattern)) ??
+      false);
+  return { span, context: trace.setSpan(parentContext, span), propagate };
+}
+
+/** Record the response status or error on a client span and end it. */
+export function endClientSpan(
+  span: Span,
+  status: number | null,
+  error?: unknown,
+): void {
+  if (status !== null) {
+    span.setAttribute(AttributeKeys.HTTP_RESPONSE_STATUS_CODE, status);
+  }
+  if (error !== undefined) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    span.recordException(err);
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: `${err.name}: ${err.message}`,
+    });
+  } else if (status !== null && status >= 400) {
+    span.setStatus({ code: SpanStatusCode.ERROR, message: `HTTP ${status}` });
+  }
+  span.end();
+}
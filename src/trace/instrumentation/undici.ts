@@ -0,0 +1,122 @@
+import type { Span } from "@opentelemetry/api";
+// `channel(...).subscribe` rather than `subscribe`, which needs Node 18.7.
+import { type Channel, channel } from "diagnostics_channel";
+import { dontThrow } from "../../utils/dont-throw";
+import { inject } from "../propagation";
+import { getTraceRuntime } from "../runtime";
+import { FETCH_SPAN_KEY } from "./fetch";
+import {
+  endClientSpan,
+  type HttpClientInstrumentationOptions,
+  startClientSpan,
+} from "./httpClient";
+
+/** The parts of an undici request published on its diagnostics channels. */
+interface UndiciRequest {
+  origin: string | URL;
+  method: string;
+  path: string;
+  headers: string | string[];
+  addHeader(name: string, value: string): unknown;
+}
+
+type Listener = (message: unknown, name: string | symbol) => void;
+
+let stop: (() => void) | null = null;
+
+/** Whether an instrumented `fetch` already traces the current request. */
+function tracedByFetch(): boolean {
+  return (
+    getTraceRuntime().getCurrentContext().getValue(FETCH_SPAN_KEY) !== undefined
+  );
+}
+
+/**
+ * Instrument requests made with undici (`undici.request`, `undici.fetch`,
+ * undici `Client`s and `Agent`s) through its diagnostics channels: each
+ * request inside a traced operation gets a client span and, for hosts
+ * in `allowHosts`, `traceparent` and Judgment baggage headers.
+ *
+ * On Node this also covers global `fetch`, which is built on undici.
+ * Requests already traced by {@link instrumentFetch} are skipped, so the
+ * two can be enabled together. Node only.
+ *
+ * Calling it again replaces the previous options.
+ *
+ * @param options - Host allow and deny lists, and requests to skip.
+ * @returns A function that stops the instrumentation.
+ *
+ * @example
+ * ```typescript
+ * instrumentUndici({
+ *   allowHosts: ["*.internal.example.com"],
+ *   denyHosts: ["billing.internal.example.com"],
+ * });
+ * ```
+ */
+export function instrumentUndici(
+  options: HttpClientInstrumentationOptions = {},
+): () => void {
+  uninstrumentUndici();
+  const spans = new WeakMap<object, Span>();
+
+  const onCreate: Listener = (message) => {
+    dontThrow("instrumentUndici.create", () => {
+      const { request } = message as { request: UndiciRequest };
+      if (tracedByFetch()) return;
+      const client = startClientSpan(
+        request.method,
+        new URL(request.path, request.origin),
+        options,
+      );
+      if (!client) return;
+      spans.set(request, client.span);
+      if (client.propagate) {
+        inject(request, client.context, {
+          set(carrier, key, value) {
+            carrier.addHeader(key, value);
+          },
+        });
+      }
+    });
+  };
+  const onHeaders: Listener = (message) => {
+    const { request, response } = message as {
+      request: object;
+      response: { statusCode: number };
+    };
+    const span = spans.get(request);
+    if (!span) return;
+    spans.delete(request);
+    endClientSpan(span, response.statusCode);
+  };
+  const onError: Listener = (message) => {
+    const { request, error } = message as { request: object; error: unknown };
+    const span = spans.get(request);
+    if (!span) return;
+    spans.delete(request);
+    endClientSpan(span, null, error);
+  };
+
+  // Held here so the channels stay alive while subscribed.
+  const channels: [Channel, Listener][] = [
+    [channel("undici:request:create"), onCreate],
+    [channel("undici:request:headers"), onHeaders],
+    [channel("undici:request:error"), onError],
+  ];
+  for (const [named, listener] of channels) {
+    named.subscribe(listener);
+  }
+  stop = () => {
+    for (const [named, listener] of channels) {
+      named.unsubscribe(listener);
+    }
+  };
+  return uninstrumentUndici;
+}
+
+/** Stop the instrumentation started by {@link instrumentUndici}. */
+export function uninstrumentUndici(): void {
+  stop?.();
+  stop = null;
+}
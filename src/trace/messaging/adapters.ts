@@ -0,0 +1,131 @@
+import type { TextMapGetter, TextMapSetter } from "@opentelemetry/api";
+
+/**
+ * Reads and writes trace context on one queue library's message carrier.
+ */
+export interface MessageCarrierAdapter<Carrier> {
+  getter: TextMapGetter<Carrier>;
+  setter: TextMapSetter<Carrier>;
+}
+
+/**
+ * An SQS message attribute, as sent (`StringValue`) or as received in a
+ * Lambda event (`stringValue`).
+ */
+export interface SqsMessageAttribute {
+  DataType?: string;
+  StringValue?: string;
+  dataType?: string;
+  stringValue?: string;
+}
+
+/** `MessageAttributes` of an SQS message. */
+export type SqsMessageAttributes = Record<
+  string,
+  SqsMessageAttribute | undefined
+>;
+
+/** Header values as kafkajs delivers them. */
+export type KafkaHeaderValue = string | Uint8Array | (string | Uint8Array)[];
+
+/** `headers` of a kafkajs message. */
+export type KafkaHeaders = Record<string, KafkaHeaderValue | undefined>;
+
+/** `properties.headers` of an amqplib (RabbitMQ) message. */
+export type AmqpHeaders = Record<string, unknown>;
+
+/** Job data of a BullMQ job. The context is stored under {@link BULLMQ_CONTEXT_KEY}. */
+export type BullMQJobData = Record<string, unknown>;
+
+/** Key in BullMQ job data that holds the propagated context. */
+export const BULLMQ_CONTEXT_KEY = "_judgmentContext";
+
+const decoder = new TextDecoder();
+
+function decode(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (value instanceof Uint8Array) return decoder.decode(value);
+  return undefined;
+}
+
+function decodeAll(value: unknown): string | string[] | undefined {
+  if (Array.isArray(value)) {
+    const decoded = value
+      .map(decode)
+      .filter((item): item is string => item !== undefined);
+    return decoded.length > 0 ? decoded : undefined;
+  }
+  return decode(value);
+}
+
+/** Adapter for SQS `MessageAttributes`, sent or received. */
+export const sqsAdapter: MessageCarrierAdapter<SqsMessageAttributes> = {
+  getter: {
+    keys: (carrier) => Object.keys(carrier),
+    get: (carrier, key) => {
+      const attribute = carrier[key];
+      return attribute?.StringValue ?? attribute?.stringValue;
+    },
+  },
+  setter: {
+    set: (carrier, key, value) => {
+      carrier[key] = { DataType: "String", StringValue: value };
+    },
+  },
+};
+
+/** Adapter for kafkajs message `headers`. */
+export const kafkaAdapter: MessageCarrierAdapter<KafkaHeaders> = {
+  getter: {
+    keys: (carrier) => Object.keys(carrier),
+    get: (carrier, key) => decodeAll(carrier[key]),
+  },
+  setter: {
+    set: (carrier, key, value) => {
+      carrier[key] = value;
+    },
+  },
+};
+
+/** Adapter for amqplib (RabbitMQ) message `properties.headers`. */
+export const rabbitmqAdapter: MessageCarrierAdapter<AmqpHeaders> = {
+  getter: {
+    keys: (carrier) => Object.keys(carrier),
+    get: (carrier, key) => decodeAll(carrier[key]),
+  },
+  setter: {
+    set: (carrier, key, value) => {
+      carrier[key] = value;
+    },
+  },
+};
+
+function bullmqContext(
+  data: BullMQJobData,
+  create: boolean,
+): Record<string, string> | undefined {
+  const existing = data[BULLMQ_CONTEXT_KEY];
+  if (typeof existing === "object" && existing !== null) {
+    return existing as Record<string, string>;
+  }
+  if (!create) return undefined;
+  const context: Record<string, string> = {};
+  data[BULLMQ_CONTEXT_KEY] = context;
+  return context;
+}
+
+/**
+ * Adapter for BullMQ job data. BullMQ jobs have no headers, so the
+ * context is stored in the data under {@link BULLMQ_CONTEXT_KEY}.
+ */
+export const bullmqAdapter: MessageCarrierAdapter<BullMQJobData> = {
+  getter: {
+    keys: (carrier) => Object.keys(bullmqContext(carrier, false) ?? {}),
+    get: (carrier, key) => bullmqContext(carrier, false)?.[key],
+  },
+  setter: {
+    set: (carrier, key, value) => {
+      bullmqContext(carrier, true)![key] = value;
+    },
+  },
+};
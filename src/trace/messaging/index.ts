@@ -0,0 +1,27 @@
+/**
+ * Propagate trace context and Judgment baggage through message queues,
+ * whose messages carry it in provider-specific attributes or headers
+ * rather than HTTP headers.
+ */
+
+export {
+  BULLMQ_CONTEXT_KEY,
+  bullmqAdapter,
+  kafkaAdapter,
+  rabbitmqAdapter,
+  sqsAdapter,
+  type AmqpHeaders,
+  type BullMQJobData,
+  type KafkaHeaders,
+  type KafkaHeaderValue,
+  type MessageCarrierAdapter,
+  type SqsMessageAttribute,
+  type SqsMessageAttributes,
+} from "./adapters";
+export {
+  consumer,
+  producer,
+  type ConsumerOptions,
+  type MessageHandler,
+  type MessagingOptions,
+} from "./queue";
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { SpanKind } from "@opentelemetry/api";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import {
+  createTestTracer,
+  expectSpanTree,
+  type TestTracer,
+} from "../../testing";
+import { Tracer } from "../Tracer";
+import {
+  BULLMQ_CONTEXT_KEY,
+  bullmqAdapter,
+  consumer,
+  kafkaAdapter,
+  type KafkaHeaders,
+  producer,
+  rabbitmqAdapter,
+  sqsAdapter,
+  type SqsMessageAttributes,
+} from ".";
+
+const TRACEPARENT = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+
+describe("carrier adapters", () => {
+  test("sqs writes string attributes and reads sent or received shapes", () => {
+    const attributes: SqsMessageAttributes = {};
+    sqsAdapter.setter.set(attributes, "traceparent", TRACEPARENT);
+
+    expect(attributes.traceparent).toEqual({
+      DataType: "String",
+      StringValue: TRACEPARENT,
+    });
+    expect(
+      sqsAdapter.getter.get(
+        { traceparent: { dataType: "String", stringValue: TRACEPARENT } },
+        "traceparent",
+      ),
+    ).toBe(TRACEPARENT);
+  });
+
+  test("kafka and rabbitmq decode buffer header values", () => {
+    const bytes = new TextEncoder().encode(TRACEPARENT);
+    const headers: KafkaHeaders = { traceparent: bytes, baggage: [bytes] };
+
+    expect(kafkaAdapter.getter.get(headers, "traceparent")).toBe(TRACEPARENT);
+    expect(kafkaAdapter.getter.get(headers, "baggage")).toEqual([TRACEPARENT]);
+    expect(
+      rabbitmqAdapter.getter.get({ traceparent: bytes }, "traceparent"),
+    ).toBe(TRACEPARENT);
+  });
+
+  test("bullmq keeps the context under a reserved key in job data", () => {
+    const data: Record<string, unknown> = { orderId: 7 };
+    bullmqAdapter.setter.set(data, "traceparent", TRACEPARENT);
+
+    expect(data[BULLMQ_CONTEXT_KEY]).toEqual({ traceparent: TRACEPARENT });
+    expect(bullmqAdapter.getter.keys(data)).toEqual(["traceparent"]);
+    expect(bullmqAdapter.getter.keys({ orderId: 7 })).toEqual([]);
+  });
+});
+
+describe("producer and consumer", () => {
+  let tracer: TestTracer;
+
+  beforeEach(() => {
+    tracer = createTestTracer();
+  });
+
+  afterEach(() => {
+    tracer.dispose();
+  });
+
+  const options = {
+    system: "kafka",
+    destination: "orders",
+    adapter: kafkaAdapter,
+  };
+
+  test("consumer continues the producer's trace as a child", async () => {
+    const headers: KafkaHeaders = {};
+    await Tracer.span("checkout", async () => {
+      Tracer.setCustomerId("acme");
+      await producer(options)(headers, () => Promise.resolve());
+    });
+    const handled = await consumer(options)(headers, () =>
+      Promise.resolve(Tracer.getCurrentTraceId()),
+    );
+
+    const checkout = expectSpanTree(tracer.spans, {
+      name: "checkout",
+      children: [
+        {
+          name: "send orders",
+          attributes: {
+            [AttributeKeys.MESSAGING_SYSTEM]: "kafka",
+            [AttributeKeys.MESSAGING_OPERATION_TYPE]: "send",
+          },
+          children: [
+            {
+              name: "process orders",
+              attributes: {
+                [AttributeKeys.MESSAGING_DESTINATION_NAME]: "orders",
+                [AttributeKeys.MESSAGING_OPERATION_TYPE]: "process",
+                [AttributeKeys.JUDGMENT_CUSTOMER_ID]: "acme",
+              },
+            },
+          ],
+        },
+      ],
+    });
+    expect(handled).toBe(checkout.spanContext().traceId);
+    expect(
+      tracer.spans.find((span) => span.kind === SpanKind.CONSUMER),
+    ).toBeDefined();
+  });
+
+  test("linked consumer starts a new trace pointing at the producer", () => {
+    const attributes: SqsMessageAttributes = {};
+    const sqs = { system: "aws_sqs", destination: "jobs", adapter: sqsAdapter };
+    Tracer.span("enqueue", () => {
+      producer(sqs)(attributes, () => undefined);
+    });
+
+    expect(() =>
+      consumer({ ...sqs, link: true })(attributes, () => {
+        throw new Error("poison message");
+      }),
+    ).toThrow("poison message");
+
+    const send = tracer.spans.find((span) => span.name === "send jobs")!;
+    const process = tracer.spans.find((span) => span.name === "process jobs")!;
+    expect(process.parentSpanContext).toBeUndefined();
+    expect(process.spanContext().traceId).not.toBe(send.spanContext().traceId);
+    expect(process.attributes).toMatchObject({
+      [AttributeKeys.JUDGMENT_LINK_SOURCE_TRACE_ID]: send.spanContext().traceId,
+      [AttributeKeys.JUDGMENT_LINK_SOURCE_SPAN_ID]: send.spanContext().spanId,
+    });
+    expect(process.status.message).toBe("Error: poison message");
+  });
+});
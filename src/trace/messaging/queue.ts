@@ -0,0 +1,190 @@
+import {
+  type Attributes,
+  type Context,
+  INVALID_SPAN_CONTEXT,
+  ROOT_CONTEXT,
+  type Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import { BaseTracer } from "../BaseTracer";
+import { extract, inject } from "../propagation";
+import { getTraceRuntime } from "../runtime";
+import type { MessageCarrierAdapter } from "./adapters";
+
+/**
+ * Options shared by {@link producer} and {@link consumer}.
+ */
+export interface MessagingOptions<Carrier> {
+  /** The messaging system, e.g. `"aws_sqs"`, `"kafka"`, `"rabbitmq"`. */
+  system: string;
+  /** The queue, topic, or exchange name. Used in span names. */
+  destination: string;
+  /** Reads and writes the context on the library's message carrier. */
+  adapter: MessageCarrierAdapter<Carrier>;
+}
+
+/**
+ * Options for {@link consumer}.
+ */
+export interface ConsumerOptions<Carrier> extends MessagingOptions<Carrier> {
+  /**
+   * Process each message in a new trace linked to the producer's, instead
+   * of as a child span in the producer's trace. Use it for long-lived or
+   * fan-out consumers whose work should not extend the producer's trace.
+   * Defaults to `false`.
+   */
+  link?: boolean;
+}
+
+/** Runs `fn` in a span for one message, with its carrier. */
+export type MessageHandler<Carrier> = <T>(
+  carrier: Carrier,
+  fn: (span: Span) => T,
+) => T;
+
+function attributesFor(
+  options: MessagingOptions<unknown>,
+  operation: "send" | "process",
+): Attributes {
+  return {
+    [AttributeKeys.MESSAGING_SYSTEM]: options.system,
+    [AttributeKeys.MESSAGING_DESTINATION_NAME]: options.destination,
+    [AttributeKeys.MESSAGING_OPERATION_TYPE]: operation,
+  };
+}
+
+function recordError(span: Span, error: unknown): void {
+  const err = error instanceof Error ? error : new Error(String(error));
+  span.recordException(err);
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: `${err.name}: ${err.message}`,
+  });
+}
+
+/** Run `fn` with `span` active in `context`, ending it when `fn` settles. */
+function runInSpan<T>(span: Span, context: Context, fn: (span: Span) => T): T {
+  let result: T;
+  try {
+    result = getTraceRuntime().withContext(context, () => fn(span));
+  } catch (e) {
+    recordError(span, e);
+    span.end();
+    throw e;
+  }
+  if (result instanceof Promise) {
+    return result.then(
+      (value: unknown) => {
+        span.end();
+        return value;
+      },
+      (e: unknown) => {
+        recordError(span, e);
+        span.end();
+        throw e;
+      },
+    ) as T;
+  }
+  span.end();
+  return result;
+}
+
+/**
+ * Create a handler that sends messages in a producer span, writing its
+ * trace context and Judgment baggage into each message's carrier.
+ *
+ * Pass the carrier before it is sent, and send the message inside `fn`.
+ *
+ * @param options - The system, destination, and carrier adapter.
+ * @returns A function that opens a `send <destination>` span, injects the
+ *   context into `carrier`, and runs `fn` inside the span.
+ *
+ * @example
+ * ```typescript
+ * const send = messaging.producer({
+ *   system: "aws_sqs",
+ *   destination: "orders",
+ *   adapter: messaging.sqsAdapter,
+ * });
+ *
+ * const MessageAttributes = {};
+ * await send(MessageAttributes, () =>
+ *   sqs.send(new SendMessageCommand({ QueueUrl, MessageBody, MessageAttributes })),
+ * );
+ * ```
+ */
+export function producer<Carrier>(
+  options: MessagingOptions<Carrier>,
+): MessageHandler<Carrier> {
+  return (carrier, fn) => {
+    const parent = getTraceRuntime().getCurrentContext();
+    const span = BaseTracer.getOTELTracer().startSpan(
+      `send ${options.destination}`,
+      { kind: SpanKind.PRODUCER, attributes: attributesFor(options, "send") },
+      parent,
+    );
+    const context = trace.setSpan(parent, span);
+    inject(carrier, context, options.adapter.setter);
+    return runInSpan(span, context, fn);
+  };
+}
+
+/**
+ * Create a handler that processes messages in a consumer span, continuing
+ * the trace context and Judgment baggage carried by each message.
+ *
+ * By default the span is a child of the producer span. With `link`, it is
+ * the root of a new trace instead, carrying the same
+ * `judgment.link.source_*` attributes as `Tracer.observe` with `fork`.
+ *
+ * @param options - The system, destination, carrier adapter, and whether
+ *   to link instead of continuing the trace.
+ * @returns A function that opens a `process <destination>` span for the
+ *   context in `carrier` and runs `fn` inside it.
+ *
+ * @example
+ * ```typescript
+ * const handle = messaging.consumer({
+ *   system: "kafka",
+ *   destination: "orders",
+ *   adapter: messaging.kafkaAdapter,
+ *   link: true,
+ * });
+ *
+ * await consumer.run({
+ *   eachMessage: ({ message }) =>
+ *     handle(message.headers ?? {}, () => processOrder(message)),
+ * });
+ * ```
+ */
+export function consumer<Carrier>(
+  options: ConsumerOptions<Carrier>,
+): MessageHandler<Carrier> {
+  return (carrier, fn) => {
+    const extracted = extract(carrier, ROOT_CONTEXT, options.adapter.getter);
+    const attributes = attributesFor(options, "process");
+    let parent = extracted;
+    if (options.link) {
+      const source = trace.getSpanContext(extracted);
+      if (source) {
+        attributes[AttributeKeys.JUDGMENT_LINK_SOURCE_TRACE_ID] =
+          source.traceId;
+        attributes[AttributeKeys.JUDGMENT_LINK_SOURCE_SPAN_ID] = source.spanId;
+      }
+      // Keep the baggage but start a new trace.
+      parent = trace.setSpan(
+        extracted,
+        trace.wrapSpanContext(INVALID_SPAN_CONTEXT),
+      );
+    }
+    const span = BaseTracer.getOTELTracer().startSpan(
+      `process ${options.destination}`,
+      { kind: SpanKind.CONSUMER, attributes },
+      parent,
+    );
+    return runInSpan(span, trace.setSpan(parent, span), fn);
+  };
+}
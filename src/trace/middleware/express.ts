@@ -0,0 +1,88 @@
+import {
+  type HttpMiddlewareOptions,
+  type RequestTrace,
+  startRequestTrace,
+} from "./requestTrace";
+
+/** The parts of an Express (or Connect) request the middleware reads. */
+export interface ExpressRequestLike {
+  method: string;
+  url: string;
+  path?: string;
+  baseUrl?: string;
+  route?: { path?: unknown };
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/** The parts of an Express (or Node `http`) response the middleware reads. */
+export interface ExpressResponseLike {
+  statusCode: number;
+  once(event: "finish" | "close", listener: () => void): unknown;
+}
+
+const requestTraces = new WeakMap<object, RequestTrace>();
+
+function routeOf(req: ExpressRequestLike): string | undefined {
+  const path = req.route?.path;
+  return typeof path === "string" ? `${req.baseUrl ?? ""}${path}` : undefined;
+}
+
+/**
+ * Express middleware that continues the upstream trace and wraps each
+ * request in a server span named after its route, e.g. `GET /users/:id`.
+ *
+ * Register it before your routes. Errors passed to `next(err)` are only
+ * seen by {@link expressErrorHandler}; without it, responses with a 5xx
+ * status still mark the span as failed.
+ *
+ * @param options - ID extractors and requests to ignore.
+ * @returns The middleware.
+ *
+ * @example
+ * ```typescript
+ * app.use(expressMiddleware({ sessionId: "x-session-id" }));
+ * app.post("/chat", handler);
+ * app.use(expressErrorHandler());
+ * ```
+ */
+export function expressMiddleware(options: HttpMiddlewareOptions = {}) {
+  return (
+    req: ExpressRequestLike,
+    res: ExpressResponseLike,
+    next: (err?: unknown) => void,
+  ): void => {
+    const requestTrace = startRequestTrace(
+      { method: req.method, path: req.path ?? req.url, headers: req.headers },
+      options,
+    );
+    if (!requestTrace) {
+      next();
+      return;
+    }
+    requestTraces.set(req, requestTrace);
+    const end = () => requestTrace.end(res.statusCode, routeOf(req));
+    res.once("finish", end);
+    res.once("close", end);
+    requestTrace.run(() => next());
+  };
+}
+
+/**
+ * Express error-handling middleware that records errors passed to
+ * `next(err)` on the request span, then passes them on.
+ *
+ * Register it after your routes and before your own error handlers.
+ *
+ * @returns The error-handling middleware.
+ */
+export function expressErrorHandler() {
+  return (
+    err: unknown,
+    req: ExpressRequestLike,
+    _res: ExpressResponseLike,
+    next: (err?: unknown) => void,
+  ): void => {
+    requestTraces.get(req)?.fail(err);
+    next(err);
+  };
+}
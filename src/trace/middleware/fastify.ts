@@ -0,0 +1,121 @@
+import {
+  type HttpMiddlewareOptions,
+  type RequestTrace,
+  startRequestTrace,
+} from "./requestTrace";
+
+/** The parts of a Fastify request the plugin reads. */
+export interface FastifyRequestLike {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  routeOptions?: { url?: string };
+}
+
+/** The parts of a Fastify reply the plugin reads. */
+export interface FastifyReplyLike {
+  statusCode: number;
+  /** The underlying Node response. */
+  raw: { once(event: "close", listener: () => void): unknown };
+}
+
+type Handler = (
+  this: unknown,
+  request: FastifyRequestLike,
+  reply: FastifyReplyLike,
+) => unknown;
+
+/** The parts of a Fastify instance the plugin uses. */
+export interface FastifyInstanceLike {
+  addHook(
+    name: "onRequest" | "onResponse",
+    hook: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+      done: () => void,
+    ) => void,
+  ): unknown;
+  addHook(
+    name: "onError",
+    hook: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+      error: unknown,
+      done: () => void,
+    ) => void,
+  ): unknown;
+  addHook(
+    name: "onRoute",
+    hook: (route: { handler: Handler }) => void,
+  ): unknown;
+}
+
+const requestTraces = new WeakMap<object, RequestTrace>();
+
+/**
+ * Fastify plugin that continues the upstream trace and wraps each
+ * request in a server span named after its route, e.g. `GET /users/:id`.
+ * Errors thrown by handlers and hooks are recorded on the span, and
+ * requests the client aborts still end it.
+ *
+ * Register it before your routes: route handlers are wrapped as they are
+ * added so they run inside the request span. The plugin applies to the
+ * whole instance, not just its own encapsulation context.
+ *
+ * @example
+ * ```typescript
+ * await app.register(fastifyPlugin, { sessionId: "x-session-id" });
+ * app.get("/users/:id", handler);
+ * ```
+ */
+export function fastifyPlugin(
+  fastify: FastifyInstanceLike,
+  options: HttpMiddlewareOptions,
+  done: (err?: Error) => void,
+): void {
+  fastify.addHook("onRequest", (request, reply, next) => {
+    const requestTrace = startRequestTrace(
+      { method: request.method, path: request.url, headers: request.headers },
+      options,
+    );
+    if (requestTrace) {
+      requestTraces.set(request, requestTrace);
+      // `onResponse` does not run when the client disconnects first.
+      reply.raw.once("close", () =>
+        requestTrace.end(reply.statusCode, request.routeOptions?.url),
+      );
+    }
+    next();
+  });
+
+  fastify.addHook("onRoute", (route) => {
+    const handler = route.handler;
+    route.handler = function (this: unknown, request, reply) {
+      const requestTrace = requestTraces.get(request);
+      return requestTrace
+        ? requestTrace.run(() => handler.call(this, request, reply))
+        : handler.call(this, request, reply);
+    };
+  });
+
+  fastify.addHook("onError", (request, _reply, error, next) => {
+    requestTraces.get(request)?.fail(error);
+    next();
+  });
+
+  fastify.addHook("onResponse", (request, reply, next) => {
+    requestTraces
+      .get(request)
+      ?.end(reply.statusCode, request.routeOptions?.url);
+    next();
+  });
+
+  done();
+}
+
+// Same effect as wrapping with `fastify-plugin`: skip encapsulation so the
+// hooks see every route.
+Object.assign(fastifyPlugin, {
+  [Symbol.for("skip-override")]: true,
+  [Symbol.for("fastify.display-name")]: "judgeval",
+});
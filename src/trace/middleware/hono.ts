@@ -0,0 +1,68 @@
+import { type HttpMiddlewareOptions, startRequestTrace } from "./requestTrace";
+
+/** The parts of a Hono context the middleware reads. */
+export interface HonoContextLike {
+  req: {
+    method: string;
+    path: string;
+    routePath?: string;
+    raw: {
+      headers: { forEach(fn: (value: string, key: string) => void): void };
+    };
+  };
+  res: { status: number };
+  /** Set by Hono when a handler throws and `app.onError` handles it. */
+  error?: unknown;
+}
+
+function routeOf(c: HonoContextLike): string | undefined {
+  const route = c.req.routePath;
+  // Unmatched requests report the catch-all path of this middleware.
+  return route && route !== "*" && route !== "/*" ? route : undefined;
+}
+
+/**
+ * Hono middleware that continues the upstream trace and wraps each
+ * request in a server span named after its route, e.g. `GET /users/:id`.
+ * Errors handled by `app.onError` are recorded on the span.
+ *
+ * Register it first with `app.use("*", ...)`. Works on Node, Bun, and
+ * Cloudflare Workers.
+ *
+ * @param options - ID extractors and requests to ignore.
+ * @returns The middleware.
+ *
+ * @example
+ * ```typescript
+ * app.use("*", honoMiddleware({ userId: "x-user-id" }));
+ * app.get("/users/:id", handler);
+ * ```
+ */
+export function honoMiddleware(options: HttpMiddlewareOptions = {}) {
+  return async (
+    c: HonoContextLike,
+    next: () => Promise<void>,
+  ): Promise<void> => {
+    const headers: Record<string, string> = {};
+    c.req.raw.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    const requestTrace = startRequestTrace(
+      { method: c.req.method, path: c.req.path, headers },
+      options,
+    );
+    if (!requestTrace) {
+      await next();
+      return;
+    }
+    try {
+      await requestTrace.run(next);
+    } catch (err) {
+      requestTrace.fail(err);
+      requestTrace.end(500, routeOf(c));
+      throw err;
+    }
+    if (c.error !== undefined) requestTrace.fail(c.error);
+    requestTrace.end(c.res.status, routeOf(c));
+  };
+}
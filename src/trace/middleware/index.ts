@@ -0,0 +1,20 @@
+export {
+  type HeaderExtractor,
+  type HttpMiddlewareOptions,
+  type HttpRequestInfo,
+  type RequestHeaders,
+} from "./requestTrace";
+export {
+  expressErrorHandler,
+  expressMiddleware,
+  type ExpressRequestLike,
+  type ExpressResponseLike,
+} from "./express";
+export {
+  fastifyPlugin,
+  type FastifyInstanceLike,
+  type FastifyReplyLike,
+  type FastifyRequestLike,
+} from "./fastify";
+export { honoMiddleware, type HonoContextLike } from "./hono";
+export { koaMiddleware, type KoaContextLike } from "./koa";
@@ -0,0 +1,61 @@
+import { type HttpMiddlewareOptions, startRequestTrace } from "./requestTrace";
+
+/** The parts of a Koa context the middleware reads. */
+export interface KoaContextLike {
+  method: string;
+  path: string;
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  /** Set by `@koa/router` to the matched route. */
+  _matchedRoute?: unknown;
+}
+
+function routeOf(ctx: KoaContextLike): string | undefined {
+  return typeof ctx._matchedRoute === "string" ? ctx._matchedRoute : undefined;
+}
+
+function statusOf(err: unknown): number {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : 500;
+}
+
+/**
+ * Koa middleware that continues the upstream trace and wraps each
+ * request in a server span named after its `@koa/router` route, e.g.
+ * `GET /users/:id`. Errors thrown by downstream middleware are recorded
+ * on the span and rethrown.
+ *
+ * Register it first, so it wraps every other middleware.
+ *
+ * @param options - ID extractors and requests to ignore.
+ * @returns The middleware.
+ *
+ * @example
+ * ```typescript
+ * app.use(koaMiddleware({ customerId: "x-customer-id" }));
+ * app.use(router.routes());
+ * ```
+ */
+export function koaMiddleware(options: HttpMiddlewareOptions = {}) {
+  return async (
+    ctx: KoaContextLike,
+    next: () => Promise<unknown>,
+  ): Promise<void> => {
+    const requestTrace = startRequestTrace(
+      { method: ctx.method, path: ctx.path, headers: ctx.headers },
+      options,
+    );
+    if (!requestTrace) {
+      await next();
+      return;
+    }
+    try {
+      await requestTrace.run(next);
+    } catch (err) {
+      requestTrace.fail(err);
+      requestTrace.end(statusOf(err), routeOf(ctx));
+      throw err;
+    }
+    requestTrace.end(ctx.status, routeOf(ctx));
+  };
+}
@@ -0,0 +1,259 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { EventEmitter } from "events";
+import { SpanKind } from "@opentelemetry/api";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import {
+  createTestTracer,
+  expectSpanTree,
+  type TestTracer,
+} from "../../testing";
+import { Tracer } from "../Tracer";
+import {
+  expressErrorHandler,
+  expressMiddleware,
+  fastifyPlugin,
+  honoMiddleware,
+  koaMiddleware,
+} from "./index";
+
+const UPSTREAM_TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const UPSTREAM_SPAN_ID = "b7ad6b7169203331";
+const TRACEPARENT = `00-${UPSTREAM_TRACE_ID}-${UPSTREAM_SPAN_ID}-01`;
+
+describe("HTTP middleware", () => {
+  let tracer: TestTracer;
+
+  beforeEach(() => {
+    tracer = createTestTracer();
+  });
+
+  afterEach(() => {
+    tracer.dispose();
+  });
+
+  test("express continues the upstream trace under a route-named span", () => {
+    const middleware = expressMiddleware({
+      customerId: "X-Customer-Id",
+      sessionId: (headers) => headers["x-session-id"],
+    });
+    const req = {
+      method: "get",
+      url: "/users/42?full=1",
+      path: "/users/42",
+      baseUrl: "",
+      headers: {
+        traceparent: TRACEPARENT,
+        "x-customer-id": "acme",
+        "x-session-id": "session-1",
+      },
+    } as {
+      method: string;
+      url: string;
+      path: string;
+      baseUrl: string;
+      headers: Record<string, string>;
+      route?: { path: string };
+    };
+    const res = Object.assign(new EventEmitter(), { statusCode: 200 });
+
+    middleware(req, res, () => {
+      Tracer.span("load_user", () => undefined);
+      req.route = { path: "/users/:id" };
+    });
+    expect(tracer.spans).toHaveLength(1);
+    res.emit("finish");
+    res.emit("close");
+
+    const root = expectSpanTree(tracer.spans, {
+      name: "GET /users/:id",
+      status: "unset",
+      attributes: {
+        [AttributeKeys.HTTP_REQUEST_METHOD]: "GET",
+        [AttributeKeys.URL_PATH]: "/users/42",
+        [AttributeKeys.HTTP_ROUTE]: "/users/:id",
+        [AttributeKeys.HTTP_RESPONSE_STATUS_CODE]: 200,
+        [AttributeKeys.JUDGMENT_CUSTOMER_ID]: "acme",
+        [AttributeKeys.JUDGMENT_SESSION_ID]: "session-1",
+      },
+      children: [{ name: "load_user" }],
+    });
+    expect(tracer.spans).toHaveLength(2);
+    expect(root.kind).toBe(SpanKind.SERVER);
+    expect(root.spanContext().traceId).toBe(UPSTREAM_TRACE_ID);
+    expect(root.parentSpanContext?.spanId).toBe(UPSTREAM_SPAN_ID);
+    expect(typeof root.attributes[AttributeKeys.HTTP_SERVER_LATENCY_MS]).toBe(
+      "number",
+    );
+  });
+
+  test("express error handler marks the request span as failed", () => {
+    const req = { method: "POST", url: "/chat", headers: {} };
+    const res = Object.assign(new EventEmitter(), { statusCode: 200 });
+    let forwarded: unknown;
+
+    expressMiddleware()(req, res, () => {
+      expressErrorHandler()(new Error("boom"), req, res, (err) => {
+        forwarded = err;
+      });
+    });
+    res.statusCode = 500;
+    res.emit("finish");
+
+    expect((forwarded as Error).message).toBe("boom");
+    const [span] = tracer.spans;
+    // No route matched, so the path stays out of the name.
+    expect(span.name).toBe("POST");
+    expect(span.attributes[AttributeKeys.URL_PATH]).toBe("/chat");
+    expect(span.status.message).toBe("Error: boom");
+    expect(span.events.map((event) => event.name)).toEqual(["exception"]);
+  });
+
+  test("ignored requests are not traced", () => {
+    const middleware = expressMiddleware({
+      ignore: ({ path }) => path === "/health",
+    });
+    const res = Object.assign(new EventEmitter(), { statusCode: 200 });
+    let called = false;
+
+    middleware({ method: "GET", url: "/health", headers: {} }, res, () => {
+      called = true;
+    });
+    res.emit("finish");
+
+    expect(called).toBe(true);
+    expect(tracer.spans).toHaveLength(0);
+  });
+
+  test("koa records thrown errors and rethrows them", async () => {
+    const ctx = {
+      method: "DELETE",
+      path: "/items/7",
+      status: 404,
+      headers: { "x-user-id": "user-1" },
+      _matchedRoute: "/items/:id",
+    };
+    const middleware = koaMiddleware({ userId: "x-user-id" });
+
+    await expect(
+      middleware(ctx, () => {
+        Tracer.span("delete_item", () => undefined);
+        return Promise.reject(
+          Object.assign(new Error("forbidden"), { status: 403 }),
+        );
+      }),
+    ).rejects.toThrow("forbidden");
+
+    expectSpanTree(tracer.spans, {
+      name: "DELETE /items/:id",
+      status: "error",
+      attributes: {
+        [AttributeKeys.HTTP_RESPONSE_STATUS_CODE]: 403,
+        [AttributeKeys.JUDGMENT_CUSTOMER_USER_ID]: "user-1",
+      },
+      children: [{ name: "delete_item" }],
+    });
+  });
+
+  test("hono names spans after the matched route and records handled errors", async () => {
+    const c = {
+      req: {
+        method: "GET",
+        path: "/users/42",
+        routePath: "/*",
+        raw: { headers: new Headers({ traceparent: TRACEPARENT }) },
+      },
+      res: { status: 200 },
+      error: undefined as unknown,
+    };
+
+    await honoMiddleware()(c, () => {
+      Tracer.span("handler", () => undefined);
+      c.req.routePath = "/users/:id";
+      c.res.status = 500;
+      c.error = new Error("db down");
+      return Promise.resolve();
+    });
+
+    const root = expectSpanTree(tracer.spans, {
+      name: "GET /users/:id",
+      status: "error",
+      children: [{ name: "handler" }],
+    });
+    expect(root.spanContext().traceId).toBe(UPSTREAM_TRACE_ID);
+    expect(root.status.message).toBe("Error: db down");
+  });
+
+  test("fastify runs route handlers inside the request span", async () => {
+    type Hook = (...args: unknown[]) => void;
+    const hooks: Record<string, Hook> = {};
+    const instance = {
+      addHook(name: string, hook: Hook) {
+        hooks[name] = hook;
+      },
+    };
+    fastifyPlugin(instance as never, { sessionId: "x-session-id" }, () => {
+      /* registered */
+    });
+    expect(
+      (fastifyPlugin as unknown as Record<symbol, unknown>)[
+        Symbol.for("skip-override")
+      ],
+    ).toBe(true);
+
+    const route: { handler: (...args: unknown[]) => unknown } = {
+      handler: () => Tracer.span("handler", () => Promise.resolve("ok")),
+    };
+    hooks.onRoute(route);
+
+    const request = {
+      method: "PUT",
+      url: "/orders/9?dry=1",
+      headers: { "x-session-id": "s-9" },
+      routeOptions: { url: "/orders/:id" },
+    };
+    const reply = { statusCode: 503, raw: new EventEmitter() };
+    const next = () => undefined;
+    hooks.onRequest(request, reply, next);
+    expect(await route.handler(request, reply)).toBe("ok");
+    hooks.onResponse(request, reply, next);
+
+    expectSpanTree(tracer.spans, {
+      name: "PUT /orders/:id",
+      status: "error",
+      attributes: {
+        [AttributeKeys.URL_PATH]: "/orders/9",
+        [AttributeKeys.JUDGMENT_SESSION_ID]: "s-9",
+      },
+      children: [{ name: "handler" }],
+    });
+  });
+
+  test("fastify ends the span when the client aborts", () => {
+    type Hook = (...args: unknown[]) => void;
+    const hooks: Record<string, Hook> = {};
+    fastifyPlugin(
+      {
+        addHook(name: string, hook: Hook) {
+          hooks[name] = hook;
+        },
+      } as never,
+      {},
+      () => undefined,
+    );
+    const request = {
+      method: "POST",
+      url: "/chat",
+      headers: {},
+      routeOptions: { url: "/chat" },
+    };
+    const reply = { statusCode: 200, raw: new EventEmitter() };
+    hooks.onRequest(request, reply, () => undefined);
+    expect(tracer.spans).toHaveLength(0);
+
+    reply.raw.emit("close");
+    hooks.onResponse(request, reply, () => undefined);
+
+    expect(tracer.spans).toHaveLength(1);
+    expect(tracer.spans[0].name).toBe("POST /chat");
+  });
+});
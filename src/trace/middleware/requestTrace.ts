@@ -0,0 +1,173 @@
+import {
+  ROOT_CONTEXT,
+  type Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import { dontThrow } from "../../utils/dont-throw";
+import { BaseTracer } from "../BaseTracer";
+import { extract } from "../propagation";
+import { getTraceRuntime } from "../runtime";
+
+/** Request headers with lowercase names, as passed to extractors. */
+export type RequestHeaders = Record<string, string | undefined>;
+
+/**
+ * Reads an ID from request headers: either a header name, or a function
+ * returning the ID (or `undefined` to leave it unset).
+ */
+export type HeaderExtractor = string | ((headers: RequestHeaders) => unknown);
+
+/** The parts of an inbound request seen by {@link HttpMiddlewareOptions.ignore}. */
+export interface HttpRequestInfo {
+  method: string;
+  path: string;
+  headers: RequestHeaders;
+}
+
+/**
+ * Options shared by the HTTP server middleware.
+ */
+export interface HttpMiddlewareOptions {
+  /** Extracts the customer ID, set with `Tracer.setCustomerId`. */
+  customerId?: HeaderExtractor;
+  /** Extracts the customer user ID, set with `Tracer.setCustomerUserId`. */
+  userId?: HeaderExtractor;
+  /** Extracts the session ID, set with `Tracer.setSessionId`. */
+  sessionId?: HeaderExtractor;
+  /** Return `true` to leave a request untraced, e.g. health checks. */
+  ignore?: (request: HttpRequestInfo) => boolean;
+}
+
+/**
+ * The root span of one inbound request, created by the framework
+ * middleware. Spans started inside {@link run} become its children.
+ */
+export interface RequestTrace {
+  readonly span: Span;
+  /** Run `fn` with the request span and its IDs as the active context. */
+  run<T>(fn: () => T): T;
+  /** Mark the request as failed. Recorded when the trace ends. */
+  fail(error: unknown): void;
+  /**
+   * Name the span after `route` (or just the method when no route
+   * matched), record the response, and end it. Idempotent.
+   */
+  end(status: number, route?: string): void;
+}
+
+function normalizeHeaders(
+  headers: Record<string, string | string[] | number | undefined>,
+): RequestHeaders {
+  const normalized: RequestHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    normalized[name.toLowerCase()] = Array.isArray(value)
+      ? value.join(", ")
+      : String(value);
+  }
+  return normalized;
+}
+
+function readId(
+  extractor: HeaderExtractor | undefined,
+  headers: RequestHeaders,
+): string | undefined {
+  if (extractor === undefined) return undefined;
+  const value =
+    typeof extractor === "string"
+      ? headers[extractor.toLowerCase()]
+      : extractor(headers);
+  return value === undefined || value === null || value === ""
+    ? undefined
+    : String(value);
+}
+
+/**
+ * Continue the upstream trace carried by a request's headers and open a
+ * server span for it.
+ *
+ * @returns The request trace, or `null` if the request is ignored.
+ */
+export function startRequestTrace(
+  request: {
+    method: string;
+    path: string;
+    headers: Record<string, string | string[] | number | undefined>;
+  },
+  options: HttpMiddlewareOptions,
+): RequestTrace | null {
+  const method = request.method.toUpperCase();
+  const path = request.path.split("?")[0] || "/";
+  const headers = normalizeHeaders(request.headers);
+  if (options.ignore?.({ method, path, headers })) return null;
+
+  const runtime = getTraceRuntime();
+  const parent = extract(headers, ROOT_CONTEXT);
+  const span = BaseTracer.getOTELTracer().startSpan(
+    method,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        [AttributeKeys.HTTP_REQUEST_METHOD]: method,
+        [AttributeKeys.URL_PATH]: path,
+      },
+    },
+    parent,
+  );
+  const startedAt = Date.now();
+
+  // The ID setters attach an updated context; capture it so every
+  // `run` call sees the IDs and their baggage.
+  const context = runtime.withContext(trace.setSpan(parent, span), () => {
+    dontThrow("startRequestTrace.setIds", () => {
+      const customerId = readId(options.customerId, headers);
+      if (customerId) BaseTracer.setCustomerId(customerId);
+      const userId = readId(options.userId, headers);
+      if (userId) BaseTracer.setCustomerUserId(userId);
+      const sessionId = readId(options.sessionId, headers);
+      if (sessionId) BaseTracer.setSessionId(sessionId);
+    });
+    return runtime.getCurrentContext();
+  });
+
+  let error: unknown;
+  let ended = false;
+  return {
+    span,
+    run: <T>(fn: () => T): T => runtime.withContext(context, fn),
+    fail(err: unknown) {
+      error ??= err;
+    },
+    end(status: number, route?: string) {
+      if (ended) return;
+      ended = true;
+      dontThrow("RequestTrace.end", () => {
+        // Without a route, the raw path would make span names unbounded.
+        span.updateName(route ? `${method} ${route}` : method);
+        if (route) span.setAttribute(AttributeKeys.HTTP_ROUTE, route);
+        span.setAttribute(AttributeKeys.HTTP_RESPONSE_STATUS_CODE, status);
+        span.setAttribute(
+          AttributeKeys.HTTP_SERVER_LATENCY_MS,
+          Date.now() - startedAt,
+        );
+        if (error !== undefined) {
+          const err = error instanceof Error ? error : new Error(String(error));
+          span.recordException(err);
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: `${err.name}: ${err.message}`,
+          });
+        } else if (status >= 500) {
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: `HTTP ${status}`,
+          });
+        }
+      });
+      span.end();
+    },
+  };
+}
@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import type { Attributes } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import { AISDKSpanProcessor } from "./AISDKSpanProcessor";
+
+function record(name: string, attributes: Attributes): ReadableSpan {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [
+      new AISDKSpanProcessor(),
+      new SimpleSpanProcessor(exporter),
+    ],
+  });
+  const span = provider.getTracer("ai").startSpan(name, { attributes });
+  span.end();
+  const [finished] = exporter.getFinishedSpans();
+  return finished;
+}
+
+describe("AISDKSpanProcessor", () => {
+  test("maps provider calls to llm spans with usage", () => {
+    const span = record("ai.generateText.doGenerate", {
+      "ai.operationId": "ai.generateText.doGenerate",
+      "ai.model.id": "gpt-4o-mini",
+      "ai.model.provider": "openai.chat",
+      "ai.response.model": "gpt-4o-mini-2024-07-18",
+      "ai.prompt.messages": '[{"role":"user","content":"hi"}]',
+      "ai.response.text": "hello",
+      "ai.usage.inputTokens": 10,
+      "ai.usage.outputTokens": 3,
+      "ai.usage.cachedInputTokens": 4,
+    });
+
+    expect(span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND]).toBe("llm");
+    expect(span.attributes[AttributeKeys.JUDGMENT_INPUT]).toBe(
+      '[{"role":"user","content":"hi"}]',
+    );
+    expect(span.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe("hello");
+    expect(
+      span.attributes[AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS],
+    ).toBe(6);
+    expect(span.attributes[AttributeKeys.JUDGMENT_USAGE_OUTPUT_TOKENS]).toBe(3);
+    expect(
+      span.attributes[AttributeKeys.JUDGMENT_USAGE_CACHE_READ_INPUT_TOKENS],
+    ).toBe(4);
+    expect(span.attributes[AttributeKeys.JUDGMENT_LLM_MODEL_NAME]).toBe(
+      "gpt-4o-mini-2024-07-18",
+    );
+    expect(span.attributes[AttributeKeys.JUDGMENT_LLM_PROVIDER]).toBe(
+      "openai.chat",
+    );
+  });
+
+  test("accepts v4 usage attribute names", () => {
+    const span = record("ai.streamText.doStream", {
+      "ai.usage.promptTokens": 7,
+      "ai.usage.completionTokens": 2,
+    });
+
+    expect(
+      span.attributes[AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS],
+    ).toBe(7);
+    expect(span.attributes[AttributeKeys.JUDGMENT_USAGE_OUTPUT_TOKENS]).toBe(2);
+  });
+
+  test("records embedding tokens as input with their cost", () => {
+    const span = record("ai.embedMany.doEmbed", {
+      "ai.operationId": "ai.embedMany.doEmbed",
+      "ai.model.id": "text-embedding-3-small",
+      "ai.model.provider": "openai.embedding",
+      "ai.usage.tokens": 500_000,
+    });
+    const outer = record("ai.embedMany", {
+      "ai.operationId": "ai.embedMany",
+      "ai.usage.tokens": 500_000,
+    });
+
+    expect(span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND]).toBe("llm");
+    expect(
+      span.attributes[AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS],
+    ).toBe(500_000);
+    expect(span.attributes[AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD]).toBe(
+      0.01,
+    );
+    expect(
+      outer.attributes[AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS],
+    ).toBeUndefined();
+  });
+
+  test("maps outer operations without recording usage", () => {
+    const span = record("ai.generateText", {
+      "ai.operationId": "ai.generateText",
+      "ai.prompt": '{"prompt":"hi"}',
+      "ai.response.text": "hello",
+      "ai.usage.inputTokens": 10,
+    });
+
+    expect(span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND]).toBe("span");
+    expect(span.attributes[AttributeKeys.JUDGMENT_INPUT]).toBe(
+      '{"prompt":"hi"}',
+    );
+    expect(span.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe("hello");
+    expect(
+      span.attributes[AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS],
+    ).toBeUndefined();
+  });
+
+  test("maps tool calls", () => {
+    const span = record("ai.toolCall", {
+      "ai.operationId": "ai.toolCall",
+      "ai.toolCall.name": "weather",
+      "ai.toolCall.args": '{"city":"Paris"}',
+      "ai.toolCall.result": '{"temp":20}',
+    });
+
+    expect(span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND]).toBe("tool");
+    expect(span.attributes[AttributeKeys.JUDGMENT_INPUT]).toBe(
+      '{"city":"Paris"}',
+    );
+    expect(span.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBe('{"temp":20}');
+  });
+
+  test("keeps attributes that are already set", () => {
+    const span = record("ai.toolCall", {
+      [AttributeKeys.JUDGMENT_SPAN_KIND]: "retriever",
+      "ai.toolCall.args": "{}",
+    });
+
+    expect(span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND]).toBe("retriever");
+  });
+
+  test("ignores spans that are not from the AI SDK", () => {
+    const span = record("fetch-user", { "ai.response.text": "hello" });
+
+    expect(span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND]).toBeUndefined();
+    expect(span.attributes[AttributeKeys.JUDGMENT_OUTPUT]).toBeUndefined();
+  });
+});
@@ -0,0 +1,224 @@
+import type { AttributeValue, Attributes, Context } from "@opentelemetry/api";
+import type {
+  ReadableSpan,
+  Span,
+  SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import { computeCost } from "../../pricing";
+import { dontThrow } from "../../utils/dont-throw";
+
+/** Provider-level calls made on behalf of an outer AI SDK operation. */
+const LLM_OPERATIONS = new Set([
+  "ai.generateText.doGenerate",
+  "ai.streamText.doStream",
+  "ai.generateObject.doGenerate",
+  "ai.streamObject.doStream",
+  "ai.embed.doEmbed",
+  "ai.embedMany.doEmbed",
+]);
+
+const TOOL_OPERATIONS = new Set(["ai.toolCall"]);
+
+function firstString(
+  attributes: Attributes,
+  ...keys: string[]
+): string | undefined {
+  for (const key of keys) {
+    const value = attributes[key];
+    if (typeof value === "string" && value.length > 0) return value;
+  }
+  return undefined;
+}
+
+function firstNumber(
+  attributes: Attributes,
+  ...keys: string[]
+): number | undefined {
+  for (const key of keys) {
+    const value = attributes[key];
+    if (typeof value === "number") return value;
+  }
+  return undefined;
+}
+
+function setIfAbsent(span: Span, key: string, value?: AttributeValue): void {
+  if (value === undefined || span.attributes[key] !== undefined) return;
+  span.setAttribute(key, value);
+}
+
+/**
+ * Resolve the AI SDK operation for a span. The SDK records it as
+ * `ai.operationId`; older releases only encode it in the span name.
+ */
+function operationId(span: Span): string | undefined {
+  const id = span.attributes["ai.operationId"];
+  if (typeof id === "string") return id;
+  return span.name.startsWith("ai.") ? span.name : undefined;
+}
+
+function recordUsage(span: Span): void {
+  const attrs = span.attributes;
+  // AI SDK v5+ reports `inputTokens` inclusive of cached input; v4 used
+  // `promptTokens` / `completionTokens` and had no cache breakdown.
+  // Embedding calls report their input as `tokens`.
+  const input = firstNumber(
+    attrs,
+    "ai.usage.inputTokens",
+    "ai.usage.promptTokens",
+    "ai.usage.tokens",
+    AttributeKeys.GEN_AI_USAGE_INPUT_TOKENS,
+  );
+  const output = firstNumber(
+    attrs,
+    "ai.usage.outputTokens",
+    "ai.usage.completionTokens",
+    AttributeKeys.GEN_AI_USAGE_OUTPUT_TOKENS,
+  );
+  const cacheRead = firstNumber(attrs, "ai.usage.cachedInputTokens") ?? 0;
+  const nonCached =
+    input === undefined ? undefined : Math.max(input - cacheRead, 0);
+  const model = firstString(
+    attrs,
+    "ai.response.model",
+    AttributeKeys.GEN_AI_RESPONSE_MODEL,
+    "ai.model.id",
+  );
+
+  setIfAbsent(
+    span,
+    AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS,
+    nonCached,
+  );
+  setIfAbsent(span, AttributeKeys.JUDGMENT_USAGE_OUTPUT_TOKENS, output);
+  if (cacheRead) {
+    setIfAbsent(
+      span,
+      AttributeKeys.JUDGMENT_USAGE_CACHE_READ_INPUT_TOKENS,
+      cacheRead,
+    );
+  }
+  if (nonCached !== undefined || output !== undefined) {
+    setIfAbsent(
+      span,
+      AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD,
+      computeCost(model, {
+        non_cached_input_tokens: nonCached,
+        output_tokens: output,
+        cache_read_input_tokens: cacheRead,
+      }),
+    );
+  }
+  setIfAbsent(span, AttributeKeys.JUDGMENT_LLM_MODEL_NAME, model);
+  setIfAbsent(
+    span,
+    AttributeKeys.JUDGMENT_LLM_PROVIDER,
+    firstString(attrs, "ai.model.provider", AttributeKeys.GEN_AI_SYSTEM),
+  );
+}
+
+function mapSpan(span: Span): void {
+  const op = operationId(span);
+  if (!op) return;
+  const attrs = span.attributes;
+
+  if (TOOL_OPERATIONS.has(op)) {
+    setIfAbsent(span, AttributeKeys.JUDGMENT_SPAN_KIND, "tool");
+    setIfAbsent(
+      span,
+      AttributeKeys.JUDGMENT_INPUT,
+      firstString(attrs, "ai.toolCall.args", "ai.toolCall.input"),
+    );
+    setIfAbsent(
+      span,
+      AttributeKeys.JUDGMENT_OUTPUT,
+      firstString(attrs, "ai.toolCall.result", "ai.toolCall.output"),
+    );
+    return;
+  }
+
+  const isLLM = LLM_OPERATIONS.has(op);
+  setIfAbsent(span, AttributeKeys.JUDGMENT_SPAN_KIND, isLLM ? "llm" : "span");
+  setIfAbsent(
+    span,
+    AttributeKeys.JUDGMENT_INPUT,
+    isLLM
+      ? firstString(attrs, "ai.prompt.messages", "ai.values", "ai.value")
+      : firstString(attrs, "ai.prompt", "ai.values", "ai.value"),
+  );
+  setIfAbsent(
+    span,
+    AttributeKeys.JUDGMENT_OUTPUT,
+    firstString(
+      attrs,
+      "ai.response.text",
+      "ai.response.object",
+      "ai.response.toolCalls",
+    ),
+  );
+
+  // Usage is only recorded on the provider call; the outer operation
+  // repeats the same totals and would be double counted.
+  if (isLLM) recordUsage(span);
+}
+
+/**
+ * Span processor that maps Vercel AI SDK telemetry spans onto Judgment
+ * attributes.
+ *
+ * Provider calls (`ai.generateText.doGenerate`, `ai.streamText.doStream`,
+ * `ai.embed.doEmbed`, ...) become `llm` spans with model and token usage, `ai.toolCall`
+ * spans become `tool` spans, and outer operations (`ai.generateText`,
+ * `ai.streamText`, ...) become `span` spans. Prompts and responses are
+ * copied onto `judgment.input` / `judgment.output`. Attributes that are
+ * already set are left untouched, and the raw `ai.*` attributes are kept.
+ *
+ * Mapping runs in `onEnding`, before the span is handed to the Judgment
+ * processor for export. Register it through `TracerConfig.spanProcessors`
+ * and enable telemetry on each call with {@link BaseTracer.getAISDKTelemetry}.
+ *
+ * @example
+ * ```typescript
+ * import { generateText } from "ai";
+ * import { AISDKSpanProcessor, Tracer } from "judgeval";
+ *
+ * await Tracer.init({
+ *   projectName: "my-project",
+ *   spanProcessors: [new AISDKSpanProcessor()],
+ * });
+ *
+ * const { text } = await generateText({
+ *   model,
+ *   prompt,
+ *   experimental_telemetry: Tracer.getAISDKTelemetry(),
+ * });
+ * ```
+ */
+export class AISDKSpanProcessor implements SpanProcessor {
+  /** No-op. */
+  onStart(_span: Span, _parentContext: Context): void {
+    /* no-op */
+  }
+
+  /** Map AI SDK attributes while the span is still writable. */
+  onEnding(span: Span): void {
+    dontThrow("AISDKSpanProcessor.onEnding", () => {
+      mapSpan(span);
+    });
+  }
+
+  /** No-op. */
+  onEnd(_span: ReadableSpan): void {
+    /* no-op */
+  }
+
+  /** No-op. */
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /** No-op. */
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import { context, SpanStatusCode, trace, type Span } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import type { BaseTracer } from "../BaseTracer";
+import { Redactor } from "../redaction";
+import { JudgmentSpanProcessor } from "./JudgmentSpanProcessor";
+
+function setup(judgmentTracer: BaseTracer | null = null) {
+  const exporter = new InMemorySpanExporter();
+  const processor = new JudgmentSpanProcessor(judgmentTracer, exporter);
+  const provider = new BasicTracerProvider({ spanProcessors: [processor] });
+  const tracer = provider.getTracer("test");
+  const start = (name: string, parent?: Span): Span =>
+    tracer.startSpan(
+      name,
+      {},
+      parent ? trace.setSpan(context.active(), parent) : undefined,
+    );
+  const finished = async (): Promise<Record<string, ReadableSpan>> => {
+    await processor.forceFlush();
+    return Object.fromEntries(
+      exporter.getFinishedSpans().map((s) => [s.name, s]),
+    );
+  };
+  return { start, finished };
+}
+
+describe("JudgmentSpanProcessor usage rollup", () => {
+  test("rolls LLM cost and tokens up to every ancestor", async () => {
+    const { start, finished } = setup();
+    const root = start("root");
+    const agent = start("agent", root);
+    const first = start("llm-1", agent);
+    first.setAttributes({
+      [AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD]: 0.25,
+      [AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS]: 100,
+      [AttributeKeys.JUDGMENT_USAGE_OUTPUT_TOKENS]: 10,
+    });
+    first.end();
+    const second = start("llm-2", agent);
+    second.setAttributes({
+      [AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD]: 0.5,
+      [AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS]: 50,
+      [AttributeKeys.JUDGMENT_USAGE_CACHE_READ_INPUT_TOKENS]: 20,
+    });
+    second.end();
+    agent.end();
+    const tool = start("tool", root);
+    tool.end();
+    root.end();
+
+    const spans = await finished();
+    for (const name of ["agent", "root"]) {
+      const attrs = spans[name].attributes;
+      expect(attrs[AttributeKeys.JUDGMENT_CUMULATIVE_LLM_COST]).toBe(0.75);
+      expect(
+        attrs[AttributeKeys.JUDGMENT_CUMULATIVE_NON_CACHED_INPUT_TOKENS],
+      ).toBe(150);
+      expect(
+        attrs[AttributeKeys.JUDGMENT_CUMULATIVE_CACHE_READ_INPUT_TOKENS],
+      ).toBe(20);
+      expect(attrs[AttributeKeys.JUDGMENT_CUMULATIVE_OUTPUT_TOKENS]).toBe(10);
+      expect(
+        attrs[AttributeKeys.JUDGMENT_CUMULATIVE_CACHE_CREATION_INPUT_TOKENS],
+      ).toBeUndefined();
+    }
+    expect(
+      spans["llm-1"].attributes[AttributeKeys.JUDGMENT_CUMULATIVE_LLM_COST],
+    ).toBe(0.25);
+    expect(
+      spans.tool.attributes[AttributeKeys.JUDGMENT_CUMULATIVE_LLM_COST],
+    ).toBeUndefined();
+  });
+
+  test("ignores children that end after their parent", async () => {
+    const { start, finished } = setup();
+    const root = start("root");
+    const late = start("late", root);
+    root.end();
+    late.setAttribute(AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD, 1);
+    late.end();
+
+    const spans = await finished();
+    expect(
+      spans.root.attributes[AttributeKeys.JUDGMENT_CUMULATIVE_LLM_COST],
+    ).toBeUndefined();
+  });
+});
+
+describe("JudgmentSpanProcessor redaction", () => {
+  test("redacts attributes with the tracer's rules before export", async () => {
+    const tracer = {
+      _redactor: new Redactor([{ name: "email", pattern: /\S+@\S+/ }]),
+    } as unknown as BaseTracer;
+    const { start, finished } = setup(tracer);
+    const span = start("root");
+    span.setAttribute(AttributeKeys.JUDGMENT_INPUT, "from ann@example.com");
+    span.end();
+
+    const { root } = await finished();
+    expect(root.attributes[AttributeKeys.JUDGMENT_INPUT]).toBe(
+      "from [REDACTED]",
+    );
+    expect(root.attributes[AttributeKeys.JUDGMENT_REDACTED_RULES]).toEqual([
+      "email",
+    ]);
+  });
+
+  test("redacts exception events and the status message", async () => {
+    const tracer = {
+      _redactor: new Redactor([{ name: "email", pattern: /\S+@\S+/ }]),
+    } as unknown as BaseTracer;
+    const { start, finished } = setup(tracer);
+    const span = start("root");
+    span.recordException(new Error("no user ann@example.com"));
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: "Error: no user ann@example.com",
+    });
+    span.end();
+
+    const { root } = await finished();
+    expect(root.events[0].attributes?.["exception.message"]).toBe(
+      "no user [REDACTED]",
+    );
+    expect(root.status.message).toBe("Error: no user [REDACTED]");
+    expect(root.attributes[AttributeKeys.JUDGMENT_REDACTED_RULES]).toEqual([
+      "email",
+    ]);
+  });
+});
@@ -15,6 +15,10 @@ import {
   InternalAttributeKeys,
 } from "../../JudgmentAttributeKeys";
 import { dontThrow } from "../../utils/dont-throw";
+import {
+  DEFAULT_MAX_ATTRIBUTE_BYTES,
+  truncateAttributes,
+} from "../../utils/truncate";
 import type { BaseTracer } from "../BaseTracer";
 import { getTraceRuntime } from "../runtime";
 import { JudgmentBaggageSpanProcessor } from "./JudgmentBaggageSpanProcessor";
@@ -29,12 +33,73 @@ function isZeroHrTime(hrTime: HrTime): boolean {
   return hrTime[0] === 0 && hrTime[1] === 0;
 }
 
+/** LLM cost and token totals accumulated over a span's subtree. */
+interface UsageTotals {
+  cost?: number;
+  tokens: Partial<Record<UsageTokenKey, number>>;
+}
+
+type UsageTokenKey =
+  | AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS
+  | AttributeKeys.JUDGMENT_USAGE_CACHE_READ_INPUT_TOKENS
+  | AttributeKeys.JUDGMENT_USAGE_CACHE_CREATION_INPUT_TOKENS
+  | AttributeKeys.JUDGMENT_USAGE_OUTPUT_TOKENS;
+
+/** Per-call usage attributes and the cumulative attributes they roll up into. */
+const CUMULATIVE_TOKEN_KEYS: [UsageTokenKey, AttributeKeys][] = [
+  [
+    AttributeKeys.JUDGMENT_USAGE_NON_CACHED_INPUT_TOKENS,
+    AttributeKeys.JUDGMENT_CUMULATIVE_NON_CACHED_INPUT_TOKENS,
+  ],
+  [
+    AttributeKeys.JUDGMENT_USAGE_CACHE_READ_INPUT_TOKENS,
+    AttributeKeys.JUDGMENT_CUMULATIVE_CACHE_READ_INPUT_TOKENS,
+  ],
+  [
+    AttributeKeys.JUDGMENT_USAGE_CACHE_CREATION_INPUT_TOKENS,
+    AttributeKeys.JUDGMENT_CUMULATIVE_CACHE_CREATION_INPUT_TOKENS,
+  ],
+  [
+    AttributeKeys.JUDGMENT_USAGE_OUTPUT_TOKENS,
+    AttributeKeys.JUDGMENT_CUMULATIVE_OUTPUT_TOKENS,
+  ],
+];
+
+function addUsage(
+  totals: UsageTotals,
+  cost: unknown,
+  tokens: Partial<Record<UsageTokenKey, unknown>>,
+): UsageTotals {
+  const result: UsageTotals = {
+    cost: totals.cost,
+    tokens: { ...totals.tokens },
+  };
+  if (typeof cost === "number") result.cost = (result.cost ?? 0) + cost;
+  for (const [key] of CUMULATIVE_TOKEN_KEYS) {
+    const value = tokens[key];
+    if (typeof value === "number") {
+      result.tokens[key] = (result.tokens[key] ?? 0) + value;
+    }
+  }
+  return result;
+}
+
 /**
  * Span processor that manages span lifecycle, state, and batched export
  * to the Judgment platform. Supports per-span state (counters, lists),
  * partial-span emission for streaming updates, and baggage propagation
  * onto child spans.
  *
+ * LLM cost and token usage recorded on a span are rolled up onto its
+ * ancestors as each span ends, so every span that has LLM calls in its
+ * subtree carries `judgment.cumulative_*` totals. Children that end
+ * after their parent are not counted towards it.
+ *
+ * Attributes, event attributes, and the status message pass through the
+ * tracer's `redact` rules on every emit, so neither partial nor final
+ * exports carry unredacted values. String attributes over the tracer's
+ * `maxAttributeBytes` budget are then truncated.
+ *
  * Created automatically by `Tracer.init()`. Use it directly only when
  * building a custom tracing pipeline.
  */
@@ -124,14 +189,78 @@ export class JudgmentSpanProcessor extends BatchSpanProcessor {
     return list;
   }
 
-  private _emitSpan(span: ReadableSpan, isPartial = false): void {
+  /** Usage of the span itself plus everything rolled up from its children. */
+  private _subtreeUsage(span: ReadableSpan): UsageTotals {
+    const children = this.stateGet<UsageTotals>(
+      span.spanContext(),
+      InternalAttributeKeys.CUMULATIVE_USAGE,
+      { tokens: {} },
+    );
+    return addUsage(
+      children,
+      span.attributes[AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD],
+      span.attributes,
+    );
+  }
+
+  private _cumulativeAttributes(usage: UsageTotals): Attributes {
+    const attributes: Attributes = {};
+    if (usage.cost !== undefined) {
+      attributes[AttributeKeys.JUDGMENT_CUMULATIVE_LLM_COST] = usage.cost;
+    }
+    for (const [usageKey, cumulativeKey] of CUMULATIVE_TOKEN_KEYS) {
+      const value = usage.tokens[usageKey];
+      if (value !== undefined) attributes[cumulativeKey] = value;
+    }
+    return attributes;
+  }
+
+  /**
+   * Add a finished span's subtree usage to its parent, if the parent is
+   * still open in this process. Open spans are seeded in `onStart`.
+   */
+  private _rollUpUsage(span: ReadableSpan, usage: UsageTotals): void {
+    const parent = span.parentSpanContext;
+    if (!parent || parent.isRemote) return;
+    const totals = this.stateGet<UsageTotals | undefined>(
+      parent,
+      InternalAttributeKeys.CUMULATIVE_USAGE,
+      undefined,
+    );
+    if (!totals) return;
+    this.stateSet(
+      parent,
+      InternalAttributeKeys.CUMULATIVE_USAGE,
+      addUsage(totals, usage.cost, usage.tokens),
+    );
+  }
+
+  private _emitSpan(
+    span: ReadableSpan,
+    isPartial = false,
+    usage: UsageTotals = this._subtreeUsage(span),
+  ): void {
     const ctx = span.spanContext();
     if (!ctx.traceId) return;
     const currId = this.stateIncr(ctx, AttributeKeys.JUDGMENT_UPDATE_ID);
-    const attributes: Attributes = {
+    let attributes: Attributes = {
       ...span.attributes,
+      ...this._cumulativeAttributes(usage),
       [AttributeKeys.JUDGMENT_UPDATE_ID]: currId,
     };
+    let { events, status } = span;
+    const redactor = this.tracer?._redactor;
+    if (redactor) {
+      ({ attributes, events, status } = redactor.redactSpan({
+        attributes,
+        events,
+        status,
+      }));
+    }
+    attributes = truncateAttributes(
+      attributes,
+      this.tracer?._maxAttributeBytes ?? DEFAULT_MAX_ATTRIBUTE_BYTES,
+    );
 
     if (isPartial) {
       // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
@@ -143,13 +272,38 @@ export class JudgmentSpanProcessor extends BatchSpanProcessor {
       value: attributes,
       writable: false,
     });
+    Object.defineProperty(emittedSpan, "events", {
+      value: events,
+      writable: false,
+    });
+    Object.defineProperty(emittedSpan, "status", {
+      value: status,
+      writable: false,
+    });
     const endTime = isZeroHrTime(span.endTime) ? span.startTime : span.endTime;
     Object.defineProperty(emittedSpan, "endTime", {
       value: endTime,
       writable: false,
     });
 
-    super.onEnd(emittedSpan);
+    this._export(emittedSpan, isPartial);
+  }
+
+  /**
+   * Queue an emitted span for batched export. Subclasses override this to
+   * filter or buffer spans; span state is still available when it runs.
+   */
+  protected _export(span: ReadableSpan, _isPartial: boolean): void {
+    super.onEnd(span);
+  }
+
+  /**
+   * Run `callback` for a trace that will be exported, such as a platform
+   * call that should only be made for kept traces. Runs it right away;
+   * subclasses that drop traces defer it until the trace is kept.
+   */
+  whenTraceKept(_traceId: string, callback: () => void): void {
+    callback();
   }
 
   /** Export the current span's in-progress state for streaming updates. */
@@ -176,6 +330,12 @@ export class JudgmentSpanProcessor extends BatchSpanProcessor {
     dontThrow("JudgmentSpanProcessor.onStart", () => {
       this._baggageProcessor.onStart(span, parentContext);
       this._registerSpan(span);
+      const ctx = span.spanContext();
+      if (ctx.traceId) {
+        this.stateSet(ctx, InternalAttributeKeys.CUMULATIVE_USAGE, {
+          tokens: {},
+        } satisfies UsageTotals);
+      }
     });
   }
 
@@ -193,8 +353,10 @@ export class JudgmentSpanProcessor extends BatchSpanProcessor {
           InternalAttributeKeys.CANCELLED,
           false,
         );
+        const usage = this._subtreeUsage(span);
+        this._rollUpUsage(span, usage);
         if (!isCancelled) {
-          this._emitSpan(span);
+          this._emitSpan(span, false, usage);
         }
       } finally {
         this._cleanupSpanState(spanKey);
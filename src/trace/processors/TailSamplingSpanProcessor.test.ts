@@ -0,0 +1,149 @@
+import { describe, expect, test } from "bun:test";
+import { context, SpanStatusCode, trace, type Span } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import {
+  TailSamplingSpanProcessor,
+  type TailSamplingOptions,
+} from "./TailSamplingSpanProcessor";
+
+function setup(options: TailSamplingOptions) {
+  const exporter = new InMemorySpanExporter();
+  const processor = new TailSamplingSpanProcessor(null, exporter, options);
+  const provider = new BasicTracerProvider({ spanProcessors: [processor] });
+  const tracer = provider.getTracer("test");
+  const start = (name: string, parent?: Span): Span =>
+    tracer.startSpan(
+      name,
+      {},
+      parent ? trace.setSpan(context.active(), parent) : undefined,
+    );
+  const exported = async (): Promise<string[]> => {
+    await processor.forceFlush();
+    return exporter.getFinishedSpans().map((s) => s.name);
+  };
+  return { processor, start, exported };
+}
+
+describe("TailSamplingSpanProcessor", () => {
+  test("keeps whole traces that contain an error", async () => {
+    const { start, exported } = setup({});
+    const ok = start("ok-root");
+    start("ok-child", ok).end();
+    ok.end();
+
+    const failed = start("failed-root");
+    const child = start("failed-child", failed);
+    child.setStatus({ code: SpanStatusCode.ERROR });
+    child.end();
+    failed.end();
+
+    expect(await exported()).toEqual(["failed-child", "failed-root"]);
+  });
+
+  test("holds spans until the root ends and never emits partials", async () => {
+    const { processor, start, exported } = setup({ keepErrors: false });
+    const root = start("root");
+    const child = start("child", root);
+    child.end();
+    context.with(trace.setSpan(context.active(), root), () => {
+      processor.emitPartial();
+    });
+    expect(await exported()).toEqual([]);
+
+    root.setStatus({ code: SpanStatusCode.ERROR });
+    root.end();
+    expect(await exported()).toEqual([]);
+  });
+
+  test("keeps traces by cost, span kind, and predicate", async () => {
+    const { start, exported } = setup({
+      minCostUsd: 1,
+      spanKinds: ["tool"],
+      predicate: (t) => t.spans.some((s) => s.name === "special"),
+    });
+
+    const expensive = start("expensive");
+    const llm = start("llm", expensive);
+    llm.setAttribute(AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD, 1.5);
+    llm.end();
+    expensive.end();
+
+    const tool = start("tool-root");
+    tool.setAttribute(AttributeKeys.JUDGMENT_SPAN_KIND, "tool");
+    tool.end();
+
+    start("special").end();
+
+    const cheap = start("cheap");
+    const cheapLlm = start("cheap-llm", cheap);
+    cheapLlm.setAttribute(AttributeKeys.JUDGMENT_USAGE_TOTAL_COST_USD, 0.1);
+    cheapLlm.end();
+    cheap.end();
+
+    expect(await exported()).toEqual([
+      "llm",
+      "expensive",
+      "tool-root",
+      "special",
+    ]);
+  });
+
+  test("late children follow the root's decision", async () => {
+    const { start, exported } = setup({ spanKinds: ["agent"] });
+    const kept = start("kept");
+    kept.setAttribute(AttributeKeys.JUDGMENT_SPAN_KIND, "agent");
+    const keptLate = start("kept-late", kept);
+    const dropped = start("dropped");
+    const droppedLate = start("dropped-late", dropped);
+    kept.end();
+    dropped.end();
+    keptLate.end();
+    droppedLate.end();
+
+    expect(await exported()).toEqual(["kept", "kept-late"]);
+  });
+
+  test("decides the oldest trace early when over maxTraces", async () => {
+    const { start, exported } = setup({ maxTraces: 1 });
+    const first = start("first");
+    const firstChild = start("first-child", first);
+    firstChild.setStatus({ code: SpanStatusCode.ERROR });
+    firstChild.end();
+    const second = start("second");
+    start("second-child", second).end();
+
+    expect(await exported()).toEqual(["first-child"]);
+    first.end();
+    second.end();
+    expect(await exported()).toEqual(["first-child", "first"]);
+  });
+
+  test("runs whenTraceKept callbacks only once the trace is kept", () => {
+    const { processor, start } = setup({ spanKinds: ["agent"] });
+    const calls: string[] = [];
+    const kept = start("kept");
+    kept.setAttribute(AttributeKeys.JUDGMENT_SPAN_KIND, "agent");
+    const dropped = start("dropped");
+    for (const span of [kept, dropped]) {
+      processor.whenTraceKept(span.spanContext().traceId, () =>
+        calls.push(span.spanContext().traceId),
+      );
+    }
+    expect(calls).toEqual([]);
+
+    kept.end();
+    dropped.end();
+    processor.whenTraceKept(kept.spanContext().traceId, () =>
+      calls.push("after"),
+    );
+    processor.whenTraceKept(dropped.spanContext().traceId, () =>
+      calls.push("after"),
+    );
+
+    expect(calls).toEqual([kept.spanContext().traceId, "after"]);
+  });
+});
@@ -0,0 +1,222 @@
+import { SpanStatusCode } from "@opentelemetry/api";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import {
+  AttributeKeys,
+  InternalAttributeKeys,
+} from "../../JudgmentAttributeKeys";
+import { dontThrow } from "../../utils/dont-throw";
+import type { BaseTracer } from "../BaseTracer";
+import { JudgmentSpanProcessor } from "./JudgmentSpanProcessor";
+
+/** Spans buffered for a trace whose local root has not ended yet. */
+export interface TailSampledTrace {
+  traceId: string;
+  /** Finished spans, in the order they ended. */
+  spans: readonly ReadableSpan[];
+  /** Tags added with `Tracer.tag` while the trace was running. */
+  tags: ReadonlySet<string>;
+  /** Whether the local root span is among `spans`. */
+  complete: boolean;
+}
+
+/**
+ * Rules for {@link TailSamplingSpanProcessor}. A trace is kept if any rule
+ * matches; otherwise it is kept with probability `sampleRate`.
+ */
+export interface TailSamplingOptions {
+  /** Keep traces containing a span with error status. Defaults to `true`. */
+  keepErrors?: boolean;
+  /** Keep traces with a span lasting at least this many milliseconds. */
+  minDurationMs?: number;
+  /** Keep traces whose cumulative LLM cost reaches this many USD. */
+  minCostUsd?: number;
+  /** Keep traces containing a span of one of these kinds (e.g. `"llm"`). */
+  spanKinds?: string[];
+  /** Keep traces tagged with one of these tags via `Tracer.tag`. */
+  tags?: string[];
+  /** Keep traces for which this returns `true`. */
+  predicate?: (trace: TailSampledTrace) => boolean;
+  /** Probability of keeping a trace no rule matched. Defaults to `0`. */
+  sampleRate?: number;
+  /**
+   * Maximum number of traces buffered at once. When exceeded, the oldest
+   * trace is decided early on the spans seen so far. Defaults to `1000`.
+   */
+  maxTraces?: number;
+  /**
+   * Maximum number of spans buffered per trace. When exceeded, the trace
+   * is decided early on the spans seen so far. Defaults to `1000`.
+   */
+  maxSpansPerTrace?: number;
+}
+
+interface PendingTrace {
+  spans: ReadableSpan[];
+  tags: Set<string>;
+}
+
+/** Decisions are remembered so spans ending after their root follow them. */
+const MAX_DECISIONS = 10_000;
+
+function isLocalRoot(span: ReadableSpan): boolean {
+  return !span.parentSpanContext || span.parentSpanContext.isRemote === true;
+}
+
+/**
+ * `JudgmentSpanProcessor` that samples whole traces after they finish.
+ *
+ * Finished spans are buffered per trace until the trace's local root span
+ * ends, then the whole trace is exported or dropped according to
+ * {@link TailSamplingOptions}. Partial emits are suppressed while a trace
+ * is undecided, so dropped traces never emit anything, and `Tracer.tag`
+ * calls reach the platform only once the trace is kept. Spans that end
+ * after their root follow the root's decision.
+ *
+ * Created by `Tracer.init()` when `tailSampling` is configured.
+ */
+export class TailSamplingSpanProcessor extends JudgmentSpanProcessor {
+  private readonly _options: TailSamplingOptions;
+  private readonly _pending = new Map<string, PendingTrace>();
+  private readonly _decisions = new Map<string, boolean>();
+  private readonly _whenKept = new Map<string, (() => void)[]>();
+
+  constructor(
+    tracer: BaseTracer | null,
+    exporter: SpanExporter,
+    options: TailSamplingOptions,
+    config?: ConstructorParameters<typeof JudgmentSpanProcessor>[2],
+  ) {
+    super(tracer, exporter, config);
+    this._options = options;
+  }
+
+  /**
+   * Defer `callback` until the trace is kept, and drop it if the trace is
+   * dropped. `Tracer.tag` uses this so dropped traces are not tagged.
+   */
+  whenTraceKept(traceId: string, callback: () => void): void {
+    const decision = this._decisions.get(traceId);
+    if (decision !== undefined) {
+      if (decision) callback();
+      return;
+    }
+    const callbacks = this._whenKept.get(traceId);
+    if (callbacks) {
+      callbacks.push(callback);
+      return;
+    }
+    this._whenKept.set(traceId, [callback]);
+    if (this._whenKept.size > MAX_DECISIONS) {
+      const [oldest] = this._whenKept.keys();
+      this._whenKept.delete(oldest);
+    }
+  }
+
+  protected _export(span: ReadableSpan, isPartial: boolean): void {
+    const traceId = span.spanContext().traceId;
+    const decision = this._decisions.get(traceId);
+    if (decision !== undefined) {
+      if (decision) super._export(span, isPartial);
+      return;
+    }
+    if (isPartial) return;
+
+    let trace = this._pending.get(traceId);
+    if (!trace) {
+      trace = { spans: [], tags: new Set() };
+      this._pending.set(traceId, trace);
+    }
+    trace.spans.push(span);
+    const tags = this.stateGet<string[]>(
+      span.spanContext(),
+      InternalAttributeKeys.TAGS,
+      [],
+    );
+    for (const tag of tags) trace.tags.add(tag);
+
+    const { maxTraces = 1000, maxSpansPerTrace = 1000 } = this._options;
+    if (isLocalRoot(span)) {
+      this._decide(traceId, true);
+    } else if (trace.spans.length >= maxSpansPerTrace) {
+      this._decide(traceId, false);
+    }
+    if (this._pending.size > maxTraces) {
+      const [oldest] = this._pending.keys();
+      this._decide(oldest, false);
+    }
+  }
+
+  private _decide(traceId: string, complete: boolean): void {
+    const trace = this._pending.get(traceId);
+    if (!trace) return;
+    this._pending.delete(traceId);
+
+    // Keep the trace if the rules themselves fail.
+    const keep = dontThrow(
+      "TailSamplingSpanProcessor.decide",
+      () => this._shouldKeep({ traceId, ...trace, complete }),
+      true,
+    );
+    this._decisions.set(traceId, keep);
+    if (this._decisions.size > MAX_DECISIONS) {
+      const [oldest] = this._decisions.keys();
+      this._decisions.delete(oldest);
+    }
+    if (keep) {
+      for (const span of trace.spans) super._export(span, false);
+    }
+    const callbacks = this._whenKept.get(traceId) ?? [];
+    this._whenKept.delete(traceId);
+    if (keep) {
+      for (const callback of callbacks) {
+        dontThrow("TailSamplingSpanProcessor.whenTraceKept", callback);
+      }
+    }
+  }
+
+  private _shouldKeep(trace: TailSampledTrace): boolean {
+    const {
+      keepErrors = true,
+      minDurationMs,
+      minCostUsd,
+      spanKinds,
+      tags,
+      predicate,
+      sampleRate = 0,
+    } = this._options;
+
+    for (const span of trace.spans) {
+      if (keepErrors && span.status.code === SpanStatusCode.ERROR) {
+        return true;
+      }
+      if (
+        minDurationMs !== undefined &&
+        hrTimeToMilliseconds(span.duration) >= minDurationMs
+      ) {
+        return true;
+      }
+      const cost = span.attributes[AttributeKeys.JUDGMENT_CUMULATIVE_LLM_COST];
+      if (
+        minCostUsd !== undefined &&
+        typeof cost === "number" &&
+        cost >= minCostUsd
+      ) {
+        return true;
+      }
+      const kind = span.attributes[AttributeKeys.JUDGMENT_SPAN_KIND];
+      if (typeof kind === "string" && spanKinds?.includes(kind)) return true;
+    }
+    if (tags?.some((tag) => trace.tags.has(tag))) return true;
+    if (predicate?.(trace)) return true;
+    return Math.random() < sampleRate;
+  }
+
+  /** Decide every buffered trace on the spans seen so far, then shut down. */
+  async shutdown(): Promise<void> {
+    for (const traceId of [...this._pending.keys()]) {
+      this._decide(traceId, false);
+    }
+    await super.shutdown();
+  }
+}
@@ -1,6 +1,12 @@
+export { AISDKSpanProcessor } from "./AISDKSpanProcessor";
 export { JudgmentSpanProcessor } from "./JudgmentSpanProcessor";
 export { NoOpSpanProcessor } from "./NoOpSpanProcessor";
 export { OfflineJudgmentSpanProcessor } from "./OfflineJudgmentSpanProcessor";
+export {
+  TailSamplingSpanProcessor,
+  type TailSampledTrace,
+  type TailSamplingOptions,
+} from "./TailSamplingSpanProcessor";
 export {
   ALLOW_ALL_BAGGAGE_KEYS,
   JudgmentBaggageSpanProcessor,
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import { Redactor } from "./Redactor";
+import { BUILTIN_REDACTION_RULES } from "./rules";
+
+describe("Redactor", () => {
+  test("built-in detectors redact strings inside serialized JSON", () => {
+    const redactor = new Redactor(BUILTIN_REDACTION_RULES);
+    const input = JSON.stringify({
+      messages: [
+        {
+          role: "user",
+          content:
+            "I'm jane.doe@example.com, call +1 (555) 010-9999, card 4111 1111 1111 1111",
+        },
+      ],
+      apiKey: "sk-proj-abcdefghijklmnopqrstuvwx",
+    });
+
+    const result = redactor.redactAttributes({
+      [AttributeKeys.JUDGMENT_INPUT]: input,
+      [AttributeKeys.JUDGMENT_SPAN_KIND]: "llm",
+    });
+
+    expect(JSON.parse(result[AttributeKeys.JUDGMENT_INPUT] as string)).toEqual({
+      messages: [
+        {
+          role: "user",
+          content: "I'm [REDACTED], call [REDACTED], card [REDACTED]",
+        },
+      ],
+      apiKey: "[REDACTED]",
+    });
+    expect(result[AttributeKeys.JUDGMENT_SPAN_KIND]).toBe("llm");
+    expect(result[AttributeKeys.JUDGMENT_REDACTED_RULES]).toEqual([
+      "email",
+      "phone_number",
+      "credit_card",
+      "api_key",
+    ]);
+  });
+
+  test("leaves numbers that fail the Luhn check alone", () => {
+    const redactor = new Redactor(BUILTIN_REDACTION_RULES);
+    const attributes = { "order.reference": "order 1234 5678 9012 3456" };
+    expect(redactor.redactAttributes(attributes)).toBe(attributes);
+  });
+
+  test("key rules match attribute keys and nested JSON paths", () => {
+    const redactor = new Redactor([
+      { name: "secrets", keys: ["password", "user.email", "gen_ai.prompt"] },
+    ]);
+
+    const result = redactor.redactAttributes({
+      [AttributeKeys.JUDGMENT_OUTPUT]: JSON.stringify({
+        user: { email: "a@b.co", name: "Ann" },
+        email: "kept",
+        password: { hash: "x" },
+      }),
+      "gen_ai.prompt": "hello",
+      "gen_ai.completion": "hi",
+    });
+
+    expect(JSON.parse(result[AttributeKeys.JUDGMENT_OUTPUT] as string)).toEqual(
+      {
+        user: { email: "[REDACTED]", name: "Ann" },
+        email: "kept",
+        password: "[REDACTED]",
+      },
+    );
+    expect(result["gen_ai.prompt"]).toBe("[REDACTED]");
+    expect(result["gen_ai.completion"]).toBe("hi");
+    expect(result[AttributeKeys.JUDGMENT_REDACTED_RULES]).toEqual(["secrets"]);
+  });
+
+  test("runs pattern and function rules in order", () => {
+    const redactor = new Redactor([
+      { name: "ssn", pattern: /\d{3}-\d{2}-\d{4}/, replacement: "<ssn>" },
+      {
+        name: "names",
+        redact: (value, path) =>
+          path === "customer.name" ? value.toUpperCase() : value,
+      },
+    ]);
+
+    const result = redactor.redactAttributes({
+      "customer.name": "ann 123-45-6789 and 987-65-4321",
+      "customer.tags": ["vip", "111-22-3333"],
+      "customer.age": 42,
+    });
+
+    expect(result["customer.name"]).toBe("ANN <SSN> AND <SSN>");
+    expect(result["customer.tags"]).toEqual(["vip", "<ssn>"]);
+    expect(result["customer.age"]).toBe(42);
+    expect(result[AttributeKeys.JUDGMENT_REDACTED_RULES]).toEqual([
+      "ssn",
+      "names",
+    ]);
+  });
+});
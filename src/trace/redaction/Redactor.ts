@@ -0,0 +1,257 @@
+import type {
+  Attributes,
+  AttributeValue,
+  SpanStatus,
+} from "@opentelemetry/api";
+import type { TimedEvent } from "@opentelemetry/sdk-trace-base";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import {
+  type FunctionRedactionRule,
+  type KeyRedactionRule,
+  REDACTED,
+  type RedactionRule,
+} from "./rules";
+
+/** Identifiers and structural metadata that never carry user content. */
+const PRESERVED_KEYS = new Set<string>([
+  AttributeKeys.JUDGMENT_SPAN_KIND,
+  AttributeKeys.JUDGMENT_UPDATE_ID,
+  AttributeKeys.JUDGMENT_AGENT_ID,
+  AttributeKeys.JUDGMENT_PARENT_AGENT_ID,
+  AttributeKeys.JUDGMENT_AGENT_CLASS_NAME,
+  AttributeKeys.JUDGMENT_LLM_PROVIDER,
+  AttributeKeys.JUDGMENT_LLM_MODEL_NAME,
+  AttributeKeys.JUDGMENT_PROJECT_ID_OVERRIDE,
+  AttributeKeys.JUDGMENT_LINK_SOURCE_TRACE_ID,
+  AttributeKeys.JUDGMENT_LINK_SOURCE_SPAN_ID,
+  AttributeKeys.JUDGMENT_LINK_TARGET_TRACE_ID,
+  AttributeKeys.JUDGMENT_LINK_TARGET_SPAN_ID,
+  AttributeKeys.JUDGMENT_REDACTED_RULES,
+]);
+
+interface KeyMatcher {
+  rule: KeyRedactionRule;
+  paths: string[][];
+}
+
+type StringRule =
+  | { kind: "pattern"; name: string; pattern: RegExp; replacement: string }
+  | { kind: "function"; rule: FunctionRedactionRule };
+
+/** The parts of a span that can carry user content. */
+export interface RedactableSpan {
+  attributes: Attributes;
+  events: TimedEvent[];
+  status: SpanStatus;
+}
+
+/** Rules that fired so far, and whether the current value changed. */
+interface RedactionState {
+  fired: Set<string>;
+  changed: boolean;
+}
+
+function endsWithPath(path: string[], pattern: string[]): boolean {
+  if (pattern.length > path.length) return false;
+  const offset = path.length - pattern.length;
+  return pattern.every(
+    (segment, i) => segment === "*" || segment === path[offset + i],
+  );
+}
+
+/**
+ * Applies a `TracerConfig.redact` pipeline to span attributes before
+ * export.
+ *
+ * Key rules replace whole values; pattern and function rules then run in
+ * order over every remaining string. Attribute values holding serialized
+ * JSON are parsed so rules apply to the individual keys and strings
+ * inside them. The names of the rules that fired are recorded as
+ * `judgment.redacted_rules`.
+ */
+export class Redactor {
+  private readonly _keyMatchers: KeyMatcher[] = [];
+  private readonly _stringRules: StringRule[] = [];
+
+  constructor(rules: readonly RedactionRule[]) {
+    for (const rule of rules) {
+      if ("keys" in rule) {
+        this._keyMatchers.push({
+          rule,
+          paths: rule.keys.map((key) => key.split(".")),
+        });
+      } else if ("pattern" in rule) {
+        const { flags, source } = rule.pattern;
+        this._stringRules.push({
+          kind: "pattern",
+          name: rule.name,
+          pattern: new RegExp(
+            source,
+            flags.includes("g") ? flags : flags + "g",
+          ),
+          replacement: rule.replacement ?? REDACTED,
+        });
+      } else {
+        this._stringRules.push({ kind: "function", rule });
+      }
+    }
+  }
+
+  /**
+   * Redact `attributes`.
+   *
+   * @returns A new attributes object, or `attributes` itself when no rule
+   *   fired.
+   */
+  redactAttributes(attributes: Attributes): Attributes {
+    const state: RedactionState = { fired: new Set(), changed: false };
+    const result = this._redactAttributes(attributes, state);
+    if (state.fired.size === 0) return attributes;
+    result[AttributeKeys.JUDGMENT_REDACTED_RULES] = [...state.fired];
+    return result;
+  }
+
+  /**
+   * Redact a span's attributes, the attributes of its events (such as
+   * recorded exceptions), and its status message. Rules that fired
+   * anywhere are listed in the span's `judgment.redacted_rules`.
+   *
+   * @returns The redacted parts. Parts no rule changed are returned as is.
+   */
+  redactSpan(span: RedactableSpan): RedactableSpan {
+    const state: RedactionState = { fired: new Set(), changed: false };
+    const attributes = this._redactAttributes(span.attributes, state);
+    const events = span.events.map((event) => {
+      if (!event.attributes) return event;
+      const local: RedactionState = { fired: state.fired, changed: false };
+      const redacted = this._redactAttributes(event.attributes, local);
+      return local.changed ? { ...event, attributes: redacted } : event;
+    });
+    let { status } = span;
+    if (status.message) {
+      const message = this._redactString(
+        status.message,
+        ["status", "message"],
+        state,
+      );
+      if (message !== status.message) status = { ...status, message };
+    }
+    if (state.fired.size === 0) return span;
+    attributes[AttributeKeys.JUDGMENT_REDACTED_RULES] = [...state.fired];
+    return { attributes, events, status };
+  }
+
+  private _redactAttributes(
+    attributes: Attributes,
+    state: RedactionState,
+  ): Attributes {
+    const result: Attributes = {};
+    for (const [key, value] of Object.entries(attributes)) {
+      result[key] = PRESERVED_KEYS.has(key)
+        ? value
+        : this._redactAttribute(value, key.split("."), state);
+    }
+    return result;
+  }
+
+  private _redactAttribute(
+    value: AttributeValue | undefined,
+    path: string[],
+    state: RedactionState,
+  ): AttributeValue | undefined {
+    const keyRule = this._matchKey(path);
+    if (keyRule && value !== undefined) {
+      state.fired.add(keyRule.name);
+      state.changed = true;
+      return keyRule.replacement ?? REDACTED;
+    }
+    if (typeof value === "string") return this._redactJson(value, path, state);
+    if (Array.isArray(value)) {
+      return value.map((item) =>
+        typeof item === "string" ? this._redactString(item, path, state) : item,
+      ) as AttributeValue;
+    }
+    return value;
+  }
+
+  private _redactJson(
+    value: string,
+    path: string[],
+    state: RedactionState,
+  ): string {
+    const trimmed = value.trimStart();
+    if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) {
+      return this._redactString(value, path, state);
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return this._redactString(value, path, state);
+    }
+    const local: RedactionState = { fired: state.fired, changed: false };
+    const redacted = this._redactValue(parsed, path, local);
+    if (!local.changed) return value;
+    state.changed = true;
+    return JSON.stringify(redacted);
+  }
+
+  private _redactValue(
+    value: unknown,
+    path: string[],
+    state: RedactionState,
+  ): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this._redactValue(item, path, state));
+    }
+    if (typeof value === "object" && value !== null) {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = [...path, key];
+        const keyRule = this._matchKey(childPath);
+        if (keyRule) {
+          state.fired.add(keyRule.name);
+          state.changed = true;
+          result[key] = keyRule.replacement ?? REDACTED;
+        } else {
+          result[key] = this._redactValue(child, childPath, state);
+        }
+      }
+      return result;
+    }
+    if (typeof value === "string") {
+      return this._redactString(value, path, state);
+    }
+    return value;
+  }
+
+  private _redactString(
+    value: string,
+    path: string[],
+    state: RedactionState,
+  ): string {
+    let result = value;
+    for (const stringRule of this._stringRules) {
+      const next =
+        stringRule.kind === "pattern"
+          ? result.replace(stringRule.pattern, stringRule.replacement)
+          : stringRule.rule.redact(result, path.join("."));
+      if (next !== result) {
+        state.fired.add(
+          stringRule.kind === "pattern"
+            ? stringRule.name
+            : stringRule.rule.name,
+        );
+        state.changed = true;
+        result = next;
+      }
+    }
+    return result;
+  }
+
+  private _matchKey(path: string[]): KeyRedactionRule | undefined {
+    return this._keyMatchers.find(({ paths }) =>
+      paths.some((pattern) => endsWithPath(path, pattern)),
+    )?.rule;
+  }
+}
@@ -0,0 +1,13 @@
+export { type RedactableSpan, Redactor } from "./Redactor";
+export {
+  API_KEY,
+  BUILTIN_REDACTION_RULES,
+  CREDIT_CARD,
+  EMAIL,
+  PHONE_NUMBER,
+  REDACTED,
+  type FunctionRedactionRule,
+  type KeyRedactionRule,
+  type PatternRedactionRule,
+  type RedactionRule,
+} from "./rules";
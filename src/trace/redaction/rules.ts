@@ -0,0 +1,96 @@
+/** Default replacement text for redacted values. */
+export const REDACTED = "[REDACTED]";
+
+/** Replace every match of a regular expression in string values. */
+export interface PatternRedactionRule {
+  /** Rule name, recorded in `judgment.redacted_rules` when the rule fires. */
+  name: string;
+  /** Pattern to replace. Always applied globally. */
+  pattern: RegExp;
+  /** Replacement text. Defaults to `"[REDACTED]"`. */
+  replacement?: string;
+}
+
+/** Replace the whole value found at matching key paths. */
+export interface KeyRedactionRule {
+  /** Rule name, recorded in `judgment.redacted_rules` when the rule fires. */
+  name: string;
+  /**
+   * Key paths to redact, matched against the end of each value's path.
+   *
+   * A path joins the attribute key and any JSON keys inside its value
+   * with `.`, skipping array indices. `*` matches any single segment.
+   * `"password"` matches a `password` key at any depth, and
+   * `"user.email"` matches `email` under `user`.
+   */
+  keys: string[];
+  /** Replacement text. Defaults to `"[REDACTED]"`. */
+  replacement?: string;
+}
+
+/** Redact string values with a custom function. */
+export interface FunctionRedactionRule {
+  /** Rule name, recorded in `judgment.redacted_rules` when the rule fires. */
+  name: string;
+  /**
+   * Return the redacted string, or `value` itself to leave it unchanged.
+   * `path` is the value's key path (see {@link KeyRedactionRule.keys}).
+   */
+  redact: (value: string, path: string) => string;
+}
+
+/** A single step of the `TracerConfig.redact` pipeline. */
+export type RedactionRule =
+  | PatternRedactionRule
+  | KeyRedactionRule
+  | FunctionRedactionRule;
+
+/** Email addresses. */
+export const EMAIL: PatternRedactionRule = {
+  name: "email",
+  pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+};
+
+/** Phone numbers written with separators, e.g. `+1 (555) 010-9999`. */
+export const PHONE_NUMBER: PatternRedactionRule = {
+  name: "phone_number",
+  pattern:
+    /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)[\s.-]?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g,
+};
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** Payment card numbers (13-19 digits) that pass the Luhn checksum. */
+export const CREDIT_CARD: FunctionRedactionRule = {
+  name: "credit_card",
+  redact: (value) =>
+    value.replace(/\b\d(?:[ -]?\d){12,18}\b/g, (match) =>
+      passesLuhn(match.replace(/\D/g, "")) ? REDACTED : match,
+    ),
+};
+
+/** Provider API keys (OpenAI, Anthropic, AWS, GitHub, Slack, Google) and bearer tokens. */
+export const API_KEY: PatternRedactionRule = {
+  name: "api_key",
+  pattern:
+    /\b(?:sk-[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})|\bBearer\s+[A-Za-z0-9._~+/-]+=*/g,
+};
+
+/** Every built-in detector. */
+export const BUILTIN_REDACTION_RULES: readonly RedactionRule[] = [
+  EMAIL,
+  PHONE_NUMBER,
+  CREDIT_CARD,
+  API_KEY,
+];
@@ -0,0 +1,6 @@
+export {
+  type LambdaContextLike,
+  type LambdaHandler,
+  type WrapHandlerOptions,
+  wrapLambdaHandler,
+} from "./lambda";
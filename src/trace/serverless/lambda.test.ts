@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { SpanKind } from "@opentelemetry/api";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import {
+  createTestTracer,
+  expectSpanTree,
+  type TestTracer,
+} from "../../testing";
+import { Logger } from "../../utils/logger";
+import { BaseTracer } from "../BaseTracer";
+import { Tracer } from "../Tracer";
+
+const TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const PARENT_ID = "b7ad6b7169203331";
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_ID}-01`;
+
+function lambdaContext(remainingMs = 30_000) {
+  return {
+    functionName: "orders-fn",
+    awsRequestId: "req-1",
+    getRemainingTimeInMillis: () => remainingMs,
+  };
+}
+
+describe("Tracer.wrapHandler", () => {
+  let tracer: TestTracer;
+
+  beforeEach(() => {
+    tracer = createTestTracer();
+  });
+
+  afterEach(() => {
+    tracer.dispose();
+  });
+
+  // Runs first: cold start is tracked per process.
+  test("continues API Gateway requests and marks only the first cold start", async () => {
+    const handler = Tracer.wrapHandler(
+      (event: { body: string }) => {
+        Tracer.setOutput(event.body);
+        return Promise.resolve({ statusCode: 201, body: "ok" });
+      },
+      { sessionId: "x-session-id" },
+    );
+    const event = {
+      rawPath: "/orders/7",
+      routeKey: "POST /orders/{id}",
+      requestContext: { http: { method: "POST" } },
+      headers: { Traceparent: TRACEPARENT, "X-Session-Id": "s-1" },
+      body: "hi",
+    };
+
+    expect(await handler(event, lambdaContext())).toEqual({
+      statusCode: 201,
+      body: "ok",
+    });
+    await handler(event, lambdaContext());
+
+    const [first, second] = tracer.spans;
+    expect(first.name).toBe("POST /orders/{id}");
+    expect(first.kind).toBe(SpanKind.SERVER);
+    expect(first.spanContext().traceId).toBe(TRACE_ID);
+    expect(first.parentSpanContext?.spanId).toBe(PARENT_ID);
+    expect(first.attributes).toMatchObject({
+      [AttributeKeys.FAAS_COLDSTART]: true,
+      [AttributeKeys.FAAS_INVOCATION_ID]: "req-1",
+      [AttributeKeys.FAAS_TRIGGER]: "http",
+      [AttributeKeys.HTTP_RESPONSE_STATUS_CODE]: 201,
+      [AttributeKeys.JUDGMENT_SESSION_ID]: "s-1",
+    });
+    expect(second.attributes[AttributeKeys.FAAS_COLDSTART]).toBe(false);
+  });
+
+  test("continues the first SQS record that carries a context", async () => {
+    const handler = Tracer.wrapHandler(async () => {
+      await Tracer.span("work", async () => {});
+    });
+
+    await handler(
+      {
+        Records: [
+          {
+            eventSource: "aws:sqs",
+            eventSourceARN: "arn:aws:sqs:us-east-1:123456789012:jobs",
+            messageAttributes: {},
+          },
+          {
+            eventSource: "aws:sqs",
+            eventSourceARN: "arn:aws:sqs:us-east-1:123456789012:jobs",
+            messageAttributes: {
+              traceparent: { dataType: "String", stringValue: TRACEPARENT },
+            },
+          },
+        ],
+      },
+      lambdaContext(),
+    );
+
+    const root = expectSpanTree(tracer.spans, {
+      name: "process jobs",
+      attributes: {
+        [AttributeKeys.FAAS_TRIGGER]: "pubsub",
+        [AttributeKeys.MESSAGING_SYSTEM]: "aws_sqs",
+        [AttributeKeys.MESSAGING_DESTINATION_NAME]: "jobs",
+      },
+      children: [{ name: "work" }],
+    });
+    expect(root.spanContext().traceId).toBe(TRACE_ID);
+  });
+
+  test("records errors from EventBridge handlers and rethrows", async () => {
+    const handler = Tracer.wrapHandler(() => {
+      throw new Error("bad detail");
+    });
+
+    await expect(
+      handler(
+        {
+          source: "shop.orders",
+          "detail-type": "OrderPlaced",
+          detail: { traceparent: TRACEPARENT },
+        },
+        lambdaContext(),
+      ),
+    ).rejects.toThrow("bad detail");
+
+    const [span] = tracer.spans;
+    expect(span.name).toBe("process OrderPlaced");
+    expect(span.spanContext().traceId).toBe(TRACE_ID);
+    expect(span.attributes[AttributeKeys.MESSAGING_DESTINATION_NAME]).toBe(
+      "shop.orders",
+    );
+    expect(span.status.message).toBe("Error: bad detail");
+  });
+
+  test("stops waiting for the flush when the time budget runs out", async () => {
+    const flush = spyOn(BaseTracer, "forceFlush").mockImplementation(
+      () => new Promise(() => {}),
+    );
+    const warning = spyOn(Logger, "warning").mockImplementation(() => {});
+    try {
+      const handler = Tracer.wrapHandler(() => "done", { flushTimeoutMs: 10 });
+      expect(await handler({}, lambdaContext())).toBe("done");
+      expect(warning).toHaveBeenCalledWith(
+        "Span flush did not finish within 10ms.",
+      );
+
+      flush.mockClear();
+      expect(await handler({}, lambdaContext(50))).toBe("done");
+      expect(flush).not.toHaveBeenCalled();
+    } finally {
+      flush.mockRestore();
+      warning.mockRestore();
+    }
+    expect(tracer.spans.map((span) => span.name)).toEqual([
+      "orders-fn",
+      "orders-fn",
+    ]);
+  });
+});
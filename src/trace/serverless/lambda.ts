@@ -0,0 +1,266 @@
+import {
+  type Attributes,
+  type Context,
+  ROOT_CONTEXT,
+  type Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import { AttributeKeys } from "../../JudgmentAttributeKeys";
+import { dontThrow } from "../../utils/dont-throw";
+import { Logger } from "../../utils/logger";
+import { BaseTracer } from "../BaseTracer";
+import { sqsAdapter, type SqsMessageAttributes } from "../messaging/adapters";
+import {
+  type HttpMiddlewareOptions,
+  startRequestTrace,
+} from "../middleware/requestTrace";
+import { extract } from "../propagation";
+import { getTraceRuntime } from "../runtime";
+
+/** The parts of the Lambda context object used by {@link wrapLambdaHandler}. */
+export interface LambdaContextLike {
+  functionName: string;
+  awsRequestId: string;
+  invokedFunctionArn?: string;
+  getRemainingTimeInMillis(): number;
+}
+
+/** An async (or sync) Lambda handler. Callback-style handlers are not supported. */
+export type LambdaHandler<
+  TEvent = unknown,
+  TResult = unknown,
+  TContext extends LambdaContextLike = LambdaContextLike,
+> = (event: TEvent, context: TContext) => TResult | Promise<TResult>;
+
+/**
+ * Options for `Tracer.wrapHandler`. For HTTP events, customer, user, and
+ * session IDs are read from the request headers as in the HTTP middleware.
+ */
+export interface WrapHandlerOptions extends Omit<
+  HttpMiddlewareOptions,
+  "ignore"
+> {
+  /** Longest time to wait for the flush, in milliseconds. Defaults to 2000. */
+  flushTimeoutMs?: number;
+  /**
+   * Time to leave for the runtime after the flush, in milliseconds, so
+   * flushing never makes the invocation time out. Defaults to 100.
+   */
+  flushReserveMs?: number;
+}
+
+type EventRecord = Record<string, unknown>;
+
+interface EventTrigger {
+  name: string;
+  parent: Context;
+  attributes: Attributes;
+  kind: SpanKind;
+}
+
+let coldStart = true;
+
+function isRecord(value: unknown): value is EventRecord {
+  return typeof value === "object" && value !== null;
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/** An API Gateway (REST or HTTP API), ALB, or function URL request. */
+function httpRequest(event: EventRecord) {
+  if (!isRecord(event.headers)) return null;
+  const http = isRecord(event.requestContext)
+    ? event.requestContext.http
+    : undefined;
+  const method =
+    str(event.httpMethod) ?? (isRecord(http) ? str(http.method) : undefined);
+  if (!method) return null;
+  const routeKey = str(event.routeKey)?.split(" ")[1];
+  return {
+    method,
+    path:
+      str(event.rawPath) ??
+      str(event.path) ??
+      (isRecord(http) ? str(http.path) : undefined) ??
+      "/",
+    route: str(event.resource) ?? routeKey,
+    headers: event.headers as Record<string, string | undefined>,
+  };
+}
+
+/** The span name, parent context, and attributes for a non-HTTP event. */
+function eventTrigger(event: unknown): EventTrigger | null {
+  if (!isRecord(event)) return null;
+
+  const records = Array.isArray(event.Records) ? event.Records : [];
+  const first: unknown = records[0];
+  if (isRecord(first) && first.eventSource === "aws:sqs") {
+    const queue = str(first.eventSourceARN)?.split(":").pop() ?? "sqs";
+    // A batch continues the first message that carries a context.
+    const carrier = records
+      .map((record: unknown) =>
+        isRecord(record) && isRecord(record.messageAttributes)
+          ? (record.messageAttributes as SqsMessageAttributes)
+          : undefined,
+      )
+      .find((attributes) => attributes?.traceparent !== undefined);
+    return {
+      name: `process ${queue}`,
+      parent: carrier
+        ? extract(carrier, ROOT_CONTEXT, sqsAdapter.getter)
+        : ROOT_CONTEXT,
+      attributes: {
+        [AttributeKeys.FAAS_TRIGGER]: "pubsub",
+        [AttributeKeys.MESSAGING_SYSTEM]: "aws_sqs",
+        [AttributeKeys.MESSAGING_DESTINATION_NAME]: queue,
+        [AttributeKeys.MESSAGING_OPERATION_TYPE]: "process",
+      },
+      kind: SpanKind.CONSUMER,
+    };
+  }
+
+  const detailType = str(event["detail-type"]);
+  if (detailType && isRecord(event.detail)) {
+    return {
+      name: `process ${detailType}`,
+      // Producers inject the context into the event detail.
+      parent: extract(event.detail, ROOT_CONTEXT),
+      attributes: {
+        [AttributeKeys.FAAS_TRIGGER]: "pubsub",
+        [AttributeKeys.MESSAGING_SYSTEM]: "aws_eventbridge",
+        [AttributeKeys.MESSAGING_DESTINATION_NAME]:
+          str(event.source) ?? detailType,
+        [AttributeKeys.MESSAGING_OPERATION_TYPE]: "process",
+      },
+      kind: SpanKind.CONSUMER,
+    };
+  }
+  return null;
+}
+
+function recordError(span: Span, error: unknown): void {
+  const err = error instanceof Error ? error : new Error(String(error));
+  span.recordException(err);
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: `${err.name}: ${err.message}`,
+  });
+}
+
+/**
+ * Flush pending spans, giving up after `flushTimeoutMs` or before the
+ * invocation's remaining time drops below `flushReserveMs`.
+ */
+async function flush(
+  context: LambdaContextLike,
+  options: WrapHandlerOptions,
+): Promise<void> {
+  const remaining =
+    dontThrow(
+      "wrapHandler.remainingTime",
+      () => context.getRemainingTimeInMillis(),
+      Infinity,
+    ) - (options.flushReserveMs ?? 100);
+  const budget = Math.min(options.flushTimeoutMs ?? 2000, remaining);
+  if (budget <= 0) {
+    Logger.warning("Skipping span flush: Lambda invocation is out of time.");
+    return;
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(true), budget);
+  });
+  try {
+    const flushed = BaseTracer.forceFlush().then(
+      () => false,
+      (e: unknown) => {
+        Logger.warning(`Span flush failed: ${String(e)}`);
+        return false;
+      },
+    );
+    if (await Promise.race([flushed, timedOut])) {
+      Logger.warning(`Span flush did not finish within ${budget}ms.`);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Wrap a Lambda handler in a root span. See `Tracer.wrapHandler`.
+ */
+export function wrapLambdaHandler<
+  TEvent,
+  TResult,
+  TContext extends LambdaContextLike,
+>(
+  handler: LambdaHandler<TEvent, TResult, TContext>,
+  options: WrapHandlerOptions = {},
+): (event: TEvent, context: TContext) => Promise<TResult> {
+  return async (event, context) => {
+    const invocation: Attributes = {
+      [AttributeKeys.FAAS_COLDSTART]: coldStart,
+      [AttributeKeys.FAAS_INVOCATION_ID]: context.awsRequestId,
+    };
+    coldStart = false;
+
+    const request = isRecord(event) ? httpRequest(event) : null;
+    if (request) {
+      const requestTrace = startRequestTrace(request, options)!;
+      requestTrace.span.setAttributes({
+        ...invocation,
+        [AttributeKeys.FAAS_TRIGGER]: "http",
+      });
+      try {
+        const result = await requestTrace.run(() => handler(event, context));
+        const status =
+          isRecord(result) && typeof result.statusCode === "number"
+            ? result.statusCode
+            : 200;
+        requestTrace.end(status, request.route);
+        return result;
+      } catch (e) {
+        requestTrace.fail(e);
+        requestTrace.end(500, request.route);
+        throw e;
+      } finally {
+        await flush(context, options);
+      }
+    }
+
+    const trigger = dontThrow(
+      "wrapHandler.trigger",
+      () => eventTrigger(event),
+      null,
+    ) ?? {
+      name: context.functionName,
+      parent: ROOT_CONTEXT,
+      attributes: { [AttributeKeys.FAAS_TRIGGER]: "other" },
+      kind: SpanKind.SERVER,
+    };
+    const span = BaseTracer.getOTELTracer().startSpan(
+      trigger.name,
+      {
+        kind: trigger.kind,
+        attributes: { ...trigger.attributes, ...invocation },
+      },
+      trigger.parent,
+    );
+    try {
+      return await getTraceRuntime().withContext(
+        trace.setSpan(trigger.parent, span),
+        () => handler(event, context),
+      );
+    } catch (e) {
+      recordError(span, e);
+      throw e;
+    } finally {
+      span.end();
+      await flush(context, options);
+    }
+  };
+}
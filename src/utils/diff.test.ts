@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { diffJson, toJsonValue } from "./diff";
+import { createSerializer } from "./serializer";
+
+describe("diffJson", () => {
+  test("returns no changes for equal values", () => {
+    expect(diffJson({ a: [1, { b: null }] }, { a: [1, { b: null }] })).toEqual(
+      [],
+    );
+  });
+
+  test("reports added, removed, and changed keys", () => {
+    expect(
+      diffJson(
+        { kept: 1, gone: "x", turns: 0 },
+        { kept: 1, turns: 2, new: true },
+      ),
+    ).toEqual([
+      { op: "remove", path: "/gone", oldValue: "x" },
+      { op: "replace", path: "/turns", oldValue: 0, value: 2 },
+      { op: "add", path: "/new", value: true },
+    ]);
+  });
+
+  test("points into nested objects and escapes keys", () => {
+    expect(
+      diffJson(
+        { plan: { "a/b": { "~step": 1 } } },
+        { plan: { "a/b": { "~step": 2 } } },
+      ),
+    ).toEqual([
+      { op: "replace", path: "/plan/a~1b/~0step", oldValue: 1, value: 2 },
+    ]);
+  });
+
+  test("compares arrays by index and removes from the end", () => {
+    expect(diffJson(["a", "b", "c"], ["a", "x"])).toEqual([
+      { op: "replace", path: "/1", oldValue: "b", value: "x" },
+      { op: "remove", path: "/2", oldValue: "c" },
+    ]);
+    expect(diffJson({ items: ["a"] }, { items: ["a", "b", "c"] })).toEqual([
+      { op: "add", path: "/items/1", value: "b" },
+      { op: "add", path: "/items/2", value: "c" },
+    ]);
+    expect(diffJson([1, 2, 3], [1])).toEqual([
+      { op: "remove", path: "/2", oldValue: 3 },
+      { op: "remove", path: "/1", oldValue: 2 },
+    ]);
+  });
+
+  test("replaces values whose type changed", () => {
+    expect(diffJson({ v: [1] }, { v: { 0: 1 } })).toEqual([
+      { op: "replace", path: "/v", oldValue: [1], value: { 0: 1 } },
+    ]);
+  });
+});
+
+describe("toJsonValue", () => {
+  test("copies values through the given serializer", () => {
+    class Booking {
+      constructor(readonly id: string) {}
+    }
+    const state = { booking: new Booking("b-1"), seen: new Set(["a"]) };
+
+    const copy = toJsonValue(state, createSerializer({ tagClassNames: true }));
+    state.seen.add("b");
+
+    expect(copy).toEqual({
+      booking: { __class: "Booking", id: "b-1" },
+      seen: ["a"],
+    });
+  });
+
+  test("keeps output that is not JSON as a string", () => {
+    expect(toJsonValue({ a: 1 }, () => "a=1")).toBe("a=1");
+  });
+});
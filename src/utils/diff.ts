@@ -0,0 +1,118 @@
+import type { Serializer } from "./serializer";
+
+/** A single change between two JSON values. */
+export interface JsonChange {
+  /** `add` and `remove` for keys or elements that only exist on one side. */
+  op: "add" | "remove" | "replace";
+  /** JSON Pointer (RFC 6901) to the changed location. */
+  path: string;
+  /** Value before the change. Omitted for `add`. */
+  oldValue?: unknown;
+  /** Value after the change. Omitted for `remove`. */
+  value?: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqual(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((k) => k in b && isEqual(a[k], b[k]))
+    );
+  }
+  return false;
+}
+
+function walk(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: JsonChange[],
+): void {
+  if (isEqual(before, after)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of Object.keys(before)) {
+      const childPath = `${path}/${escapePointer(key)}`;
+      if (key in after) {
+        walk(before[key], after[key], childPath, changes);
+      } else {
+        changes.push({ op: "remove", path: childPath, oldValue: before[key] });
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (key in before) continue;
+      changes.push({
+        op: "add",
+        path: `${path}/${escapePointer(key)}`,
+        value: after[key],
+      });
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const shared = Math.min(before.length, after.length);
+    for (let i = 0; i < shared; i++) {
+      walk(before[i], after[i], `${path}/${i}`, changes);
+    }
+    for (let i = shared; i < after.length; i++) {
+      changes.push({ op: "add", path: `${path}/${i}`, value: after[i] });
+    }
+    // Remove from the end so each path is valid when applied in order.
+    for (let i = before.length - 1; i >= shared; i--) {
+      changes.push({ op: "remove", path: `${path}/${i}`, oldValue: before[i] });
+    }
+    return;
+  }
+
+  changes.push({ op: "replace", path, oldValue: before, value: after });
+}
+
+/**
+ * Compute a structural diff between two JSON-compatible values.
+ *
+ * Objects are compared key by key and arrays index by index; any other
+ * difference is reported as a `replace` of the whole value.
+ *
+ * @param before - The original value.
+ * @param after - The updated value.
+ * @returns The changes, in document order. Empty when the values are equal.
+ *
+ * @example
+ * ```typescript
+ * diffJson({ items: ["a"] }, { items: ["a", "b"] });
+ * // [{ op: "add", path: "/items/1", value: "b" }]
+ * ```
+ */
+export function diffJson(before: unknown, after: unknown): JsonChange[] {
+  const changes: JsonChange[] = [];
+  walk(before, after, "", changes);
+  return changes;
+}
+
+/**
+ * Copy `value` into a JSON-compatible form with `serializer`, so it can be
+ * diffed after the original is mutated. Output that is not JSON is kept
+ * as a string.
+ */
+export function toJsonValue(value: unknown, serializer: Serializer): unknown {
+  const serialized = serializer(value ?? null);
+  try {
+    return JSON.parse(serialized) as unknown;
+  } catch {
+    return serialized;
+  }
+}
@@ -0,0 +1,83 @@
+export type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: number }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } };
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpRequest {
+  resourceSpans: {
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: {
+      scope: { name: string; version: string };
+      spans: unknown[];
+    }[];
+  }[];
+}
+
+export interface OtlpTarget {
+  apiUrl: string;
+  apiKey: string;
+  organizationId: string;
+  projectId: string;
+}
+
+export function toAnyValue(value: unknown): OtlpAnyValue {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? { intValue: value }
+      : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toAnyValue) } };
+  }
+  return {
+    stringValue: typeof value === "string" ? value : JSON.stringify(value),
+  };
+}
+
+export function toKeyValues(
+  attributes: Record<string, unknown>,
+): OtlpKeyValue[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+/**
+ * POST an OTLP/JSON request to the Judgment trace endpoint.
+ *
+ * @throws Error if the endpoint responds with a non-2xx status.
+ */
+export async function postOtlpJson(
+  target: OtlpTarget,
+  request: OtlpRequest,
+): Promise<void> {
+  const endpoint = target.apiUrl.endsWith("/")
+    ? target.apiUrl + "otel/v1/traces"
+    : target.apiUrl + "/otel/v1/traces";
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${target.apiKey}`,
+      "Content-Type": "application/json",
+      "X-Organization-Id": target.organizationId,
+      "X-Project-Id": target.projectId,
+    },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => "")).slice(0, 500);
+    throw new Error(
+      detail
+        ? `OTLP upload failed: ${response.status}: ${detail}`
+        : `OTLP upload failed: ${response.status}`,
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { safeStringify } from "./serializer";
+import { createSerializer, safeStringify } from "./serializer";
 
 describe("safeStringify", () => {
   test("primitives", () => {
@@ -129,3 +129,79 @@ describe("safeStringify", () => {
     }
   });
 });
+
+describe("createSerializer", () => {
+  test("Map and Set", () => {
+    const map = new Map<unknown, unknown>([
+      ["a", 1],
+      [2, new Set(["x", "y"])],
+    ]);
+    expect(safeStringify(map)).toBe('{"2":["x","y"],"a":1}');
+    expect(safeStringify(new Map([[{ id: 1 }, "obj"]]))).toBe(
+      '[[{"id":1},"obj"]]',
+    );
+  });
+
+  test("Error keeps name, message, stack, cause and own fields", () => {
+    const cause = new TypeError("bad input");
+    const error = Object.assign(new Error("request failed", { cause }), {
+      status: 429,
+    });
+    const result = JSON.parse(safeStringify(error)) as Record<string, unknown>;
+    expect(result.name).toBe("Error");
+    expect(result.message).toBe("request failed");
+    expect(result.stack).toContain("request failed");
+    expect(result.status).toBe(429);
+    expect((result.cause as Record<string, unknown>).message).toBe("bad input");
+  });
+
+  test("typed arrays and binary data", () => {
+    expect(safeStringify(new Uint8Array([104, 105]))).toBe('"aGk="');
+    expect(safeStringify(new Uint8Array([104, 105]).buffer)).toBe('"aGk="');
+    expect(safeStringify(new Float32Array([0.5, 1]))).toBe("[0.5,1]");
+    expect(safeStringify(new BigInt64Array([BigInt(3)]))).toBe('["3"]');
+  });
+
+  test("Date, RegExp, functions and toJSON", () => {
+    expect(safeStringify(new Date(0))).toBe('"1970-01-01T00:00:00.000Z"');
+    expect(safeStringify(/ab+c/gi)).toBe('"/ab+c/gi"');
+    expect(safeStringify({ onChunk: function onChunk() {} })).toBe(
+      '{"onChunk":"[Function: onChunk]"}',
+    );
+    expect(safeStringify({ toJSON: () => ({ redacted: true }) })).toBe(
+      '{"redacted":true}',
+    );
+  });
+
+  test("getters that throw do not fail serialization", () => {
+    const obj = {
+      get broken(): never {
+        throw new Error("nope");
+      },
+    };
+    expect(safeStringify(obj)).toBe('{"broken":"[Thrown: Error: nope]"}');
+  });
+
+  test("maxDepth and maxKeys guards", () => {
+    const serialize = createSerializer({ maxDepth: 2, maxKeys: 2 });
+    expect(serialize({ a: { b: { c: 1 } }, list: [[1]] })).toBe(
+      '{"a":{"b":"[Object]"},"list":["[Array(1)]"]}',
+    );
+    expect(serialize({ a: 1, b: 2, c: 3, d: 4 })).toBe(
+      '{"a":1,"b":2,"…":"[2 more keys]"}',
+    );
+  });
+
+  test("class name tagging", () => {
+    class Point {
+      constructor(
+        public x: number,
+        public y: number,
+      ) {}
+    }
+    expect(safeStringify(new Point(1, 2))).toBe('{"x":1,"y":2}');
+    expect(createSerializer({ tagClassNames: true })(new Point(1, 2))).toBe(
+      '{"__class":"Point","x":1,"y":2}',
+    );
+  });
+});
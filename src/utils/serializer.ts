@@ -2,38 +2,246 @@ import { Logger } from "./logger";
 
 export type Serializer = (obj: unknown) => string;
 
-function createCircularReplacer(): (
-  this: unknown,
-  key: string,
-  value: unknown,
-) => unknown {
-  const seen = new WeakSet<object>();
-  return function (_key: string, value: unknown): unknown {
-    if (typeof value === "bigint") return value.toString();
-    if (typeof value === "object" && value !== null) {
-      if (seen.has(value)) return "[Circular]";
-      seen.add(value);
-    }
-    return value;
+/**
+ * Options for {@link createSerializer}.
+ */
+export interface SerializerOptions {
+  /** Nesting depth past which values are replaced by a placeholder. Defaults to `32`. */
+  maxDepth?: number;
+  /** Maximum number of keys kept per object or `Map`. Defaults to `1000`. */
+  maxKeys?: number;
+  /**
+   * Whether to record the constructor name of class instances under a
+   * `__class` key. Defaults to `false`.
+   */
+  tagClassNames?: boolean;
+}
+
+interface EncodeContext {
+  maxDepth: number;
+  maxKeys: number;
+  tagClassNames: boolean;
+  /** Objects on the current path, for cycle detection. */
+  ancestors: Set<object>;
+}
+
+function toBase64(bytes: Uint8Array | Uint8ClampedArray): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function encodeBinary(value: ArrayBuffer | ArrayBufferView): unknown {
+  if (value instanceof ArrayBuffer) return toBase64(new Uint8Array(value));
+  if (value instanceof Uint8Array || value instanceof Uint8ClampedArray) {
+    return toBase64(value);
+  }
+  if (value instanceof BigInt64Array || value instanceof BigUint64Array) {
+    return Array.from(value, (n) => n.toString());
+  }
+  if (value instanceof DataView) {
+    return toBase64(
+      new Uint8Array(value.buffer, value.byteOffset, value.byteLength),
+    );
+  }
+  return Array.from(value as unknown as ArrayLike<number>);
+}
+
+function className(value: object): string | undefined {
+  const proto = Object.getPrototypeOf(value) as object | null;
+  if (proto === null || proto === Object.prototype) return undefined;
+  const name = (value as { constructor?: { name?: unknown } }).constructor
+    ?.name;
+  return typeof name === "string" && name ? name : undefined;
+}
+
+function readProperty(value: object, key: string): unknown {
+  try {
+    return (value as Record<string, unknown>)[key];
+  } catch (e) {
+    return `[Thrown: ${String(e)}]`;
+  }
+}
+
+function encodeEntries(
+  entries: [string, unknown][],
+  depth: number,
+  ctx: EncodeContext,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of entries.slice(0, ctx.maxKeys)) {
+    result[key] = encode(child, key, depth + 1, ctx);
+  }
+  if (entries.length > ctx.maxKeys) {
+    result["…"] = `[${entries.length - ctx.maxKeys} more keys]`;
+  }
+  return result;
+}
+
+function encodeMap(
+  map: Map<unknown, unknown>,
+  depth: number,
+  ctx: EncodeContext,
+): unknown {
+  const entries = [...map.entries()];
+  const primitiveKeys = entries.every(
+    ([key]) =>
+      typeof key === "string" ||
+      typeof key === "number" ||
+      typeof key === "boolean",
+  );
+  if (primitiveKeys) {
+    return encodeEntries(
+      entries.map(([key, value]) => [String(key), value]),
+      depth,
+      ctx,
+    );
+  }
+  return entries
+    .slice(0, ctx.maxKeys)
+    .map(([key, value], i) => [
+      encode(key, String(i), depth + 1, ctx),
+      encode(value, String(i), depth + 1, ctx),
+    ]);
+}
+
+function encodeError(
+  error: Error,
+  depth: number,
+  ctx: EncodeContext,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    ...encodeEntries(
+      Object.keys(error).map((key) => [key, readProperty(error, key)]),
+      depth,
+      ctx,
+    ),
   };
+  if (error.cause !== undefined) {
+    result.cause = encode(error.cause, "cause", depth + 1, ctx);
+  }
+  return result;
 }
 
-export function safeStringify(obj: unknown): string {
+/** Convert `value` into a JSON-compatible structure. */
+function encode(
+  value: unknown,
+  key: string,
+  depth: number,
+  ctx: EncodeContext,
+): unknown {
+  switch (typeof value) {
+    case "bigint":
+      return value.toString();
+    case "function":
+      return `[Function: ${value.name || "anonymous"}]`;
+    case "symbol":
+      return value.toString();
+    case "object":
+      break;
+    default:
+      return value;
+  }
+  if (value === null) return null;
+  if (ctx.ancestors.has(value)) return "[Circular]";
+
+  // Before `toJSON`: Node's Buffer.toJSON expands every byte.
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return encodeBinary(value);
+  }
+  const toJSON = (value as { toJSON?: unknown }).toJSON;
+  if (typeof toJSON === "function") {
+    let json: unknown;
+    try {
+      json = (toJSON as (key: string) => unknown).call(value, key);
+    } catch (e) {
+      return `[Thrown: ${String(e)}]`;
+    }
+    if (json !== value) return encode(json, key, depth, ctx);
+  }
+  if (value instanceof RegExp) return String(value);
+
+  if (depth >= ctx.maxDepth) {
+    return Array.isArray(value)
+      ? `[Array(${value.length})]`
+      : `[${className(value) ?? "Object"}]`;
+  }
+
+  ctx.ancestors.add(value);
   try {
-    const result = JSON.stringify(obj);
-    if (typeof result === "string") return result;
-    return String(result);
-  } catch {
+    if (Array.isArray(value)) {
+      return value.map(
+        (item, i) => encode(item, String(i), depth + 1, ctx) ?? null,
+      );
+    }
+    if (value instanceof Set) {
+      return [...value].map(
+        (item, i) => encode(item, String(i), depth + 1, ctx) ?? null,
+      );
+    }
+    if (value instanceof Map) return encodeMap(value, depth, ctx);
+    if (value instanceof Error) return encodeError(value, depth, ctx);
+
+    const fields = encodeEntries(
+      Object.keys(value).map((k) => [k, readProperty(value, k)]),
+      depth,
+      ctx,
+    );
+    const name = ctx.tagClassNames ? className(value) : undefined;
+    return name ? { __class: name, ...fields } : fields;
+  } finally {
+    ctx.ancestors.delete(value);
+  }
+}
+
+/**
+ * Create a JSON serializer with type-aware encodings.
+ *
+ * `Map`s become objects (or `[key, value]` pairs for non-primitive keys),
+ * `Set`s become arrays, `Error`s keep their name, message, stack, and
+ * cause, byte arrays become base64, and numeric typed arrays become plain
+ * arrays. `toJSON` is respected, `bigint`s become strings, and cycles
+ * become `"[Circular]"`.
+ *
+ * @param options - Depth, key-count, and class-name tagging options.
+ * @returns A serializer suitable for `TracerConfig.serializer`.
+ *
+ * @example
+ * ```typescript
+ * await Tracer.init({
+ *   projectName: "my-project",
+ *   serializer: createSerializer({ tagClassNames: true }),
+ * });
+ * ```
+ */
+export function createSerializer(options: SerializerOptions = {}): Serializer {
+  const { maxDepth = 32, maxKeys = 1000, tagClassNames = false } = options;
+  return (obj) => {
     try {
-      const result = JSON.stringify(obj, createCircularReplacer());
-      return typeof result === "string" ? result : String(obj);
+      const result = JSON.stringify(
+        encode(obj, "", 0, {
+          maxDepth,
+          maxKeys,
+          tagClassNames,
+          ancestors: new Set(),
+        }),
+      );
+      return typeof result === "string" ? result : String(result);
     } catch (e) {
       Logger.error(`safeStringify failed: ${e}`);
       return String(obj);
     }
-  }
+  };
 }
 
+/** The default serializer: {@link createSerializer} with default options. */
+export const safeStringify: Serializer = createSerializer();
+
 /**
  * Serializes an attribute to an "Attribute" compatible value. Primitives are returned as is, objects are serialized using the provided serializer.
  *
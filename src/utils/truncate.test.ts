@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+import { truncateAttributes, truncateAttributeValue } from "./truncate";
+
+const byteLength = (value: string) => new TextEncoder().encode(value).length;
+
+describe("truncateAttributeValue", () => {
+  test("returns values within budget unchanged", () => {
+    expect(truncateAttributeValue("hello", 5)).toBe("hello");
+    expect(truncateAttributeValue("héllo", 6)).toBe("héllo");
+  });
+
+  test("shortens JSON strings and arrays while keeping it valid", () => {
+    const value = JSON.stringify({
+      query: "short",
+      context: Array.from({ length: 50 }, (_, i) => `doc ${i} `.repeat(500)),
+    });
+
+    const result = truncateAttributeValue(value, 10_000);
+    expect(byteLength(result)).toBeLessThanOrEqual(10_000);
+    const parsed = JSON.parse(result) as { query: string; context: string[] };
+    expect(parsed.query).toBe("short");
+    expect(parsed.context[0]).toStartWith("doc 0 doc 0");
+    expect(parsed.context[0]).toContain("…[truncated");
+    expect(parsed.context[parsed.context.length - 1]).toMatch(
+      /^\[… \d+ more items\]$/,
+    );
+  });
+
+  test("replaces base64 blobs with a size and hash summary", () => {
+    const image = `data:image/png;base64,${"iVBORw0KGgo".repeat(2000)}`;
+    const value = JSON.stringify({ data: [{ b64_json: image }] });
+
+    const parsed = JSON.parse(truncateAttributeValue(value, 1000)) as {
+      data: { b64_json: string }[];
+    };
+    expect(parsed.data[0].b64_json).toMatch(
+      /^\[image\/png data: 16500 bytes, fnv1a:[0-9a-f]{8}\]$/,
+    );
+  });
+
+  test("cuts plain text at a character boundary", () => {
+    const result = truncateAttributeValue("é".repeat(1000), 100);
+    expect(byteLength(result)).toBeLessThanOrEqual(100);
+    expect(result).toMatch(/^é+…\[truncated 2000 bytes\]$/);
+  });
+
+  test("keeps escape-heavy JSON within budget when falling back to a string", () => {
+    let nested: unknown = 'say "hi" \\ \t';
+    for (let i = 0; i < 200; i++) nested = [nested, '"\\"\\'];
+    const value = JSON.stringify(nested);
+
+    const result = truncateAttributeValue(value, 300);
+    expect(byteLength(result)).toBeLessThanOrEqual(300);
+    const text = JSON.parse(result) as string;
+    expect(text).toStartWith("[[[");
+    expect(text).toContain("…[truncated");
+  });
+
+  test("never exceeds a budget smaller than the marker", () => {
+    for (const maxBytes of [0, 1, 5, 12]) {
+      expect(
+        byteLength(truncateAttributeValue("x".repeat(100), maxBytes)),
+      ).toBeLessThanOrEqual(maxBytes);
+      expect(
+        byteLength(truncateAttributeValue(`[${"1,".repeat(50)}1]`, maxBytes)),
+      ).toBeLessThanOrEqual(maxBytes);
+    }
+  });
+});
+
+describe("truncateAttributes", () => {
+  test("flags truncated attributes", () => {
+    const attributes = {
+      [AttributeKeys.JUDGMENT_INPUT]: "x".repeat(200),
+      [AttributeKeys.JUDGMENT_OUTPUT]: "ok",
+      count: 3,
+    };
+
+    const result = truncateAttributes(attributes, 100);
+    expect(byteLength(result[AttributeKeys.JUDGMENT_INPUT] as string)).toBe(
+      100,
+    );
+    expect(result[AttributeKeys.JUDGMENT_OUTPUT]).toBe("ok");
+    expect(result.count).toBe(3);
+    expect(result[AttributeKeys.JUDGMENT_TRUNCATED_ATTRIBUTES]).toEqual([
+      AttributeKeys.JUDGMENT_INPUT,
+    ]);
+    expect(truncateAttributes(attributes, Infinity)).toBe(attributes);
+  });
+});
@@ -0,0 +1,176 @@
+import type { Attributes } from "@opentelemetry/api";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+
+/** Default per-attribute budget: 256 KiB of UTF-8. */
+export const DEFAULT_MAX_ATTRIBUTE_BYTES = 256 * 1024;
+
+/** Base64 strings shorter than this are left for regular truncation. */
+const MIN_BINARY_LENGTH = 1024;
+
+/** String and collection caps tried in turn until a value fits. */
+const SHRINK_STEPS: [maxChars: number, maxItems: number][] = [
+  [8192, 1000],
+  [2048, 100],
+  [512, 20],
+  [128, 5],
+  [32, 1],
+];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function byteLength(value: string): number {
+  return encoder.encode(value).length;
+}
+
+function fnv1a(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+const DATA_URL = /^data:([\w.+-]+\/[\w.+-]+)?(?:;[\w=-]+)*;base64,/;
+const BASE64 = /^[A-Za-z0-9+/_-]+={0,2}$/;
+
+/** Summarize a base64 payload or data URL, or return `undefined`. */
+function summarizeBinary(value: string): string | undefined {
+  if (value.length < MIN_BINARY_LENGTH) return undefined;
+  const dataUrl = DATA_URL.exec(value);
+  const payload = dataUrl ? value.slice(dataUrl[0].length) : value;
+  if (!BASE64.test(payload)) return undefined;
+  const bytes = Math.floor((payload.replace(/=+$/, "").length * 3) / 4);
+  const kind = dataUrl?.[1] ?? "binary";
+  return `[${kind} data: ${bytes} bytes, fnv1a:${fnv1a(payload)}]`;
+}
+
+function truncateString(value: string, maxChars: number): string {
+  if (value.length <= maxChars) return value;
+  return `${value.slice(0, maxChars)}…[truncated ${value.length - maxChars} chars]`;
+}
+
+function shrink(value: unknown, maxChars: number, maxItems: number): unknown {
+  if (typeof value === "string") {
+    return summarizeBinary(value) ?? truncateString(value, maxChars);
+  }
+  if (Array.isArray(value)) {
+    const items = value
+      .slice(0, maxItems)
+      .map((item) => shrink(item, maxChars, maxItems));
+    if (value.length > maxItems) {
+      items.push(`[… ${value.length - maxItems} more items]`);
+    }
+    return items;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value);
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of entries.slice(0, maxItems)) {
+      result[key] = shrink(child, maxChars, maxItems);
+    }
+    if (entries.length > maxItems) {
+      result["…"] = `[${entries.length - maxItems} more keys]`;
+    }
+    return result;
+  }
+  return value;
+}
+
+/** Cut `value` to at most `maxBytes` of UTF-8 at a character boundary. */
+function cutBytes(value: string, maxBytes: number): string {
+  const bytes = encoder.encode(value);
+  if (bytes.length <= maxBytes) return value;
+  // Drop a multi-byte character split by the cut.
+  return decoder
+    .decode(bytes.subarray(0, Math.max(0, maxBytes)))
+    .replace(/\uFFFD$/, "");
+}
+
+/**
+ * Cut `value` to at most `maxBytes` of UTF-8, marker included. Budgets
+ * too small for the marker get as much of the marker as fits.
+ */
+function truncateBytes(value: string, maxBytes: number): string {
+  const marker = `…[truncated ${byteLength(value)} bytes]`;
+  const keep = maxBytes - byteLength(marker);
+  if (keep < 0) return cutBytes(marker, maxBytes);
+  return cutBytes(value, keep) + marker;
+}
+
+function truncateJson(value: string, maxBytes: number): string | undefined {
+  const trimmed = value.trimStart();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+  for (const [maxChars, maxItems] of SHRINK_STEPS) {
+    const shrunk = JSON.stringify(shrink(parsed, maxChars, maxItems));
+    if (byteLength(shrunk) <= maxBytes) return shrunk;
+  }
+  // Still too large (e.g. deeply nested); fall back to a JSON string.
+  // Escaping grows the text by an unknown amount, so cut the raw text by
+  // the overshoot until the encoded result fits.
+  for (let budget = maxBytes; budget >= 0; ) {
+    const encoded = JSON.stringify(truncateBytes(value, budget));
+    const overshoot = byteLength(encoded) - maxBytes;
+    if (overshoot <= 0) return encoded;
+    budget -= overshoot;
+  }
+  return undefined;
+}
+
+/**
+ * Fit a string attribute value into `maxBytes` of UTF-8.
+ *
+ * Serialized JSON stays valid: long strings and collections are shortened
+ * with markers and base64 payloads are replaced by a size and hash
+ * summary. Other strings are summarized if binary, or cut with a marker.
+ *
+ * @returns The value unchanged if it already fits.
+ */
+export function truncateAttributeValue(
+  value: string,
+  maxBytes: number,
+): string {
+  // UTF-8 uses at most 3 bytes per UTF-16 code unit.
+  if (value.length * 3 <= maxBytes || byteLength(value) <= maxBytes) {
+    return value;
+  }
+  const json = truncateJson(value, maxBytes);
+  if (json !== undefined) return json;
+  const summary = summarizeBinary(value);
+  if (summary !== undefined && byteLength(summary) <= maxBytes) return summary;
+  return truncateBytes(value, maxBytes);
+}
+
+/**
+ * Apply {@link truncateAttributeValue} to every string attribute and
+ * record the keys that were shortened as `judgment.truncated_attributes`.
+ *
+ * @returns A new attributes object, or `attributes` itself when nothing
+ *   was truncated.
+ */
+export function truncateAttributes(
+  attributes: Attributes,
+  maxBytes: number,
+): Attributes {
+  if (!Number.isFinite(maxBytes)) return attributes;
+  const truncated: string[] = [];
+  const result: Attributes = { ...attributes };
+  for (const [key, value] of Object.entries(attributes)) {
+    if (typeof value !== "string") continue;
+    const next = truncateAttributeValue(value, maxBytes);
+    if (next !== value) {
+      result[key] = next;
+      truncated.push(key);
+    }
+  }
+  if (truncated.length === 0) return attributes;
+  result[AttributeKeys.JUDGMENT_TRUNCATED_ATTRIBUTES] = truncated;
+  return result;
+}
@@ -11,12 +11,21 @@ import { BaseTracer, type TracerConfig } from "../trace/BaseTracer";
 import type { SpanExporter } from "@opentelemetry/sdk-trace-base";
 import type { JudgmentSpanExporter } from "../trace/exporters/JudgmentSpanExporter";
 import { JudgmentSpanProcessor } from "../trace/processors/JudgmentSpanProcessor";
+import { TailSamplingSpanProcessor } from "../trace/processors/TailSamplingSpanProcessor";
+import { Redactor } from "../trace/redaction";
 import { WorkerTracerProvider } from "./WorkerTracerProvider";
 import { WorkerSpanExporter } from "./WorkerSpanExporter";
 
 export interface WorkersTracerConfig extends Omit<
   TracerConfig,
-  "apiKey" | "apiUrl" | "organizationId" | "projectName"
+  | "apiKey"
+  | "apiUrl"
+  | "organizationId"
+  | "projectName"
+  | "exportQueue"
+  | "exporter"
+  | "fileExporter"
+  | "debug"
 > {
   /** Your Judgment project name. Required when projectId is not provided. */
   projectName?: string;
@@ -121,6 +130,13 @@ export class Tracer extends BaseTracer {
       }),
       client,
     );
+    if (config.redact) {
+      tracer._redactor = new Redactor(config.redact);
+    }
+    if (config.maxAttributeBytes !== undefined) {
+      tracer._maxAttributeBytes = config.maxAttributeBytes;
+    }
+    tracer._tailSampling = config.tailSampling ?? null;
 
     const providerWithProcessor = new WebTracerProvider({
       resource,
@@ -161,10 +177,13 @@ export class Tracer extends BaseTracer {
   getSpanProcessor(): JudgmentSpanProcessor {
     if (this._spanProcessor) return this._spanProcessor;
 
-    this._spanProcessor = new JudgmentSpanProcessor(
-      this,
-      this.getSpanExporter(),
-    );
+    this._spanProcessor = this._tailSampling
+      ? new TailSamplingSpanProcessor(
+          this,
+          this.getSpanExporter(),
+          this._tailSampling,
+        )
+      : new JudgmentSpanProcessor(this, this.getSpanExporter());
     return this._spanProcessor;
   }
 }
@@ -1,19 +1,64 @@
 export {
   BaseTracer,
+  type AISDKTelemetrySettings,
   type AsyncEvaluateOptions,
   type LLMMetadata,
+  type ObserveClassOptions,
   type ObserveOptions,
+  type ScoreOptions,
   type TracerConfig,
 } from "../trace/BaseTracer";
+export { type AgentOptions } from "../trace/agent";
 export { Tracer, type WorkersTracerConfig } from "./Tracer";
-export { wrap, wrapOpenAI } from "../instrumentation";
+export {
+  JudgevalCallbackHandler,
+  wrap,
+  wrapAnthropic,
+  wrapGoogleGenAI,
+  wrapOpenAI,
+} from "../instrumentation";
 export { WorkerSpanExporter } from "./WorkerSpanExporter";
+export {
+  withJudgeval,
+  type MessageBatchLike,
+  type ScheduledControllerLike,
+  type WithJudgevalOptions,
+  type WorkerContextLike,
+} from "./withJudgeval";
+export { AISDKSpanProcessor } from "../trace/processors/AISDKSpanProcessor";
 export { JudgmentSpanProcessor } from "../trace/processors/JudgmentSpanProcessor";
+export {
+  TailSamplingSpanProcessor,
+  type TailSampledTrace,
+  type TailSamplingOptions,
+} from "../trace/processors/TailSamplingSpanProcessor";
 export {
   ALLOW_ALL_BAGGAGE_KEYS,
   JudgmentBaggageSpanProcessor,
   type BaggageKeyPredicate,
 } from "../trace/processors/JudgmentBaggageSpanProcessor";
 export { JudgmentBaggagePropagator } from "../trace/baggage/JudgmentBaggagePropagator";
+export {
+  honoMiddleware,
+  type HeaderExtractor,
+  type HttpMiddlewareOptions,
+  type HttpRequestInfo,
+} from "../trace/middleware";
+export {
+  instrumentFetch,
+  uninstrumentFetch,
+} from "../trace/instrumentation/fetch";
+export {
+  type HostPattern,
+  type HttpClientInstrumentationOptions,
+} from "../trace/instrumentation/httpClient";
 export * as baggage from "../trace/baggage";
+export * as messaging from "../trace/messaging";
 export * as propagation from "../trace/propagation";
+export * as redaction from "../trace/redaction";
+export * as pricing from "../pricing";
+export {
+  createSerializer,
+  type Serializer,
+  type SerializerOptions,
+} from "../utils/serializer";
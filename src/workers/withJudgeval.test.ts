@@ -0,0 +1,238 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { SpanKind } from "@opentelemetry/api";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+import { createTestTracer, expectSpanTree, type TestTracer } from "../testing";
+import { BaseTracer } from "../trace/BaseTracer";
+import {
+  type MessageBatchLike,
+  type ScheduledControllerLike,
+  withJudgeval,
+  type WorkerContextLike,
+} from "./withJudgeval";
+
+const TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const TRACEPARENT = `00-${TRACE_ID}-b7ad6b7169203331-01`;
+
+function executionContext() {
+  const pending: Promise<unknown>[] = [];
+  return {
+    pending,
+    waitUntil(promise: Promise<unknown>) {
+      pending.push(promise);
+    },
+  };
+}
+
+describe("withJudgeval", () => {
+  let tracer: TestTracer;
+
+  beforeEach(() => {
+    tracer = createTestTracer();
+  });
+
+  afterEach(() => {
+    tracer.dispose();
+  });
+
+  test("traces fetch from request headers and flushes through waitUntil", async () => {
+    const worker = withJudgeval(
+      {
+        fetch(
+          _request: Request,
+          env: { greeting: string },
+          _ctx: WorkerContextLike,
+        ) {
+          BaseTracer.span("agent", () => undefined);
+          return Promise.resolve(new Response(env.greeting, { status: 202 }));
+        },
+      },
+      { customerId: "x-customer-id" },
+    );
+    const ctx = executionContext();
+
+    const response = await worker.fetch(
+      new Request("https://worker.example.com/chat?q=1", {
+        method: "POST",
+        headers: { traceparent: TRACEPARENT, "x-customer-id": "acme" },
+      }),
+      { greeting: "hi" },
+      ctx,
+    );
+
+    expect(await response.text()).toBe("hi");
+    expect(ctx.pending).toHaveLength(1);
+    const root = expectSpanTree(tracer.spans, {
+      name: "POST",
+      attributes: {
+        [AttributeKeys.FAAS_TRIGGER]: "http",
+        [AttributeKeys.URL_PATH]: "/chat",
+        [AttributeKeys.HTTP_RESPONSE_STATUS_CODE]: 202,
+        [AttributeKeys.JUDGMENT_CUSTOMER_ID]: "acme",
+      },
+      children: [{ name: "agent" }],
+    });
+    expect(root.spanContext().traceId).toBe(TRACE_ID);
+  });
+
+  test("keeps the fetch span open until a streamed body finishes", async () => {
+    const worker = withJudgeval({
+      fetch(_request: Request, _env: unknown, _ctx: WorkerContextLike) {
+        const generate = BaseTracer.getOTELTracer().startSpan("generate");
+        const encoder = new TextEncoder();
+        let sent = 0;
+        const body = new ReadableStream<Uint8Array>({
+          pull(controller) {
+            if (sent === 2) {
+              generate.end();
+              controller.close();
+              return;
+            }
+            controller.enqueue(encoder.encode(`chunk ${sent++};`));
+          },
+        });
+        return Promise.resolve(new Response(body, { status: 200 }));
+      },
+    });
+    const ctx = executionContext();
+
+    const response = await worker.fetch(
+      new Request("https://worker.example.com/stream"),
+      {},
+      ctx,
+    );
+
+    expect(tracer.spans).toHaveLength(0);
+    expect(ctx.pending).toHaveLength(0);
+    expect(await response.text()).toBe("chunk 0;chunk 1;");
+    expect(ctx.pending).toHaveLength(1);
+    expectSpanTree(tracer.spans, {
+      name: "GET",
+      attributes: { [AttributeKeys.HTTP_RESPONSE_STATUS_CODE]: 200 },
+      children: [{ name: "generate" }],
+    });
+  });
+
+  test("ends the fetch span when a streamed body is cancelled", async () => {
+    const worker = withJudgeval({
+      fetch(_request: Request, _env: unknown, _ctx: WorkerContextLike) {
+        const body = new ReadableStream<Uint8Array>({
+          pull(controller) {
+            controller.enqueue(new Uint8Array([1]));
+          },
+        });
+        return Promise.resolve(new Response(body));
+      },
+    });
+    const ctx = executionContext();
+
+    const response = await worker.fetch(
+      new Request("https://worker.example.com/stream"),
+      {},
+      ctx,
+    );
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(tracer.spans.map((span) => span.name)).toEqual(["GET"]);
+    expect(ctx.pending).toHaveLength(1);
+  });
+
+  test("traces scheduled and queue handlers", async () => {
+    const worker = withJudgeval({
+      scheduled: (
+        _controller: ScheduledControllerLike,
+        _env: unknown,
+        _ctx: WorkerContextLike,
+      ) => Promise.resolve(),
+      queue: (
+        _batch: MessageBatchLike,
+        _env: unknown,
+        _ctx: WorkerContextLike,
+      ) => {
+        throw new Error("retry later");
+      },
+    });
+    const ctx = executionContext();
+
+    await worker.scheduled({ cron: "*/5 * * * *" }, {}, ctx);
+    await expect(
+      worker.queue({ queue: "jobs", messages: [{}, {}] }, {}, ctx),
+    ).rejects.toThrow("retry later");
+
+    const [scheduled, queue] = tracer.spans;
+    expect(scheduled.name).toBe("scheduled */5 * * * *");
+    expect(scheduled.attributes[AttributeKeys.FAAS_CRON]).toBe("*/5 * * * *");
+    expect(queue.name).toBe("process jobs");
+    expect(queue.attributes).toMatchObject({
+      [AttributeKeys.MESSAGING_DESTINATION_NAME]: "jobs",
+      [AttributeKeys.MESSAGING_BATCH_MESSAGE_COUNT]: 2,
+    });
+    expect(queue.status.message).toBe("Error: retry later");
+    expect(ctx.pending).toHaveLength(2);
+  });
+
+  test("traces Durable Object methods and keeps them on the prototype", async () => {
+    class Counter {
+      count = 0;
+
+      constructor(
+        readonly state: ReturnType<typeof executionContext>,
+        readonly env: unknown,
+      ) {}
+
+      increment(): number {
+        return this.bump() + this.bump();
+      }
+
+      bump(): number {
+        return ++this.count;
+      }
+
+      fetch(_request: Request): Promise<Response> {
+        return Promise.resolve(new Response(String(this.increment())));
+      }
+    }
+    const TracedCounter = withJudgeval(Counter);
+    const state = executionContext();
+    const counter = new TracedCounter(state, {});
+
+    expect(counter.increment()).toBe(3);
+    const response = await counter.fetch(
+      new Request("https://counter.example.com/"),
+    );
+
+    expect(await response.text()).toBe("7");
+    expect(TracedCounter.name).toBe("Counter");
+    expect(Object.prototype.hasOwnProperty.call(counter, "increment")).toBe(
+      false,
+    );
+    expect(state.pending).toHaveLength(2);
+    const increment = tracer.spans.find(
+      (span) => span.name === "Counter.increment" && !span.parentSpanContext,
+    )!;
+    expect(increment.kind).toBe(SpanKind.SERVER);
+    expect(
+      tracer.spans.filter(
+        (span) =>
+          span.name === "Counter.bump" &&
+          span.parentSpanContext?.spanId === increment.spanContext().spanId,
+      ),
+    ).toHaveLength(2);
+    expectSpanTree(
+      tracer.spans.filter(
+        (span) =>
+          span.spanContext().traceId !== increment.spanContext().traceId,
+      ),
+      {
+        name: "GET",
+        children: [
+          {
+            name: "Counter.increment",
+            children: [{ name: "Counter.bump" }, { name: "Counter.bump" }],
+          },
+        ],
+      },
+    );
+  });
+});
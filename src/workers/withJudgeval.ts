@@ -0,0 +1,407 @@
+import {
+  type Attributes,
+  type Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import { AttributeKeys } from "../JudgmentAttributeKeys";
+import { BaseTracer } from "../trace/BaseTracer";
+import {
+  type HttpMiddlewareOptions,
+  startRequestTrace,
+} from "../trace/middleware/requestTrace";
+import { getTraceRuntime } from "../trace/runtime";
+import { dontThrow } from "../utils/dont-throw";
+import { Logger } from "../utils/logger";
+import { Tracer, type WorkersTracerConfig } from "./Tracer";
+
+/** The parts of a Workers `ExecutionContext` or `DurableObjectState` used here. */
+export interface WorkerContextLike {
+  waitUntil(promise: Promise<unknown>): void;
+  blockConcurrencyWhile?<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/** The parts of a `ScheduledController` recorded on the span. */
+export interface ScheduledControllerLike {
+  cron: string;
+}
+
+/** The parts of a Queues `MessageBatch` recorded on the span. */
+export interface MessageBatchLike {
+  queue: string;
+  messages: readonly unknown[];
+}
+
+/**
+ * Options for {@link withJudgeval}. Customer, user, and session IDs are
+ * read from request headers as in the HTTP middleware.
+ */
+export interface WithJudgevalOptions<
+  Env = unknown,
+> extends HttpMiddlewareOptions {
+  /**
+   * Builds the tracer config from the Worker's `env`. When set, the tracer
+   * is initialized once per isolate, on the first invocation. Leave it
+   * unset if you call `Tracer.init` yourself.
+   */
+  config?: (env: Env) => WorkersTracerConfig;
+}
+
+type AnyFunction = (...args: unknown[]) => unknown;
+type WaitUntil = ((promise: Promise<unknown>) => void) | undefined;
+
+let tracerInit: Promise<unknown> | null = null;
+
+/** Initialize the tracer from `options.config`, once per isolate. */
+function initTracer<Env>(
+  options: WithJudgevalOptions<Env>,
+  env: Env,
+): Promise<unknown> | null {
+  const { config } = options;
+  if (!config || getTraceRuntime().getActiveTracer()) return null;
+  tracerInit ??= Promise.resolve()
+    .then(() => Tracer.init(config(env)))
+    .catch((err: unknown) => {
+      Logger.error(
+        `withJudgeval could not initialize the tracer: ${String(err)}`,
+      );
+      tracerInit = null;
+    });
+  return tracerInit;
+}
+
+/** Export pending spans after the response, without delaying it. */
+function scheduleFlush(waitUntil: WaitUntil): void {
+  if (!waitUntil) return;
+  dontThrow("withJudgeval.flush", () => {
+    waitUntil(
+      BaseTracer.forceFlush().catch((err: unknown) => {
+        Logger.warning(`Span flush failed: ${String(err)}`);
+      }),
+    );
+  });
+}
+
+function recordError(span: Span, error: unknown): void {
+  const err = error instanceof Error ? error : new Error(String(error));
+  span.recordException(err);
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: `${err.name}: ${err.message}`,
+  });
+}
+
+async function traceFetch(
+  request: Request,
+  options: HttpMiddlewareOptions,
+  handle: () => unknown,
+  waitUntil: WaitUntil,
+): Promise<unknown> {
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  const requestTrace = dontThrow("withJudgeval.fetch", () =>
+    startRequestTrace(
+      {
+        method: request.method,
+        path: new URL(request.url).pathname,
+        headers,
+      },
+      options,
+    ),
+  );
+  if (!requestTrace) return handle();
+  requestTrace.span.setAttribute(AttributeKeys.FAAS_TRIGGER, "http");
+  let response: unknown;
+  try {
+    response = await requestTrace.run(handle);
+  } catch (e) {
+    requestTrace.fail(e);
+    requestTrace.end(500);
+    scheduleFlush(waitUntil);
+    throw e;
+  }
+  const status = response instanceof Response ? response.status : 200;
+  const finish = (): void => {
+    requestTrace.end(status);
+    scheduleFlush(waitUntil);
+  };
+  if (!(response instanceof Response) || !response.body) {
+    finish();
+    return response;
+  }
+  // Streamed bodies keep the span open until they finish or are cancelled,
+  // so spans ended while streaming are part of the trace and flushed.
+  // `cancel` runs on both a consumer cancel and a failed upstream body.
+  const passThrough: Transformer<Uint8Array, Uint8Array> & {
+    cancel(): void;
+  } = { flush: finish, cancel: finish };
+  return new Response(
+    response.body.pipeThrough(new TransformStream(passThrough)),
+    response,
+  );
+}
+
+/**
+ * Run `handle` in a span that is a child of the current one, or the root
+ * of a new trace. Root spans schedule a flush when they end. Keeps
+ * synchronous calls synchronous.
+ */
+function traceCall<T>(
+  name: string,
+  attributes: Attributes,
+  handle: () => T,
+  waitUntil: WaitUntil,
+): T {
+  const runtime = getTraceRuntime();
+  const parent = runtime.getCurrentContext();
+  const isRoot = !trace.getSpan(parent)?.isRecording();
+  const span = BaseTracer.getOTELTracer().startSpan(
+    name,
+    { kind: isRoot ? SpanKind.SERVER : SpanKind.INTERNAL, attributes },
+    parent,
+  );
+  const finish = (): void => {
+    span.end();
+    if (isRoot) scheduleFlush(waitUntil);
+  };
+  let result: T;
+  try {
+    result = runtime.withContext(trace.setSpan(parent, span), handle);
+  } catch (e) {
+    recordError(span, e);
+    finish();
+    throw e;
+  }
+  if (result instanceof Promise) {
+    return result.then(
+      (value: unknown) => {
+        finish();
+        return value;
+      },
+      (e: unknown) => {
+        recordError(span, e);
+        finish();
+        throw e;
+      },
+    ) as T;
+  }
+  finish();
+  return result;
+}
+
+function traceScheduled(
+  controller: ScheduledControllerLike,
+  handle: () => unknown,
+  waitUntil: WaitUntil,
+): unknown {
+  return traceCall(
+    `scheduled ${controller.cron}`,
+    {
+      [AttributeKeys.FAAS_TRIGGER]: "timer",
+      [AttributeKeys.FAAS_CRON]: controller.cron,
+    },
+    handle,
+    waitUntil,
+  );
+}
+
+function traceQueue(
+  batch: MessageBatchLike,
+  handle: () => unknown,
+  waitUntil: WaitUntil,
+): unknown {
+  return traceCall(
+    `process ${batch.queue}`,
+    {
+      [AttributeKeys.FAAS_TRIGGER]: "pubsub",
+      [AttributeKeys.MESSAGING_SYSTEM]: "cloudflare_queues",
+      [AttributeKeys.MESSAGING_DESTINATION_NAME]: batch.queue,
+      [AttributeKeys.MESSAGING_OPERATION_TYPE]: "process",
+      [AttributeKeys.MESSAGING_BATCH_MESSAGE_COUNT]: batch.messages.length,
+    },
+    handle,
+    waitUntil,
+  );
+}
+
+/** Wrap the handlers of an `export default { fetch, scheduled, queue }` object. */
+function wrapHandlers<T extends object, Env>(
+  handlers: T,
+  options: WithJudgevalOptions<Env>,
+): T {
+  const wrapped: Record<string, unknown> = Object.create(
+    Object.getPrototypeOf(handlers) as object | null,
+  ) as Record<string, unknown>;
+  Object.assign(wrapped, handlers);
+  const source = handlers as Record<string, unknown>;
+
+  const wrap = (
+    name: string,
+    traced: (
+      event: never,
+      handle: () => unknown,
+      waitUntil: WaitUntil,
+    ) => unknown,
+  ): void => {
+    const original = source[name];
+    if (typeof original !== "function") return;
+    wrapped[name] = async function (
+      this: unknown,
+      event: never,
+      env: Env,
+      ctx?: WorkerContextLike,
+    ): Promise<unknown> {
+      await initTracer(options, env);
+      const handle = () =>
+        (original as AnyFunction).call(this, event, env, ctx);
+      return traced(event, handle, ctx?.waitUntil.bind(ctx));
+    };
+  };
+  wrap("fetch", (request: Request, handle, waitUntil) =>
+    traceFetch(request, options, handle, waitUntil),
+  );
+  wrap("scheduled", traceScheduled);
+  wrap("queue", traceQueue);
+  return wrapped as T;
+}
+
+function methodNames(prototype: object): string[] {
+  const names = new Set<string>();
+  for (
+    let proto: object | null = prototype;
+    proto && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto) as object | null
+  ) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      const descriptor = Object.getOwnPropertyDescriptor(proto, name);
+      if (name !== "constructor" && typeof descriptor?.value === "function") {
+        names.add(name);
+      }
+    }
+  }
+  return [...names];
+}
+
+interface Instance {
+  waitUntil: WaitUntil;
+  ready: Promise<unknown> | null;
+}
+
+/**
+ * Wrap a class constructed with `(ctx, env)`: a Durable Object or a
+ * `WorkerEntrypoint`. `fetch`, `scheduled`, and `queue` are traced as
+ * above; every other method gets a span named `<Class>.<method>`. The
+ * methods stay on the prototype so they remain callable over RPC.
+ */
+function wrapClass<Env>(
+  cls: new (...args: unknown[]) => object,
+  options: WithJudgevalOptions<Env>,
+): new (...args: unknown[]) => object {
+  const className = cls.name || "DurableObject";
+  const instances = new WeakMap<object, Instance>();
+
+  const Wrapped = class extends cls {
+    constructor(...args: unknown[]) {
+      super(...args);
+      const ctx = args[0] as WorkerContextLike | undefined;
+      const ready = initTracer(options, args[1] as Env);
+      // Durable Objects hold incoming events until the tracer is ready.
+      if (ready) void ctx?.blockConcurrencyWhile?.(() => ready);
+      instances.set(this, { waitUntil: ctx?.waitUntil?.bind(ctx), ready });
+    }
+  };
+
+  const prototype = cls.prototype as Record<string, AnyFunction>;
+  for (const name of methodNames(prototype)) {
+    const original = prototype[name];
+    const method = function (this: object, ...params: unknown[]): unknown {
+      const { waitUntil, ready } = instances.get(this) ?? {
+        waitUntil: undefined,
+        ready: null,
+      };
+      const handle = () => original.apply(this, params);
+      const event = params[0];
+      switch (name) {
+        case "fetch":
+          return (ready ?? Promise.resolve()).then(() =>
+            traceFetch(event as Request, options, handle, waitUntil),
+          );
+        case "scheduled":
+          return (ready ?? Promise.resolve()).then(() =>
+            traceScheduled(event as ScheduledControllerLike, handle, waitUntil),
+          );
+        case "queue":
+          return (ready ?? Promise.resolve()).then(() =>
+            traceQueue(event as MessageBatchLike, handle, waitUntil),
+          );
+        default:
+          return traceCall(`${className}.${name}`, {}, handle, waitUntil);
+      }
+    };
+    Object.defineProperty(Wrapped.prototype, name, {
+      value: method,
+      writable: true,
+      configurable: true,
+    });
+  }
+  Object.defineProperty(Wrapped, "name", { value: className });
+  return Wrapped;
+}
+
+/**
+ * Trace a Cloudflare Worker: its `fetch`, `scheduled`, and `queue`
+ * handlers, or the methods of a Durable Object or `WorkerEntrypoint`
+ * class.
+ *
+ * Each invocation runs in a root span. `fetch` continues the trace
+ * carried by the request headers and records the response as the HTTP
+ * middleware does, ending once a streamed body finishes or is cancelled.
+ * Pending spans are flushed through `ctx.waitUntil`, so responses are not
+ * delayed by the export.
+ *
+ * Pass `config` to initialize the tracer from `env` on the first
+ * invocation, since Workers have no `process.env` at module load.
+ *
+ * @param handler - The handler object, or a Durable Object or
+ *   `WorkerEntrypoint` class.
+ * @param options - Tracer config, and headers to read IDs from.
+ * @returns The handler, with the same shape.
+ *
+ * @example
+ * ```typescript
+ * import { withJudgeval } from "judgeval/workers";
+ *
+ * export default withJudgeval(
+ *   {
+ *     async fetch(request, env, ctx) {
+ *       return Response.json(await agent(await request.json()));
+ *     },
+ *   },
+ *   {
+ *     config: (env: Env) => ({
+ *       apiKey: env.JUDGMENT_API_KEY,
+ *       organizationId: env.JUDGMENT_ORG_ID,
+ *       apiUrl: env.JUDGMENT_API_URL,
+ *       projectId: env.JUDGMENT_PROJECT_ID,
+ *     }),
+ *   },
+ * );
+ *
+ * export const Counter = withJudgeval(CounterObject);
+ * ```
+ */
+export function withJudgeval<T extends object, Env = unknown>(
+  handler: T,
+  options: WithJudgevalOptions<Env> = {},
+): T {
+  if (typeof handler === "function") {
+    return wrapClass(
+      handler as unknown as new (...args: unknown[]) => object,
+      options,
+    ) as unknown as T;
+  }
+  return wrapHandlers(handler, options);
+}